@@ -0,0 +1,105 @@
+import { Warp } from '../../../core/Warp';
+import { CacheKey } from '../../../cache/SortKeyCache';
+import { ContractCache, SrcCache } from '../../../core/ContractDefinition';
+import { EvaluationManifest } from '../../../contract/deploy/CreateContract';
+import { GQLNodeInterface, GQLTagInterface } from '../../../legacy/gqlResult';
+import { LoggerFactory } from '../../../logging/LoggerFactory';
+
+/**
+ * The fixtures of the unit tests evaluating the contracts with the mocked loaders.
+ */
+
+export function txId(i: number): string {
+  return `tx${i}`.padEnd(43, '0');
+}
+
+export function sortKey(i: number): string {
+  return `${i}`.padStart(12, '0') + ',0000000000000,' + `${i}`.padStart(64, '0');
+}
+
+/**
+ * @param input - the 'add' of the interaction number by default
+ * @param tags - added after the SmartWeave tags, e.g. the 'Interact-Write' tags
+ */
+export interface InteractionOptions {
+  caller?: string;
+  input?: unknown;
+  fee?: string;
+  tags?: GQLTagInterface[];
+}
+
+/**
+ * The i-th interaction with the contract - at the i-th block.
+ */
+export function interaction(i: number, contractTxId: string, options: InteractionOptions = {}): GQLNodeInterface {
+  const { caller = 'alice', input = { function: 'add', value: i }, fee = '0', tags = [] } = options;
+  return {
+    id: txId(i),
+    sortKey: sortKey(i),
+    owner: { address: caller },
+    recipient: '',
+    tags: [
+      { name: 'App-Name', value: 'SmartWeaveAction' },
+      { name: 'Contract', value: contractTxId },
+      { name: 'Input', value: JSON.stringify(input) },
+      ...tags
+    ],
+    block: { height: i, id: `block${i}`, timestamp: 1000 + i, previous: null },
+    fee: { winston: fee, ar: '0' },
+    quantity: { winston: '0', ar: '0' }
+  } as GQLNodeInterface;
+}
+
+/**
+ * Mocks the interactions loader of the Warp - the interactions returned for the contract (by the given function,
+ * if the interactions differ per contract) are filtered by the requested sortKeys.
+ */
+export function mockInteractionsLoader(
+  warp: Warp,
+  interactions: GQLNodeInterface[] | ((contractTxId: string) => GQLNodeInterface[])
+): jest.SpyInstance {
+  return jest
+    .spyOn(warp.interactionsLoader, 'load')
+    .mockImplementation(async (contractTxId: string, fromSortKey?: string, toSortKey?: string) =>
+      (typeof interactions == 'function' ? interactions(contractTxId) : interactions).filter(
+        (i) =>
+          (!fromSortKey || i.sortKey.localeCompare(fromSortKey) > 0) &&
+          (!toSortKey || i.sortKey.localeCompare(toSortKey) <= 0)
+      )
+    );
+}
+
+/**
+ * Stores the JS contract in the definition caches of the Warp - so that it is not loaded from the gateway.
+ */
+export async function deployContract(
+  warp: Warp,
+  contractTxId: string,
+  src: string,
+  initState: unknown,
+  manifest?: EvaluationManifest
+): Promise<void> {
+  const srcTxId = `src-${contractTxId}`.slice(0, 43);
+  await warp.definitionLoader.getCache().put(new CacheKey(contractTxId, 'cd'), {
+    txId: contractTxId,
+    srcTxId,
+    initState,
+    owner: 'owner',
+    minFee: '0',
+    contractType: 'js',
+    testnet: null,
+    manifest
+  } as ContractCache<unknown>);
+  await warp.definitionLoader
+    .getSrcCache()
+    .put(new CacheKey(srcTxId, 'src'), { src, srcBinary: null, srcWasmLang: null } as SrcCache);
+}
+
+/**
+ * Logs only the errors in the current describe block.
+ */
+export function silenceLogs() {
+  beforeAll(() => {
+    LoggerFactory.INST.logLevel('error');
+  });
+}
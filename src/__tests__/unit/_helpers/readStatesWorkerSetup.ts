@@ -0,0 +1,72 @@
+import { defaultCacheOptions, WarpFactory } from '../../../core/WarpFactory';
+import { Warp } from '../../../core/Warp';
+import { CacheKey } from '../../../cache/SortKeyCache';
+import { ContractCache, SrcCache } from '../../../core/ContractDefinition';
+import { GQLNodeInterface } from '../../../legacy/gqlResult';
+import { LoggerFactory } from '../../../logging/LoggerFactory';
+
+export const srcTxId = 'SrcTx-5HPd9t0c6QxrnS-qM1X8c8Vr4cF9mQaV1ai9j8';
+export const contractTxIds = ['A', 'B', 'C'].map((id) => `Contract-${id}`.padEnd(43, '0'));
+
+const src = `export async function handle(state, action) {
+  state.counter += action.input.value;
+  return { state };
+}`;
+
+export function sortKey(i: number): string {
+  return `${i}`.padStart(12, '0') + ',0000000000000,' + `${i}`.padStart(64, '0');
+}
+
+export function interaction(contractTxId: string, i: number, interactWrite?: string): GQLNodeInterface {
+  const tags = [
+    { name: 'App-Name', value: 'SmartWeaveAction' },
+    { name: 'Contract', value: contractTxId },
+    { name: 'Input', value: JSON.stringify({ function: 'add', value: i }) }
+  ];
+  if (interactWrite) {
+    tags.push({ name: 'Interact-Write', value: interactWrite });
+  }
+  return {
+    id: `${contractTxId.slice(0, 10)}-tx${i}`.padEnd(43, '0'),
+    sortKey: sortKey(i),
+    owner: { address: 'owner' },
+    recipient: '',
+    tags,
+    block: { height: i, id: `block${i}`, timestamp: 1000 + i, previous: null },
+    fee: { winston: '0', ar: '0' },
+    quantity: { winston: '0', ar: '0' }
+  } as GQLNodeInterface;
+}
+
+export async function mockContracts(warp: Warp, deployed: string[]): Promise<Warp> {
+  warp.interactionsLoader.load = async (txId: string, fromSortKey?: string, toSortKey?: string) =>
+    [1, 2, 3]
+      .map((i) => interaction(txId, i))
+      .filter((i) => (!fromSortKey || i.sortKey > fromSortKey) && (!toSortKey || i.sortKey <= toSortKey));
+  for (const contractTxId of deployed) {
+    await warp.definitionLoader.getCache().put(new CacheKey(contractTxId, 'cd'), {
+      txId: contractTxId,
+      srcTxId,
+      initState: { counter: 0 },
+      owner: 'owner',
+      minFee: '0',
+      contractType: 'js',
+      testnet: null
+    } as ContractCache<unknown>);
+  }
+  await warp.definitionLoader
+    .getSrcCache()
+    .put(new CacheKey(srcTxId, 'src'), { src, srcBinary: null, srcWasmLang: null } as SrcCache);
+  return warp;
+}
+
+/**
+ * the worker module of the ParallelStateReader tests - the last contract is not deployed
+ */
+export async function createWarp(): Promise<Warp> {
+  LoggerFactory.INST.logLevel('error');
+  return await mockContracts(
+    WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }),
+    contractTxIds.slice(0, 2)
+  );
+}
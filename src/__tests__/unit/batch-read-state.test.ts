@@ -0,0 +1,170 @@
+import Arweave from 'arweave';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { ContractCache, SrcCache } from '../../core/ContractDefinition';
+import { GQLEdgeInterface, GQLNodeInterface } from '../../legacy/gqlResult';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { ArweaveGQLTxsFetcher, ArweaveTransactionQuery } from '../../core/modules/impl/ArweaveGQLTxsFetcher';
+import { ArweaveGatewayInteractionsLoader } from '../../core/modules/impl/ArweaveGatewayInteractionsLoader';
+import { CacheableInteractionsLoader } from '../../core/modules/impl/CacheableInteractionsLoader';
+import { SMART_WEAVE_TAGS } from '../../core/KnownTags';
+import { DefaultEvaluationOptions } from '../../core/modules/StateEvaluator';
+
+const contractTxIds = ['A', 'B', 'C'].map((name) => `contract${name}`.padEnd(43, '0'));
+const srcTxId = 'SrcTx-5HPd9t0c6QxrnS-qM1X8c8Vr4cF9mQaV1ai9j8';
+
+const src = `export async function handle(state, action) {
+  state.counter += action.input.value;
+  return { state };
+}`;
+
+function sortKey(height: number, i: number): string {
+  return `${height}`.padStart(12, '0') + ',0000000000000,' + `${i}`.padStart(64, '0');
+}
+
+function interaction(contractTxId: string, height: number, value: number): GQLEdgeInterface {
+  return {
+    cursor: `${height}-${value}`,
+    node: {
+      id: `tx-${contractTxId.substring(0, 9)}-${value}`.padEnd(43, '0'),
+      sortKey: sortKey(height, value),
+      owner: { address: 'owner' },
+      recipient: '',
+      tags: [
+        { name: 'App-Name', value: 'SmartWeaveAction' },
+        { name: 'Contract', value: contractTxId },
+        { name: 'Input', value: JSON.stringify({ function: 'add', value }) }
+      ],
+      block: { height, id: `block${height}`, timestamp: 1000 + height, previous: null },
+      fee: { winston: '0', ar: '0' },
+      quantity: { winston: '0', ar: '0' }
+    } as GQLNodeInterface
+  };
+}
+
+describe('Batch read state', () => {
+  let warp: Warp;
+  let chain: GQLEdgeInterface[];
+  let queries: ArweaveTransactionQuery[];
+
+  beforeAll(() => {
+    LoggerFactory.INST.logLevel('error');
+  });
+
+  beforeEach(async () => {
+    chain = [
+      interaction(contractTxIds[0], 1, 1),
+      interaction(contractTxIds[1], 1, 2),
+      interaction(contractTxIds[0], 2, 3),
+      interaction(contractTxIds[2], 3, 4)
+    ];
+    queries = [];
+    const gqlFetcher = {
+      transactions: async (query: ArweaveTransactionQuery) => {
+        queries.push(query);
+        const contracts = query.tags.find((tag) => tag.name == SMART_WEAVE_TAGS.CONTRACT_TX_ID).values;
+        return chain.filter(
+          ({ node }) =>
+            contracts.includes(node.tags[1].value) &&
+            (!query.blockFilter.min || node.block.height >= query.blockFilter.min) &&
+            (!query.blockFilter.max || node.block.height <= query.blockFilter.max)
+        );
+      }
+    } as unknown as ArweaveGQLTxsFetcher;
+    const arweave = Arweave.init({ host: 'localhost', port: 1984, protocol: 'http' });
+    const cacheOptions = { ...defaultCacheOptions, inMemory: true };
+    warp = WarpFactory.custom(arweave, cacheOptions, 'local')
+      .useArweaveGateway(cacheOptions)
+      .setInteractionsLoader(
+        new CacheableInteractionsLoader(new ArweaveGatewayInteractionsLoader(arweave, 'local', gqlFetcher))
+      )
+      .build();
+
+    for (const contractTxId of contractTxIds) {
+      await warp.definitionLoader.getCache().put(new CacheKey(contractTxId, 'cd'), {
+        txId: contractTxId,
+        srcTxId,
+        initState: { counter: 0 },
+        owner: 'owner',
+        minFee: '0',
+        contractType: 'js',
+        testnet: null
+      } as ContractCache<unknown>);
+    }
+    await warp.definitionLoader
+      .getSrcCache()
+      .put(new CacheKey(srcTxId, 'src'), { src, srcBinary: null, srcWasmLang: null } as SrcCache);
+  });
+
+  afterEach(async () => {
+    await warp.close();
+  });
+
+  it('should load the interactions of all the contracts with a single query', async () => {
+    const result = await warp.batchReadState(contractTxIds);
+
+    expect(queries.length).toEqual(1);
+    expect(queries[0].tags[1].values).toEqual(contractTxIds);
+    expect([...result.keys()]).toEqual(contractTxIds);
+    expect(contractTxIds.map((id) => result.get(id).cachedValue.state)).toEqual([
+      { counter: 4 },
+      { counter: 2 },
+      { counter: 4 }
+    ]);
+    expect(result.get(contractTxIds[0]).sortKey).toEqual(sortKey(2, 3));
+  });
+
+  it('should load the interactions from the latest cached states', async () => {
+    await warp.batchReadState(contractTxIds);
+    chain.push(interaction(contractTxIds[1], 4, 5), interaction(contractTxIds[2], 5, 6));
+
+    const result = await warp.batchReadState(contractTxIds);
+    expect(queries.length).toEqual(2);
+    expect(queries[1].blockFilter).toEqual({ min: 1, max: null });
+    expect(contractTxIds.map((id) => result.get(id).cachedValue.state)).toEqual([
+      { counter: 4 },
+      { counter: 7 },
+      { counter: 10 }
+    ]);
+  });
+
+  it('should read the states at the given block height', async () => {
+    const result = await warp.batchReadState([...contractTxIds, contractTxIds[0]], { sortKeyOrBlockHeight: 2 });
+
+    expect(queries.length).toEqual(1);
+    expect(queries[0].blockFilter).toEqual({ min: null, max: 2 });
+    expect(result.size).toEqual(3);
+    expect(contractTxIds.map((id) => result.get(id).cachedValue.state)).toEqual([
+      { counter: 4 },
+      { counter: 2 },
+      { counter: 0 }
+    ]);
+  });
+
+  it('should reload the interactions outside of the loaded range', async () => {
+    const loader = warp.interactionsLoader;
+    const options = new DefaultEvaluationOptions();
+    const [a] = contractTxIds;
+
+    expect((await loader.load(a, sortKey(1, 1), sortKey(2, 3), options)).map((i) => i.sortKey)).toEqual([
+      sortKey(2, 3)
+    ]);
+    expect(await loader.load(a, sortKey(2, 3), sortKey(2, 3), options)).toEqual([]);
+    expect(queries.length).toEqual(1);
+
+    // the interactions before the loaded range
+    expect((await loader.load(a, undefined, sortKey(2, 3), options)).map((i) => i.sortKey)).toEqual([
+      sortKey(1, 1),
+      sortKey(2, 3)
+    ]);
+    expect(queries.length).toEqual(2);
+
+    // the empty result up to the latest interaction does not complete the range
+    const [, , c] = contractTxIds;
+    chain = chain.filter(({ node }) => node.tags[1].value != c);
+    expect(await loader.load(c, undefined, undefined, options)).toEqual([]);
+    chain.push(interaction(c, 4, 5));
+    expect((await loader.load(c, undefined, undefined, options)).map((i) => i.sortKey)).toEqual([sortKey(4, 5)]);
+  });
+});
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import { MemoryLevel } from 'memory-level';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { CompressionType, decodeValue, encodeValue, ValueCodecName } from '../../cache/ValueCodec';
+import { defaultCacheOptions } from '../../core/WarpFactory';
+import { CacheKey } from '../../cache/SortKeyCache';
+
+const value = { ticker: 'CODEC', balances: { a: 100, b: 200 }, list: [1, 'two', null, { three: 3 }] };
+
+describe.each<[ValueCodecName, CompressionType]>([
+  ['json', 'none'],
+  ['json', 'gzip'],
+  ['msgpack', 'none'],
+  ['msgpack', 'brotli'],
+  ['cbor', 'none'],
+  ['cbor', 'gzip']
+])('LevelDb cache with %s codec and %s compression', (valueCodec, compression) => {
+  let sut: LevelDbCache<unknown>;
+
+  beforeEach(async () => {
+    sut = new LevelDbCache({ ...defaultCacheOptions, inMemory: true, valueCodec, compression });
+  });
+
+  it('should store and read values', async () => {
+    await sut.put(new CacheKey('a', '001'), value);
+    await sut.del(new CacheKey('a', '002'));
+
+    expect((await sut.get(new CacheKey('a', '001'))).cachedValue).toEqual(value);
+    expect(await sut.getLessOrEqual('a', '002')).toBeNull();
+    expect(await sut.kvMap('001')).toEqual(new Map([['a', value]]));
+  });
+
+  it('should read entries stored as plain json', async () => {
+    const legacy = sut.storage<MemoryLevel<string, unknown>>().sublevel<string, unknown>('a', { valueEncoding: 'json' });
+    await legacy.put('001', { value, tomb: false });
+
+    expect((await sut.getLast('a')).cachedValue).toEqual(value);
+  });
+
+  it('should rollback transactions', async () => {
+    await sut.put(new CacheKey('a', '001'), value);
+    await sut.begin();
+    await sut.put(new CacheKey('a', '002'), { changed: true });
+    await sut.rollback();
+
+    expect((await sut.getLast('a')).sortKey).toEqual('001');
+  });
+});
+
+describe('Value codecs', () => {
+  it('should preserve BigInt and Map values', () => {
+    const richValue = { big: BigInt(2) ** BigInt(80), map: new Map([['k', { nested: 1 }]]) };
+
+    for (const codec of ['msgpack', 'cbor'] as ValueCodecName[]) {
+      expect(decodeValue(encodeValue(richValue, codec, 'gzip'))).toEqual(richValue);
+    }
+  });
+
+  it('should store plain json for json codec without compression', () => {
+    expect(new TextDecoder().decode(encodeValue(value, 'json', 'none'))).toEqual(JSON.stringify(value));
+  });
+
+  it('should apply compression per sub-level', async () => {
+    const sut = new LevelDbCache({
+      ...defaultCacheOptions,
+      inMemory: true,
+      valueCodec: 'msgpack',
+      subLevelCompression: { b: 'gzip' }
+    });
+    const bigValue = { items: new Array(1000).fill('repeated') };
+    await sut.put(new CacheKey('a', '001'), bigValue);
+    await sut.put(new CacheKey('b', '001'), bigValue);
+
+    const raw = sut.storage<MemoryLevel<string, unknown>>();
+    const a = await raw.sublevel('a').get<string, Uint8Array>('001', { valueEncoding: 'view' });
+    const b = await raw.sublevel('b').get<string, Uint8Array>('001', { valueEncoding: 'view' });
+    expect(b.length).toBeLessThan(a.length);
+    expect((await sut.getLast('b')).cachedValue).toEqual(bigValue);
+  });
+
+  it('should read databases written with a different codec', async () => {
+    const dbLocation = './cache/warp/codec-test';
+    fs.rmSync(dbLocation, { recursive: true, force: true });
+
+    const jsonCache = new LevelDbCache({ ...defaultCacheOptions, dbLocation });
+    await jsonCache.put(new CacheKey('a', '001'), value);
+    await jsonCache.close();
+
+    const cborCache = new LevelDbCache({
+      ...defaultCacheOptions,
+      dbLocation,
+      valueCodec: 'cbor',
+      compression: 'brotli'
+    });
+    expect((await cborCache.getLast('a')).cachedValue).toEqual(value);
+    await cborCache.put(new CacheKey('a', '002'), { v: 2 });
+    await cborCache.close();
+
+    const reopened = new LevelDbCache({ ...defaultCacheOptions, dbLocation });
+    expect((await reopened.getLast('a')).cachedValue).toEqual({ v: 2 });
+    expect((await reopened.get(new CacheKey('a', '001'))).cachedValue).toEqual(value);
+    await reopened.close();
+    fs.rmSync(dbLocation, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,89 @@
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { DeltaCacheEntry, DeltaSortKeyCache } from '../../cache/impl/DeltaSortKeyCache';
+import { defaultCacheOptions } from '../../core/WarpFactory';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { PinnedSortKeysRetention } from '../../cache/RetentionPolicy';
+
+type State = { balances: Record<string, number>; ticker: string };
+
+const sortKey = (i: number) => `${i}`.padStart(3, '0');
+const state = (i: number): State => {
+  const balances = {};
+  for (let j = 0; j <= i; j++) {
+    balances[`address${j}`] = j * 10 + i;
+  }
+  return { balances, ticker: 'DELTA' };
+};
+
+describe('Delta sort key cache', () => {
+  let delegate: LevelDbCache<DeltaCacheEntry<State>>;
+  let sut: DeltaSortKeyCache<State>;
+
+  beforeEach(async () => {
+    delegate = new LevelDbCache<DeltaCacheEntry<State>>({ ...defaultCacheOptions, inMemory: true });
+    sut = new DeltaSortKeyCache(delegate, 5);
+    for (let i = 0; i < 12; i++) {
+      await sut.put(new CacheKey('a', sortKey(i * 2)), state(i));
+    }
+  });
+
+  it('should store checkpoints and deltas', async () => {
+    const checkpoints = [];
+    for (let i = 0; i < 12; i++) {
+      const entry = await delegate.get(new CacheKey('a', sortKey(i * 2)));
+      if (entry.cachedValue.distance == 0) {
+        checkpoints.push(i);
+      } else {
+        expect(entry.cachedValue.value).toBeUndefined();
+      }
+    }
+    expect(checkpoints).toEqual([0, 5, 10]);
+  });
+
+  it('should rebuild values', async () => {
+    for (let i = 0; i < 12; i++) {
+      expect((await sut.get(new CacheKey('a', sortKey(i * 2)))).cachedValue).toEqual(state(i));
+      expect(await sut.getLessOrEqual('a', sortKey(i * 2 + 1))).toEqual({
+        sortKey: sortKey(i * 2),
+        cachedValue: state(i)
+      });
+    }
+    expect(await sut.getLast('a')).toEqual({ sortKey: sortKey(22), cachedValue: state(11) });
+    expect(await sut.get(new CacheKey('a', sortKey(1)))).toBeNull();
+  });
+
+  it('should rebuild values without the checkpoints in memory', async () => {
+    const fresh = new DeltaSortKeyCache(delegate, 5);
+    expect((await fresh.getLessOrEqual('a', sortKey(17))).cachedValue).toEqual(state(8));
+  });
+
+  it('should store values in any order', async () => {
+    await sut.put(new CacheKey('a', sortKey(5)), state(100));
+    await sut.put(new CacheKey('a', sortKey(2)), state(101));
+
+    expect((await sut.get(new CacheKey('a', sortKey(5)))).cachedValue).toEqual(state(100));
+    expect((await sut.get(new CacheKey('a', sortKey(2)))).cachedValue).toEqual(state(101));
+    expect((await sut.get(new CacheKey('a', sortKey(6)))).cachedValue).toEqual(state(3));
+  });
+
+  it('should rebase the deltas on the overwritten checkpoint', async () => {
+    await sut.put(new CacheKey('a', sortKey(10)), state(100));
+
+    const fresh = new DeltaSortKeyCache(delegate, 5);
+    expect((await fresh.get(new CacheKey('a', sortKey(10)))).cachedValue).toEqual(state(100));
+    for (let i = 6; i < 10; i++) {
+      expect((await fresh.get(new CacheKey('a', sortKey(i * 2)))).cachedValue).toEqual(state(i));
+    }
+    expect((await delegate.get(new CacheKey('a', sortKey(18)))).cachedValue.base).toEqual(sortKey(10));
+  });
+
+  it('should keep values of the retained deltas on prune', async () => {
+    // entry 7 is a delta based on the checkpoint 5
+    const stats = await sut.prune(new PinnedSortKeysRetention([sortKey(14)]));
+
+    expect(stats.entriesAfter).toEqual(2);
+    expect(await delegate.getNumEntries()).toEqual(2);
+    expect((await sut.get(new CacheKey('a', sortKey(14)))).cachedValue).toEqual(state(7));
+    expect((await sut.getLast('a')).cachedValue).toEqual(state(11));
+  });
+});
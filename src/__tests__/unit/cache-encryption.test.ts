@@ -0,0 +1,115 @@
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { EncryptedSortKeyCache } from '../../cache/impl/EncryptedSortKeyCache';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+
+const KEY = 'qwbMYv6kbVfOj1r7qpDx9iGAkH_1hg0MyjnSVZJRbWw';
+
+describe.each([
+  ['values', false],
+  ['keys and values', true]
+])('Encrypted cache (%s)', (_name: string, encryptKeys: boolean) => {
+  let delegate: LevelDbCache<string>;
+  let sut: EncryptedSortKeyCache<unknown>;
+
+  beforeEach(async () => {
+    delegate = new LevelDbCache<string>({ ...defaultCacheOptions, inMemory: true });
+    sut = new EncryptedSortKeyCache(delegate, { key: KEY, encryptKeys });
+    await sut.put(new CacheKey('balances', '001'), { alice: 100 });
+    await sut.put(new CacheKey('balances', '003'), { alice: 50, bob: 50 });
+    await sut.put(new CacheKey('owner', '002'), 'alice');
+    await sut.put(new CacheKey('admin', '002'), 'carol');
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should store the values encrypted', async () => {
+    const dump = JSON.stringify(await delegate.dump());
+    expect(dump).not.toContain('alice');
+    expect(dump).toContain('003');
+    expect(dump.includes('balances')).toEqual(!encryptKeys);
+
+    expect(await sut.get(new CacheKey('balances', '001'))).toEqual({ sortKey: '001', cachedValue: { alice: 100 } });
+    expect(await sut.getLessOrEqual('balances', '002')).toEqual({ sortKey: '001', cachedValue: { alice: 100 } });
+    expect((await sut.getLast('balances')).cachedValue).toEqual({ alice: 50, bob: 50 });
+    expect(await sut.getLast('unknown')).toBeNull();
+  });
+
+  it('should return the keys in order', async () => {
+    expect(await sut.keys('003')).toEqual(['admin', 'balances', 'owner']);
+    expect(await sut.keys('003', { gte: 'b', reverse: true, limit: 1 })).toEqual(['owner']);
+    expect(await sut.kvMap('001')).toEqual(new Map([['balances', { alice: 100 }]]));
+
+    const keys = [];
+    for await (const key of sut.keysIterator('003', { prefix: 'ad' })) {
+      keys.push(key);
+    }
+    expect(keys).toEqual(['admin']);
+  });
+
+  it('should support the batches, history and invalidation', async () => {
+    await sut.batch([{ type: 'del', key: 'admin' }]);
+    await sut.del(new CacheKey('owner', '004'));
+
+    expect(await sut.keys('004')).toEqual(['balances']);
+    expect(await sut.history('owner')).toEqual([
+      { sortKey: '002', value: 'alice', deleted: false },
+      { sortKey: '004', value: null, deleted: true }
+    ]);
+    expect(await sut.invalidateFrom('balances', '002')).toEqual(1);
+    expect((await sut.entryKeys()).map((k) => `${k.key}:${k.sortKey}`)).toEqual(
+      encryptKeys ? expect.arrayContaining(['balances:001', 'owner:002']) : ['balances:001', 'owner:002', 'owner:004']
+    );
+  });
+
+  it('should not decrypt the values with a different key', async () => {
+    const other = new EncryptedSortKeyCache(delegate, { key: KEY.replace('q', 'w'), encryptKeys: false });
+    await expect(other.getLast(encryptKeys ? (await delegate.keys('003'))[0] : 'balances')).rejects.toThrow(
+      'Cannot decrypt cache entry'
+    );
+  });
+
+  it('should not decrypt the entries copied under another sortKey or key', async () => {
+    const stored = await delegate.keys('003');
+    // the only key with two versions
+    const balances = (await Promise.all(stored.map((key) => delegate.history(key)))).findIndex((h) => h.length == 2);
+    const oldBalances = await delegate.get(new CacheKey(stored[balances], '001'));
+
+    // the old balances presented as the newer ones
+    await delegate.put(new CacheKey(stored[balances], '004'), oldBalances.cachedValue);
+    await expect(sut.getLast('balances')).rejects.toThrow('Cannot decrypt cache entry balances|004');
+    await expect(sut.kvMap('004')).rejects.toThrow('Cannot decrypt cache entry balances|004');
+    expect((await sut.getLessOrEqual('balances', '003')).cachedValue).toEqual({ alice: 50, bob: 50 });
+
+    // the balances presented as the value of another key
+    await delegate.put(new CacheKey(stored[(balances + 1) % stored.length], '001'), oldBalances.cachedValue);
+    await expect(sut.kvMap('001')).rejects.toThrow('Cannot decrypt cache entry');
+  });
+});
+
+describe('Encrypted cache options', () => {
+  it('should reject too short keys', () => {
+    expect(() => new EncryptedSortKeyCache(null, { key: new Uint8Array(8) })).toThrow('at least 16 bytes');
+  });
+
+  it('should encrypt the state and kv caches of Warp', async () => {
+    const warp = WarpFactory.forLocal(1984, undefined, {
+      ...defaultCacheOptions,
+      inMemory: true,
+      encryption: { key: KEY, encryptKeys: true }
+    });
+    const stateCache = warp.stateEvaluator.getCache();
+    expect(stateCache).toBeInstanceOf(EncryptedSortKeyCache);
+    await stateCache.put(new CacheKey('contract', '001'), new EvalStateResult({ counter: 1 }, {}, {}));
+    expect((await stateCache.getLast('contract')).cachedValue.state).toEqual({ counter: 1 });
+
+    const kv = warp.kvStorageFactory('contract');
+    expect(kv).toBeInstanceOf(EncryptedSortKeyCache);
+    await kv.put(new CacheKey('counter', '001'), 1);
+    expect((await kv.getLast('counter')).cachedValue).toEqual(1);
+    await kv.close();
+  });
+});
@@ -0,0 +1,92 @@
+import 'fake-indexeddb/auto';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { SqliteCache } from '../../cache/impl/SqliteCache';
+import { IndexedDbCache } from '../../cache/impl/IndexedDbCache';
+import { CacheKey, keyHistory, SortKeyCache } from '../../cache/SortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+
+describe.each([
+  ['LevelDb', () => new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  ['Sqlite', () => new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  ['IndexedDb', () => new IndexedDbCache<unknown>({ ...defaultCacheOptions, dbLocation: `history-${Math.random()}` })]
+])('%s cache key history', (_name: string, createCache: () => SortKeyCache<unknown>) => {
+  let sut: SortKeyCache<unknown>;
+
+  beforeEach(async () => {
+    sut = createCache();
+    await sut.put(new CacheKey('balance', '001'), 100);
+    await sut.put(new CacheKey('balance', '002'), 50);
+    await sut.del(new CacheKey('balance', '003'));
+    await sut.put(new CacheKey('balance', '004'), 10);
+    await sut.put(new CacheKey('balance2', '002'), 1);
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should return all versions of the key', async () => {
+    expect(await sut.history('balance')).toEqual([
+      { sortKey: '001', value: 100, deleted: false },
+      { sortKey: '002', value: 50, deleted: false },
+      { sortKey: '003', value: null, deleted: true },
+      { sortKey: '004', value: 10, deleted: false }
+    ]);
+    expect(await sut.history('unknown')).toEqual([]);
+  });
+
+  it('should return versions within range', async () => {
+    expect((await sut.history('balance', { fromSortKey: '002', toSortKey: '003' })).map((v) => v.sortKey)).toEqual([
+      '002',
+      '003'
+    ]);
+    expect((await sut.history('balance', { limit: 2 })).map((v) => v.sortKey)).toEqual(['001', '002']);
+    expect((await sut.history('balance', { reverse: true, limit: 2 })).map((v) => v.sortKey)).toEqual(['004', '003']);
+  });
+});
+
+describe('Key history fallback', () => {
+  it('should return the latest version for the caches without history', async () => {
+    const db = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    await db.put(new CacheKey('balance', '001'), 100);
+    await db.put(new CacheKey('balance', '002'), 50);
+    const sut = {
+      getLast: (key) => db.getLast(key),
+      getLessOrEqual: (key, sortKey) => db.getLessOrEqual(key, sortKey)
+    } as SortKeyCache<unknown>;
+
+    expect(await keyHistory(sut, 'balance')).toEqual([{ sortKey: '002', value: 50, deleted: false }]);
+    expect(await keyHistory(sut, 'balance', { toSortKey: '001' })).toEqual([
+      { sortKey: '001', value: 100, deleted: false }
+    ]);
+    expect(await keyHistory(sut, 'balance', { fromSortKey: '003' })).toEqual([]);
+    expect(await keyHistory(sut, 'unknown')).toEqual([]);
+    await db.close();
+  });
+});
+
+describe('Contract storage history', () => {
+  it('should return versions up to the latest evaluated state', async () => {
+    const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+    const kvStorage = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    const warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      () => kvStorage
+    );
+    const contract = warp.contract(contractTxId);
+    expect(await contract.getStorageHistory('balance')).toEqual([]);
+
+    await kvStorage.put(new CacheKey('balance', '001'), 100);
+    await kvStorage.del(new CacheKey('balance', '002'));
+    await kvStorage.put(new CacheKey('balance', '003'), 10);
+    await warp.stateEvaluator.getCache().put(new CacheKey(contractTxId, '002'), new EvalStateResult({}, {}, {}));
+
+    expect(await contract.getStorageHistory('balance')).toEqual([
+      { sortKey: '001', value: 100, deleted: false },
+      { sortKey: '002', value: null, deleted: true }
+    ]);
+    expect(await contract.getStorageHistory('balance', { toSortKey: '001' })).toEqual([
+      { sortKey: '001', value: 100, deleted: false }
+    ]);
+  });
+});
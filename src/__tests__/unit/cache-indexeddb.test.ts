@@ -0,0 +1,112 @@
+import 'fake-indexeddb/auto';
+import { IndexedDbCache } from '../../cache/impl/IndexedDbCache';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { createSortKeyCache } from '../../cache/SortKeyCacheFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+
+describe('IndexedDB cache', () => {
+  let sut: IndexedDbCache<unknown>;
+  let dbCounter = 0;
+
+  beforeEach(async () => {
+    sut = new IndexedDbCache<unknown>({ ...defaultCacheOptions, dbLocation: `warp-cache-${dbCounter++}` });
+    await sut.put(new CacheKey('a', '001'), { v: 'a1' });
+    await sut.put(new CacheKey('a', '003'), { v: 'a3' });
+    await sut.put(new CacheKey('b', '002'), { v: 'b2' });
+    await sut.put(new CacheKey('c', '002'), { v: 'c2' });
+    await sut.del(new CacheKey('c', '004'));
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should return values for sort keys', async () => {
+    expect((await sut.get(new CacheKey('a', '001'))).cachedValue).toEqual({ v: 'a1' });
+    expect(await sut.get(new CacheKey('a', '002'))).toBeNull();
+    expect(await sut.getLessOrEqual('a', '002')).toEqual({ sortKey: '001', cachedValue: { v: 'a1' } });
+    expect(await sut.getLessOrEqual('a', '000')).toBeNull();
+    expect(await sut.getLast('a')).toEqual({ sortKey: '003', cachedValue: { v: 'a3' } });
+    expect(await sut.getLastSortKey()).toEqual('004');
+  });
+
+  it('should respect tombstones', async () => {
+    expect((await sut.getLessOrEqual('c', '003')).cachedValue).toEqual({ v: 'c2' });
+    expect(await sut.getLessOrEqual('c', '004')).toBeNull();
+    expect(await sut.getLast('c')).toBeNull();
+  });
+
+  it('should return kv map for range options', async () => {
+    expect(await sut.keys('002')).toEqual(['a', 'b', 'c']);
+    expect(await sut.keys('004')).toEqual(['a', 'b']);
+    expect(await sut.keys('004', { reverse: true, limit: 1 })).toEqual(['b']);
+    expect(await sut.keys('004', { gte: 'b' })).toEqual(['b']);
+    expect(await sut.kvMap('003', { lt: 'b' })).toEqual(new Map([['a', { v: 'a3' }]]));
+  });
+
+  it('should rollback and commit transactions', async () => {
+    await sut.begin();
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+    await sut.rollback();
+    expect((await sut.getLast('a')).sortKey).toEqual('003');
+
+    await sut.begin();
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+    await sut.commit();
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+  });
+
+  it('should return prune stats', async () => {
+    const stats = await sut.prune(1);
+
+    expect(stats.entriesBefore).toEqual(5);
+    expect(stats.entriesAfter).toEqual(3);
+    expect(stats.sizeAfter).toBeLessThan(stats.sizeBefore);
+    expect(await sut.get(new CacheKey('a', '001'))).toBeNull();
+  });
+
+  it('should keep values after reopening the database', async () => {
+    const dbLocation = 'warp-cache-reopen';
+
+    const cache = new IndexedDbCache<unknown>({ ...defaultCacheOptions, dbLocation });
+    await cache.put(new CacheKey('a', '001'), { v: 'a1' });
+    await cache.close();
+
+    const reopened = new IndexedDbCache<unknown>({ ...defaultCacheOptions, dbLocation });
+    expect((await reopened.getLast('a')).cachedValue).toEqual({ v: 'a1' });
+    await reopened.close();
+  });
+
+  it('should be created only in browser env', async () => {
+    expect(createSortKeyCache({ ...defaultCacheOptions, useIndexedDbInBrowser: true })).toBeInstanceOf(LevelDbCache);
+  });
+
+  describe('in browser env', () => {
+    beforeAll(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      (global as any).window = global;
+    });
+
+    afterAll(() => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      delete (global as any).window;
+    });
+
+    it('should be created by default', async () => {
+      expect(createSortKeyCache(defaultCacheOptions)).toBeInstanceOf(IndexedDbCache);
+      expect(createSortKeyCache({ ...defaultCacheOptions, useIndexedDbInBrowser: false })).toBeInstanceOf(LevelDbCache);
+      expect(createSortKeyCache({ ...defaultCacheOptions, inMemory: true })).toBeInstanceOf(LevelDbCache);
+    });
+
+    it('should be used by the Warp caches and KV storages', async () => {
+      const warp = WarpFactory.forMainnet({ ...defaultCacheOptions, dbLocation: 'warp-browser' });
+
+      expect(warp.stateEvaluator.getCache()).toBeInstanceOf(IndexedDbCache);
+      expect(warp.definitionLoader.getCache()).toBeInstanceOf(IndexedDbCache);
+      expect(warp.kvStorageFactory('contract')).toBeInstanceOf(IndexedDbCache);
+      await warp.close();
+    });
+  });
+});
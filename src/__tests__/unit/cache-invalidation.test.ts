@@ -0,0 +1,150 @@
+import 'fake-indexeddb/auto';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { SqliteCache } from '../../cache/impl/SqliteCache';
+import { IndexedDbCache } from '../../cache/impl/IndexedDbCache';
+import { TieredSortKeyCache } from '../../cache/impl/TieredSortKeyCache';
+import { DeltaCacheEntry, DeltaSortKeyCache } from '../../cache/impl/DeltaSortKeyCache';
+import { BasicSortKeyCache } from '../../cache/BasicSortKeyCache';
+import { CacheKey, SortKeyCache } from '../../cache/SortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+import { CacheableInteractionsLoader } from '../../core/modules/impl/CacheableInteractionsLoader';
+import { InteractionsLoader } from '../../core/modules/InteractionsLoader';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+
+describe.each([
+  ['LevelDb', () => new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  ['Sqlite', () => new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  [
+    'IndexedDb',
+    () => new IndexedDbCache<unknown>({ ...defaultCacheOptions, dbLocation: `invalidation-${Math.random()}` })
+  ],
+  ['Tiered', () => new TieredSortKeyCache(new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true }))],
+  [
+    'Delta',
+    () =>
+      new DeltaSortKeyCache(new LevelDbCache<DeltaCacheEntry<unknown>>({ ...defaultCacheOptions, inMemory: true }), 2)
+  ]
+])('%s cache invalidation', (_name: string, createCache: () => BasicSortKeyCache<unknown>) => {
+  let sut: BasicSortKeyCache<unknown>;
+
+  beforeEach(async () => {
+    sut = createCache();
+    for (const sortKey of ['001', '002', '003', '004']) {
+      await sut.put(new CacheKey('a', sortKey), { v: `a-${sortKey}` });
+      await sut.put(new CacheKey('b', sortKey), { v: `b-${sortKey}` });
+    }
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should remove the entries from the given sortKey', async () => {
+    // filling the in-memory tiers
+    await sut.getLast('a');
+
+    expect(await sut.invalidateFrom('a', '003')).toEqual(2);
+
+    expect(await sut.getLast('a')).toEqual({ sortKey: '002', cachedValue: { v: 'a-002' } });
+    expect(await sut.get(new CacheKey('a', '003'))).toBeNull();
+    expect(await sut.getLessOrEqual('a', '004')).toEqual({ sortKey: '002', cachedValue: { v: 'a-002' } });
+    expect((await sut.getLast('b')).sortKey).toEqual('004');
+    expect(await sut.invalidateFrom('a', '005')).toEqual(0);
+  });
+});
+
+describe.each([
+  ['LevelDb', () => new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  ['Sqlite', () => new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  [
+    'IndexedDb',
+    () => new IndexedDbCache<unknown>({ ...defaultCacheOptions, dbLocation: `invalidation-${Math.random()}` })
+  ]
+])('%s kv cache invalidation', (_name: string, createCache: () => SortKeyCache<unknown>) => {
+  it('should remove the entries of all keys from the given sortKey', async () => {
+    const sut = createCache();
+    await sut.put(new CacheKey('a', '001'), 1);
+    await sut.put(new CacheKey('b', '002'), 2);
+    await sut.del(new CacheKey('a', '003'));
+
+    expect(await sut.invalidateAllFrom('002')).toEqual(2);
+
+    expect(await sut.kvMap('003')).toEqual(new Map([['a', 1]]));
+    await sut.close();
+  });
+});
+
+describe('Contract cache invalidation', () => {
+  it('should remove the states and kv entries of the contract', async () => {
+    const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+    const kvStorage = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    const warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      () => kvStorage
+    );
+    const stateCache = warp.stateEvaluator.getCache();
+    for (const sortKey of ['001', '002', '003']) {
+      await stateCache.put(new CacheKey(contractTxId, sortKey), new EvalStateResult({ sortKey }, {}, {}));
+      await stateCache.put(new CacheKey('other', sortKey), new EvalStateResult({ sortKey }, {}, {}));
+      await kvStorage.put(new CacheKey('last', sortKey), sortKey);
+    }
+
+    await warp.contract(contractTxId).setEvaluationOptions({ useKVStorage: true }).invalidateCacheFrom('002');
+
+    expect((await stateCache.getLast(contractTxId)).sortKey).toEqual('001');
+    expect((await stateCache.getLast('other')).sortKey).toEqual('003');
+    await kvStorage.open();
+    expect((await kvStorage.getLast('last')).sortKey).toEqual('001');
+  });
+
+  it('should fall back for the caches and loaders without the invalidation', async () => {
+    const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+    const kvStorage = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    const warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      () => kvStorage
+    );
+    const stateCache = warp.stateEvaluator.getCache();
+    for (const sortKey of ['001', '002']) {
+      await stateCache.put(new CacheKey(contractTxId, sortKey), new EvalStateResult({ sortKey }, {}, {}));
+    }
+    stateCache.invalidateFrom = undefined;
+    kvStorage.invalidateAllFrom = undefined;
+    warp.interactionsLoader.clearCacheFrom = undefined;
+    const clearCache = jest.spyOn(warp.interactionsLoader, 'clearCache');
+
+    await expect(
+      warp.contract(contractTxId).setEvaluationOptions({ useKVStorage: true }).invalidateCacheFrom('002')
+    ).rejects.toThrow('does not support the invalidation');
+    expect((await stateCache.getLast(contractTxId)).sortKey).toEqual('002');
+
+    // the whole state cache of the contract is removed - i.e. the state is re-evaluated from scratch
+    await warp.contract(contractTxId).invalidateCacheFrom('002');
+    expect(await stateCache.getLast(contractTxId)).toBeNull();
+    expect(clearCache).toHaveBeenCalled();
+  });
+});
+
+describe('Cacheable interactions loader invalidation', () => {
+  const interaction = (i: number) => ({ id: `tx${i}`, sortKey: `00${i}` } as GQLNodeInterface);
+
+  it('should reload the interactions from the given sortKey', async () => {
+    const delegate = {
+      load: jest.fn(async (contractTxId: string, fromSortKey?: string, toSortKey?: string) =>
+        [1, 2, 3, 4]
+          .map(interaction)
+          .filter((i) => (!fromSortKey || i.sortKey > fromSortKey) && (!toSortKey || i.sortKey <= toSortKey))
+      )
+    } as unknown as InteractionsLoader;
+    const sut = new CacheableInteractionsLoader(delegate);
+
+    expect(await sut.load('contract', undefined, '004')).toHaveLength(4);
+    sut.clearCacheFrom('contract', '003');
+
+    expect((await sut.load('contract', undefined, '004')).map((i) => i.id)).toEqual(['tx1', 'tx2', 'tx3', 'tx4']);
+    expect(delegate.load).toHaveBeenLastCalledWith('contract', '002', '004', undefined);
+
+    sut.clearCacheFrom('contract', '001');
+    await sut.load('contract', undefined, '004');
+    expect(delegate.load).toHaveBeenLastCalledWith('contract', undefined, '004', undefined);
+  });
+});
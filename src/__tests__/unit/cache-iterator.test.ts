@@ -0,0 +1,124 @@
+import Arweave from 'arweave';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { SqliteCache } from '../../cache/impl/SqliteCache';
+import { CacheKey, SortKeyCache } from '../../cache/SortKeyCache';
+import { entriesIterator, keysIterator, SortKeyCacheIterator } from '../../cache/SortKeyCacheIterator';
+import { SmartWeaveGlobal } from '../../legacy/smartweave-global';
+import { DefaultEvaluationOptions } from '../../core/modules/StateEvaluator';
+import { ContractInteractionState } from '../../contract/states/ContractInteractionState';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+
+async function all<T>(iterator: SortKeyCacheIterator<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of iterator) {
+    result.push(item);
+  }
+  return result;
+}
+
+describe.each([
+  ['LevelDb', () => new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  ['Sqlite', () => new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true })]
+])('%s cache iterators', (_name: string, createCache: () => SortKeyCache<unknown>) => {
+  let sut: SortKeyCache<unknown>;
+
+  beforeEach(async () => {
+    sut = createCache();
+    for (const key of ['a', 'b.1', 'b.2', 'b.3', 'c']) {
+      await sut.put(new CacheKey(key, '001'), `${key}-1`);
+      await sut.put(new CacheKey(key, '002'), `${key}-2`);
+    }
+    await sut.del(new CacheKey('b.2', '003'));
+    await sut.put(new CacheKey('d', '003'), 'd-3');
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should return the same keys and values as keys and kvMap', async () => {
+    for (const sortKey of ['001', '002', '003']) {
+      expect(await all(sut.keysIterator(sortKey))).toEqual(await sut.keys(sortKey));
+      expect(new Map(await all(sut.entriesIterator(sortKey)))).toEqual(await sut.kvMap(sortKey));
+    }
+    expect(await all(sut.entriesIterator('002', { gte: 'b', lt: 'c' }))).toEqual([
+      ['b.1', 'b.1-2'],
+      ['b.2', 'b.2-2'],
+      ['b.3', 'b.3-2']
+    ]);
+  });
+
+  it('should support prefix, reverse and limit', async () => {
+    expect(await all(sut.keysIterator('003', { prefix: 'b.' }))).toEqual(['b.1', 'b.3']);
+    expect(await all(sut.keysIterator('003', { reverse: true }))).toEqual(['d', 'c', 'b.3', 'b.1', 'a']);
+    expect(await all(sut.keysIterator('003', { reverse: true, prefix: 'b', limit: 1 }))).toEqual(['b.3']);
+    expect(await all(sut.keysIterator('003', { gte: 'b.2', limit: 2 }))).toEqual(['b.3', 'c']);
+  });
+
+  it('should resume iteration from cursor', async () => {
+    for (const reverse of [false, true]) {
+      const keys: string[] = [];
+      let cursor: string = undefined;
+      do {
+        const iterator = sut.keysIterator('003', { reverse, limit: 2, cursor });
+        keys.push(...(await all(iterator)));
+        cursor = iterator.cursor;
+      } while (cursor && keys.length < 10);
+
+      expect(keys).toEqual(await sut.keys('003', { reverse }));
+    }
+  });
+
+  it('should stop reading when iteration is interrupted', async () => {
+    const iterator = sut.entriesIterator('002');
+    for await (const [key] of iterator) {
+      if (key == 'b.1') {
+        break;
+      }
+    }
+    expect(iterator.cursor).toEqual('b.1');
+    expect((await iterator.next()).done).toBe(true);
+  });
+});
+
+describe('Cache iterators fallback', () => {
+  it('should stream the kvMap of the caches without iterators', async () => {
+    const db = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    for (const key of ['a', 'b.1', 'b.2', 'c']) {
+      await db.put(new CacheKey(key, '001'), `${key}-1`);
+    }
+    const sut = { kvMap: (sortKey, options) => db.kvMap(sortKey, options) } as SortKeyCache<unknown>;
+
+    const iterator = keysIterator(sut, '001', { prefix: 'b.', limit: 1 });
+    expect(await all(iterator)).toEqual(['b.1']);
+    expect(await all(entriesIterator(sut, '001', { prefix: 'b.', cursor: iterator.cursor }))).toEqual([
+      ['b.2', 'b.2-1']
+    ]);
+    await db.close();
+  });
+});
+
+describe('SmartWeave KV iterators', () => {
+  it('should iterate over the keys available at the current sortKey', async () => {
+    const db = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    const sut = new SmartWeaveGlobal(
+      Arweave.init({}),
+      { id: 'KV_ITERATOR_TEST', owner: '' },
+      new DefaultEvaluationOptions(),
+      new ContractInteractionState(WarpFactory.forTestnet()),
+      db
+    );
+    await db.put(new CacheKey('balances.a', '001'), 1);
+    await db.put(new CacheKey('balances.b', '002'), 2);
+    await db.put(new CacheKey('owner', '001'), 'a');
+
+    sut._activeTx = { sortKey: '001' } as GQLNodeInterface;
+    expect(await all(sut.kv.entriesIterator({ prefix: 'balances.' }))).toEqual([['balances.a', 1]]);
+
+    sut._activeTx = { sortKey: '002' } as GQLNodeInterface;
+    const iterator = sut.kv.keysIterator({ prefix: 'balances.', limit: 1 });
+    expect(await all(iterator)).toEqual(['balances.a']);
+    expect(await all(sut.kv.keysIterator({ prefix: 'balances.', cursor: iterator.cursor }))).toEqual(['balances.b']);
+  });
+});
@@ -1,14 +1,29 @@
 import { LevelDbCache } from '../../cache/impl/LevelDbCache';
 import { defaultCacheOptions } from '../../core/WarpFactory';
 import { CacheKey } from '../../cache/SortKeyCache';
+import { SqliteCache } from '../../cache/impl/SqliteCache';
+import {
+  BlockHeightCheckpointRetention,
+  CompositeRetention,
+  LatestEntriesRetention,
+  NewerThanBlockHeightRetention,
+  PinnedSortKeysRetention,
+  SortKeyCheckpointRetention
+} from '../../cache/RetentionPolicy';
 
 const getContractId = (i: number) => `contract${i}`.padStart(43, '0');
 const getSortKey = (j: number) =>
   `${j.toString().padStart(12, '0')},1643210931796,81e1bea09d3262ee36ce8cfdbbb2ce3feb18a717c3020c47d206cb8ecb43b767`;
 
-describe('LevelDB cache prune', () => {
-  const cache = async function (numContracts: number, numRepeatingEntries: number): Promise<LevelDbCache<any>> {
-    const sut = new LevelDbCache<any>({ ...defaultCacheOptions, inMemory: true });
+describe.each([
+  ['LevelDB', LevelDbCache],
+  ['Sqlite', SqliteCache]
+])('%s cache prune', (_name, cacheType) => {
+  const cache = async function (
+    numContracts: number,
+    numRepeatingEntries: number
+  ): Promise<LevelDbCache<any> | SqliteCache<any>> {
+    const sut = new cacheType<any>({ ...defaultCacheOptions, inMemory: true });
 
     for (let i = 0; i < numContracts; i++) {
       for (let j = 0; j < numRepeatingEntries; j++) {
@@ -86,6 +101,68 @@ describe('LevelDB cache prune', () => {
     expect(await sut.getNumEntries()).toBe(contracts * toLeave);
   });
 
+  it('should return prune stats', async () => {
+    const contracts = 3;
+    const entriesPerContract = 5;
+    const sut = await cache(contracts, entriesPerContract);
+
+    const stats = await sut.prune(2);
+    expect(stats.entriesBefore).toBe(contracts * entriesPerContract);
+    expect(stats.entriesAfter).toBe(contracts * 2);
+    expect(stats.sizeAfter).toBeLessThan(stats.sizeBefore);
+    expect(await sut.getNumEntries()).toBe(contracts * 2);
+  });
+
+  it('should keep checkpoints every k sort keys', async () => {
+    const sut = await cache(1, 10);
+    await sut.prune(new SortKeyCheckpointRetention(4));
+
+    const left = [0, 4, 8, 9];
+    for (let j = 0; j < 10; j++) {
+      expect(!!(await sut.get(new CacheKey(getContractId(0), getSortKey(j))))).toBe(left.includes(j));
+    }
+  });
+
+  it('should keep checkpoints every k block heights', async () => {
+    const sut = await cache(1, 10);
+    // sort keys in the test cache have block heights 0..9
+    await sut.prune(new BlockHeightCheckpointRetention(3));
+    const left = [0, 3, 6, 9];
+    for (let j = 0; j < 10; j++) {
+      expect(!!(await sut.get(new CacheKey(getContractId(0), getSortKey(j))))).toBe(left.includes(j));
+    }
+
+    // the block height checkpoints are not thinned out by the subsequent prunes
+    await sut.prune(new BlockHeightCheckpointRetention(3));
+    expect(await sut.getNumEntries()).toBe(left.length);
+  });
+
+  it('should keep newer and pinned entries', async () => {
+    const sut = await cache(2, 10);
+    await sut.prune(
+      new CompositeRetention(
+        new NewerThanBlockHeightRetention(6),
+        new PinnedSortKeysRetention([getSortKey(1)]),
+        new LatestEntriesRetention(1)
+      )
+    );
+
+    const left = [1, 7, 8, 9];
+    for (let i = 0; i < 2; i++) {
+      for (let j = 0; j < 10; j++) {
+        expect(!!(await sut.get(new CacheKey(getContractId(i), getSortKey(j))))).toBe(left.includes(j));
+      }
+    }
+  });
+
+  it('should always keep the latest entry', async () => {
+    const sut = await cache(2, 5);
+    await sut.prune(new NewerThanBlockHeightRetention(100));
+
+    expect(await sut.getNumEntries()).toBe(2);
+    expect((await sut.getLast(getContractId(0))).sortKey).toEqual(getSortKey(4));
+  });
+
   it('deletes contracts from cache', async () => {
     const contracts = 7;
     const entriesPerContract = 12;
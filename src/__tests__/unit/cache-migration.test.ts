@@ -0,0 +1,155 @@
+import fs from 'fs';
+import { Level } from 'level';
+import { MemoryLevel } from 'memory-level';
+import { LevelDbCache, SCHEMA_VERSION_FILE } from '../../cache/impl/LevelDbCache';
+import { SqliteCache } from '../../cache/impl/SqliteCache';
+import { CacheMigration, CACHE_SCHEMA_VERSION, cacheMigrations } from '../../cache/migration/CacheMigration';
+import { CacheMigrationRunner } from '../../cache/migration/CacheMigrationRunner';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { TieredSortKeyCache } from '../../cache/impl/TieredSortKeyCache';
+import { DeltaCacheEntry, DeltaSortKeyCache } from '../../cache/impl/DeltaSortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+import { CacheKey } from '../../cache/SortKeyCache';
+
+async function legacyCache(autoMigrate?: boolean): Promise<LevelDbCache<unknown>> {
+  const cache = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true, autoMigrate });
+  // entries written directly - as by the SDK versions without the schema versioning
+  const db = cache.storage<MemoryLevel<string, unknown>>();
+  await db.sublevel<string, unknown>('a', { valueEncoding: 'json' }).put('001', { value: { v: 1 }, tomb: false });
+  return cache;
+}
+
+describe('Cache schema versioning', () => {
+  it('should store the schema version in new caches', async () => {
+    const sut = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    await sut.put(new CacheKey('a', '001'), { v: 1 });
+
+    expect(await sut.getSchemaVersion()).toEqual(CACHE_SCHEMA_VERSION);
+    expect(await sut.getNumEntries()).toEqual(1);
+    expect(await sut.getLastSortKey()).toEqual('a');
+    expect(await sut.keys('001')).toEqual(['a']);
+  });
+
+  it('should keep the schema version of the on-disk caches out of the db keyspace', async () => {
+    const dbLocation = './cache/warp/schema-version-test';
+    fs.rmSync(dbLocation, { recursive: true, force: true });
+    const sut = new LevelDbCache<unknown>({ ...defaultCacheOptions, dbLocation });
+    await sut.put(new CacheKey('a', '001'), { v: 1 });
+    await sut.close();
+
+    // all the root keys are the joined sub-level keys - as expected by the previous SDK versions
+    const db = new Level<string, unknown>(dbLocation);
+    expect(await db.keys().all()).toEqual(['!a!001']);
+    await db.close();
+    expect(fs.readFileSync(`${dbLocation}/${SCHEMA_VERSION_FILE}`, 'utf8')).toEqual(`${CACHE_SCHEMA_VERSION}`);
+
+    const reopened = new LevelDbCache<unknown>({ ...defaultCacheOptions, dbLocation, autoMigrate: false });
+    expect((await reopened.getLast('a')).cachedValue).toEqual({ v: 1 });
+    await reopened.close();
+    fs.rmSync(dbLocation, { recursive: true, force: true });
+  });
+
+  it('should migrate legacy caches automatically', async () => {
+    const sut = await legacyCache();
+    expect(await sut.getSchemaVersion()).toEqual(0);
+
+    expect((await sut.getLast('a')).cachedValue).toEqual({ v: 1 });
+    expect(await sut.getSchemaVersion()).toEqual(CACHE_SCHEMA_VERSION);
+  });
+
+  it('should refuse to open legacy caches if auto migration is disabled', async () => {
+    const sut = await legacyCache(false);
+
+    await expect(sut.getLast('a')).rejects.toThrow('requires migration to version 1');
+  });
+
+  it('should refuse to open caches created by newer versions', async () => {
+    const sut = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    await sut.setSchemaVersion(CACHE_SCHEMA_VERSION + 1);
+
+    await expect(sut.getLast('a')).rejects.toThrow('created by a newer SDK version');
+  });
+
+  it('should refuse to open sqlite caches with different schema version', async () => {
+    const sut = new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    expect(await sut.getSchemaVersion()).toEqual(CACHE_SCHEMA_VERSION);
+
+    await sut.setSchemaVersion(CACHE_SCHEMA_VERSION + 1);
+    await expect(sut.getLast('a')).rejects.toThrow('created by a newer SDK version');
+    await sut.close();
+  });
+
+  it('should migrate sqlite caches automatically', async () => {
+    const sut = new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    await sut.setSchemaVersion(0);
+
+    expect(await sut.getLast('a')).toBeNull();
+    expect(await sut.getSchemaVersion()).toEqual(CACHE_SCHEMA_VERSION);
+
+    const notMigrated = new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true, autoMigrate: false });
+    await notMigrated.setSchemaVersion(0);
+    await expect(notMigrated.getLast('a')).rejects.toThrow('requires migration to version 1');
+    await sut.close();
+    await notMigrated.close();
+  });
+
+  it('should return the unwrapped Warp caches', async () => {
+    const stateCache = new LevelDbCache<DeltaCacheEntry<EvalStateResult<unknown>>>({
+      ...defaultCacheOptions,
+      inMemory: true
+    });
+    const warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useStateCache(
+      new TieredSortKeyCache(new DeltaSortKeyCache(stateCache))
+    );
+
+    const caches = CacheMigrationRunner.warpCaches(warp);
+    expect(caches.state).toBe(stateCache);
+    expect(caches.contracts).toBeInstanceOf(LevelDbCache);
+    await warp.close();
+  });
+
+  it('should report and run the migrations', async () => {
+    const upperCaseValues: CacheMigration = {
+      version: CACHE_SCHEMA_VERSION + 1,
+      description: 'upper case values',
+      migrate: async (cache, dryRun) => {
+        const sublevel = cache.storage<MemoryLevel<string, unknown>>().sublevel<string, { value: { v: string } }>('a', {
+          valueEncoding: 'json'
+        });
+        let changed = 0;
+        for (const [sortKey, wrapper] of await sublevel.iterator().all()) {
+          if (!dryRun) {
+            await sublevel.put(sortKey, { ...wrapper, value: { v: wrapper.value.v.toUpperCase() } });
+          }
+          changed++;
+        }
+        return changed;
+      }
+    };
+    const runner = new CacheMigrationRunner([...cacheMigrations, upperCaseValues], CACHE_SCHEMA_VERSION + 1);
+
+    const sut = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    await sut.put(new CacheKey('a', '001'), { v: 'a' });
+    await sut.put(new CacheKey('a', '002'), { v: 'b' });
+
+    const dryRunReport = await runner.run({ state: sut }, true);
+    expect(dryRunReport).toEqual([
+      {
+        cache: 'state',
+        fromVersion: CACHE_SCHEMA_VERSION,
+        toVersion: CACHE_SCHEMA_VERSION + 1,
+        status: 'pending',
+        steps: [{ version: CACHE_SCHEMA_VERSION + 1, description: 'upper case values', entriesChanged: 2 }]
+      }
+    ]);
+    expect(await sut.getSchemaVersion()).toEqual(CACHE_SCHEMA_VERSION);
+    expect((await sut.getLast('a')).cachedValue).toEqual({ v: 'b' });
+
+    const report = await runner.migrate('state', sut);
+    expect(report.status).toEqual('migrated');
+    expect(await sut.getSchemaVersion()).toEqual(CACHE_SCHEMA_VERSION + 1);
+    expect(await sut.get(new CacheKey('a', '002'))).toMatchObject({ cachedValue: { v: 'B' } });
+
+    expect((await runner.migrate('state', sut)).status).toEqual('up-to-date');
+  });
+});
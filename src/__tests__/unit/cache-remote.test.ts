@@ -0,0 +1,192 @@
+import { defaultCacheOptions } from '../../core/WarpFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { RemoteSortKeyCache } from '../../cache/remote/RemoteSortKeyCache';
+import { RemoteSortKeyCacheServer } from '../../cache/remote/RemoteSortKeyCacheServer';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { Savepoint } from '../../cache/BasicSortKeyCache';
+import { NetworkCommunicationError } from '../../utils/utils';
+import {
+  CompositeRetention,
+  LatestEntriesRetention,
+  PinnedSortKeysRetention,
+  RetentionPolicy
+} from '../../cache/RetentionPolicy';
+
+describe('Remote sort key cache', () => {
+  let local: LevelDbCache<unknown>;
+  let server: RemoteSortKeyCacheServer<unknown>;
+  let url: string;
+  let sut: RemoteSortKeyCache<unknown>;
+
+  beforeEach(async () => {
+    local = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    server = new RemoteSortKeyCacheServer(local, { transactionTimeoutMs: 500 });
+    url = await server.listen();
+    sut = new RemoteSortKeyCache(url);
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await local.close();
+  });
+
+  it('should read and write the values', async () => {
+    await sut.put(new CacheKey('a', '001'), { v: 1 });
+    await sut.put(new CacheKey('a', '003'), { v: 3 });
+    await sut.batch([
+      { type: 'put', key: new CacheKey('b', '002'), value: 2 },
+      { type: 'put', key: new CacheKey('c', '002'), value: 'c' },
+      { type: 'del', key: 'c' }
+    ]);
+    await sut.del(new CacheKey('a', '004'));
+
+    expect(await sut.get(new CacheKey('a', '001'))).toEqual({ sortKey: '001', cachedValue: { v: 1 } });
+    expect(await sut.get(new CacheKey('a', '002'))).toBeNull();
+    expect(await sut.getLessOrEqual('a', '002')).toEqual({ sortKey: '001', cachedValue: { v: 1 } });
+    expect((await sut.getLast('b')).cachedValue).toEqual(2);
+    expect(await sut.keys('003')).toEqual(['a', 'b']);
+    expect(await sut.keys('004')).toEqual(['b']);
+    expect(await sut.kvMap('003', { gte: 'b' })).toEqual(new Map([['b', 2]]));
+    expect((await sut.history('a')).map((v) => v.sortKey)).toEqual(['001', '003', '004']);
+
+    const entries = [];
+    for await (const entry of sut.entriesIterator('003')) {
+      entries.push(entry);
+    }
+    expect(entries).toEqual([
+      ['a', { v: 3 }],
+      ['b', 2]
+    ]);
+    // the values are stored in the wrapped cache
+    expect((await local.getLast('b')).cachedValue).toEqual(2);
+  });
+
+  it('should commit and rollback the transactions', async () => {
+    await sut.begin();
+    await sut.put(new CacheKey('a', '001'), 1);
+    await sut.commit();
+
+    const transaction = (await sut.begin()) as Savepoint;
+    await sut.put(new CacheKey('a', '002'), 2);
+    const savepoint = (await sut.begin()) as Savepoint;
+    expect(savepoint.depth).toEqual(transaction.depth + 1);
+    await sut.put(new CacheKey('a', '003'), 3);
+    await sut.rollbackTo(savepoint);
+    expect((await sut.getLast('a')).cachedValue).toEqual(2);
+
+    await sut.rollback();
+    expect((await sut.getLast('a')).cachedValue).toEqual(1);
+  });
+
+  it('should queue the requests of the other clients until the transaction finishes', async () => {
+    const other = new RemoteSortKeyCache(url);
+    await sut.begin();
+    await sut.put(new CacheKey('a', '001'), 1);
+
+    // the read does not see the uncommitted write
+    const otherRead = other.getLast('a');
+    const otherWrite = other.put(new CacheKey('a', '002'), 2);
+    // the transaction reads its own writes
+    expect((await sut.getLast('a')).cachedValue).toEqual(1);
+    await sut.rollback();
+
+    expect(await otherRead).toBeNull();
+    await otherWrite;
+    expect(await sut.get(new CacheKey('a', '001'))).toBeNull();
+    expect((await sut.getLast('a')).cachedValue).toEqual(2);
+  });
+
+  it('should rollback the expired transaction', async () => {
+    await sut.begin();
+    await sut.put(new CacheKey('a', '001'), 1);
+    await new Promise((resolve) => setTimeout(resolve, 700));
+
+    await expect(sut.put(new CacheKey('a', '002'), 2)).rejects.toThrow('is not active');
+    await expect(sut.commit()).rejects.toThrow('is not active');
+    expect(await sut.getLast('a')).toBeNull();
+
+    // the client can start a new transaction
+    await sut.begin();
+    await sut.put(new CacheKey('a', '003'), 3);
+    await sut.commit();
+    expect((await local.getLast('a')).cachedValue).toEqual(3);
+  });
+
+  it('should reject the requests without the auth token', async () => {
+    const protectedServer = new RemoteSortKeyCacheServer(local, { transactionTimeoutMs: 500, authToken: 'secret' });
+    const protectedUrl = await protectedServer.listen();
+    try {
+      await expect(new RemoteSortKeyCache(protectedUrl).getLast('a')).rejects.toThrow('Unauthorized');
+      await expect(
+        new RemoteSortKeyCache(protectedUrl, { Authorization: 'Bearer other' }).getLast('a')
+      ).rejects.toThrow('Unauthorized');
+
+      await new RemoteSortKeyCache(protectedUrl, { Authorization: 'Bearer secret' }).put(new CacheKey('a', '001'), 1);
+      expect((await local.getLast('a')).cachedValue).toEqual(1);
+    } finally {
+      await protectedServer.close();
+    }
+  });
+
+  it('should require the auth token on the non-loopback addresses', async () => {
+    await expect(new RemoteSortKeyCacheServer(local).listen(0, '0.0.0.0')).rejects.toThrow(
+      'Remote cache server listening on non-loopback address 0.0.0.0 requires the authToken'
+    );
+  });
+
+  it('should reject the too large request bodies', async () => {
+    const limitedServer = new RemoteSortKeyCacheServer(local, { transactionTimeoutMs: 500, maxBodyBytes: 1024 });
+    const limitedUrl = await limitedServer.listen();
+    try {
+      await expect(new RemoteSortKeyCache(limitedUrl).put(new CacheKey('a', '001'), 'x'.repeat(2048))).rejects.toThrow(
+        'Request body exceeds 1024 bytes'
+      );
+      expect(await local.getLast('a')).toBeNull();
+
+      await new RemoteSortKeyCache(limitedUrl).put(new CacheKey('a', '001'), 'x');
+      expect((await local.getLast('a')).cachedValue).toEqual('x');
+    } finally {
+      await limitedServer.close();
+    }
+  });
+
+  describe('prune', () => {
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) {
+        await sut.put(new CacheKey('a', `00${i}`), i);
+      }
+      await sut.put(new CacheKey('b', '001'), 1);
+    });
+
+    const sortKeys = async (key: string) => (await local.history(key)).map((v) => v.sortKey);
+
+    it('should prune with the number of the retained entries', async () => {
+      expect(await sut.prune(2)).toMatchObject({ entriesBefore: 6, entriesAfter: 3 });
+      expect(await sortKeys('a')).toEqual(['004', '005']);
+    });
+
+    it('should prune with the built-in retention policies', async () => {
+      expect(
+        await sut.prune(new CompositeRetention(new LatestEntriesRetention(1), new PinnedSortKeysRetention(['002'])))
+      ).toMatchObject({ entriesBefore: 6, entriesAfter: 3 });
+      expect(await sortKeys('a')).toEqual(['002', '005']);
+      expect(await sortKeys('b')).toEqual(['001']);
+    });
+
+    it('should prune with the custom retention policies', async () => {
+      const oddSortKeys: RetentionPolicy = {
+        retain: (key, sortKeys) => new Set(sortKeys.filter((sortKey) => Number(sortKey) % 2 == 1))
+      };
+      expect(await sut.prune(oddSortKeys)).toMatchObject({ entriesBefore: 6, entriesAfter: 4 });
+      expect(await sortKeys('a')).toEqual(['001', '003', '005']);
+      expect(await sortKeys('b')).toEqual(['001']);
+    });
+  });
+
+  it('should report the unknown methods and the network errors', async () => {
+    await expect(server.handle('open')).rejects.toThrow('Unknown remote cache method open');
+
+    await server.close();
+    await expect(sut.getLast('a')).rejects.toThrow(NetworkCommunicationError);
+  });
+});
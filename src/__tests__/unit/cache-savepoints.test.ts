@@ -0,0 +1,221 @@
+import 'fake-indexeddb/auto';
+import Arweave from 'arweave';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { SqliteCache } from '../../cache/impl/SqliteCache';
+import { IndexedDbCache } from '../../cache/impl/IndexedDbCache';
+import { CacheKey, SortKeyCache } from '../../cache/SortKeyCache';
+import { Savepoint } from '../../cache/BasicSortKeyCache';
+import { SmartWeaveGlobal } from '../../legacy/smartweave-global';
+import { DefaultEvaluationOptions, EvalStateResult } from '../../core/modules/StateEvaluator';
+import { ContractInteractionState } from '../../contract/states/ContractInteractionState';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+import { deployContract, interaction, mockInteractionsLoader, silenceLogs } from './_helpers/fixtures';
+
+describe.each([
+  ['LevelDb', () => new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  ['Sqlite', () => new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true })],
+  [
+    'IndexedDb',
+    () => new IndexedDbCache<unknown>({ ...defaultCacheOptions, dbLocation: `savepoints-${Math.random()}` })
+  ]
+])('%s cache savepoints', (_name: string, createCache: () => SortKeyCache<unknown>) => {
+  let sut: SortKeyCache<unknown>;
+
+  beforeEach(async () => {
+    sut = createCache();
+    await sut.put(new CacheKey('a', '001'), 'a-1');
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should rollback nested savepoint without reverting the earlier changes', async () => {
+    const transaction = (await sut.begin()) as Savepoint;
+    await sut.put(new CacheKey('a', '002'), 'a-2');
+
+    const savepoint = (await sut.begin()) as Savepoint;
+    expect(transaction.depth).toEqual(0);
+    expect(savepoint.depth).toEqual(1);
+    await sut.put(new CacheKey('a', '002'), 'a-2-nested');
+    await sut.put(new CacheKey('b', '002'), 'b-2');
+    await sut.rollbackTo(savepoint);
+
+    expect((await sut.getLast('a')).cachedValue).toEqual('a-2');
+    expect(await sut.getLast('b')).toBeNull();
+
+    await sut.commit();
+    expect((await sut.getLast('a')).cachedValue).toEqual('a-2');
+    await expect(sut.rollbackTo(savepoint)).rejects.toThrow('is not active');
+  });
+
+  it('should include released savepoint in the enclosing transaction', async () => {
+    await sut.begin();
+    await sut.put(new CacheKey('a', '002'), 'a-2');
+    const savepoint = (await sut.begin()) as Savepoint;
+    await sut.put(new CacheKey('b', '002'), 'b-2');
+    const nested = (await sut.begin()) as Savepoint;
+    await sut.del(new CacheKey('a', '002'));
+    await sut.release(savepoint);
+
+    expect(await sut.getLast('a')).toBeNull();
+    await expect(sut.release(nested)).rejects.toThrow('is not active');
+
+    await sut.rollback();
+    expect((await sut.getLast('a')).cachedValue).toEqual('a-1');
+    expect(await sut.getLast('b')).toBeNull();
+  });
+
+  it('should treat the outermost savepoint as the transaction', async () => {
+    const transaction = (await sut.begin()) as Savepoint;
+    await sut.put(new CacheKey('a', '002'), 'a-2');
+    await sut.release(transaction);
+
+    const next = (await sut.begin()) as Savepoint;
+    expect(next.depth).toEqual(0);
+    await sut.put(new CacheKey('a', '003'), 'a-3');
+    await sut.rollbackTo(next);
+
+    expect((await sut.getLast('a')).cachedValue).toEqual('a-2');
+  });
+});
+
+describe('SmartWeave KV savepoints', () => {
+  it('should rollback only the changes of the nested call', async () => {
+    const db = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    const interactionState = new ContractInteractionState(WarpFactory.forTestnet());
+    const kv = () => {
+      const swGlobal = new SmartWeaveGlobal(
+        Arweave.init({}),
+        { id: 'KV_SAVEPOINTS_TEST', owner: '' },
+        new DefaultEvaluationOptions(),
+        interactionState,
+        db
+      );
+      swGlobal._activeTx = { sortKey: '001' } as GQLNodeInterface;
+      return swGlobal.kv;
+    };
+    // e.g. the root contract and the write-back call to it
+    const outer = kv();
+    const inner = kv();
+
+    await outer.open();
+    await outer.begin();
+    await outer.put('owner', 'a');
+
+    await inner.open();
+    await inner.begin();
+    await inner.put('owner', 'b');
+    await inner.put('balance', 100);
+    await inner.rollback();
+    await inner.close();
+
+    expect(await outer.get('owner')).toEqual('a');
+    expect(await outer.get('balance')).toBeNull();
+
+    await outer.commit();
+    await outer.close();
+    await db.open();
+    expect((await db.getLast('owner')).cachedValue).toEqual('a');
+  });
+});
+
+describe('Interaction state savepoints', () => {
+  it('should restore the json states', async () => {
+    const sut = new ContractInteractionState(WarpFactory.forTestnet());
+    sut.setInitial('caller', new EvalStateResult({ counter: 0 }, {}, {}), '001');
+
+    const savepoint = await sut.savepoint();
+    // modified in place - e.g. by the handler of the nested call
+    (sut.get('caller', '001').state as { counter: number }).counter = 5;
+    sut.update('caller', new EvalStateResult({ counter: 1 }, {}, {}), '002');
+    sut.update('callee', new EvalStateResult({ counter: 1 }, {}, {}), '002');
+    await sut.rollbackTo(savepoint);
+
+    expect(sut.getLessOrEqual('caller').cachedValue.state).toEqual({ counter: 0 });
+    expect(sut.get('callee', '002')).toBeNull();
+
+    const next = await sut.savepoint();
+    sut.update('callee', new EvalStateResult({ counter: 2 }, {}, {}), '002');
+    await sut.release(next);
+    expect(sut.get('callee', '002').state).toEqual({ counter: 2 });
+  });
+});
+
+describe('Failed internal writes rollback', () => {
+  const callerTxId = 'Caller-nSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+  const calleeTxId = 'Callee-nSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+  const nestedTxId = 'Nested-nSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+
+  const sources = (useKVStorage: boolean) => ({
+    [callerTxId]: `export async function handle(state, action) {
+      const result = await SmartWeave.contracts.write('${calleeTxId}', { function: 'call' }, false);
+      state.result = result.type;
+      return { state };
+    }`,
+    [calleeTxId]: `export async function handle(state, action) {
+      await SmartWeave.contracts.write('${nestedTxId}', { function: 'call' });
+      throw new ContractError('callee failed');
+    }`,
+    [nestedTxId]: `export async function handle(state, action) {
+      state.calls++;
+      ${useKVStorage ? "await SmartWeave.kv.put('calls', state.calls);" : ''}
+      return { state };
+    }`
+  });
+
+  silenceLogs();
+
+  async function nestedAfterRead(rollbackFailedInternalWrites: boolean, useKVStorage = false) {
+    const kvStorages: Record<string, LevelDbCache<unknown>> = {};
+    const warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      (contractTxId) =>
+        (kvStorages[contractTxId] ??= new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true }))
+    );
+    mockInteractionsLoader(warp, (contractTxId) =>
+      contractTxId == callerTxId
+        ? [
+            interaction(1, callerTxId, {
+              input: { function: 'call' },
+              tags: [
+                { name: 'Interact-Write', value: calleeTxId },
+                { name: 'Interact-Write', value: nestedTxId }
+              ]
+            })
+          ]
+        : []
+    );
+    for (const [txId, src] of Object.entries(sources(useKVStorage))) {
+      await deployContract(warp, txId, src, { calls: 0 });
+    }
+
+    const { cachedValue } = await warp
+      .contract<{ result: string }>(callerTxId)
+      .setEvaluationOptions({ internalWrites: true, rollbackFailedInternalWrites, useKVStorage })
+      .readState();
+    expect(cachedValue.state.result).toEqual('error');
+
+    const state = (await warp.stateEvaluator.getCache().getLast(nestedTxId))?.cachedValue.state || null;
+    await kvStorages[nestedTxId]?.open();
+    const kv = (await kvStorages[nestedTxId]?.getLast('calls'))?.cachedValue ?? null;
+    await warp.close();
+    return { state, kv };
+  }
+
+  it('should keep the changes of the nested calls by default', async () => {
+    expect((await nestedAfterRead(false)).state).toEqual({ calls: 1 });
+  });
+
+  it('should revert the changes of the nested calls if enabled', async () => {
+    expect((await nestedAfterRead(true)).state).toEqual({ calls: 0 });
+  });
+
+  it('should keep the kv changes of the nested calls by default', async () => {
+    expect(await nestedAfterRead(false, true)).toEqual({ state: { calls: 1 }, kv: 1 });
+  });
+
+  it('should revert the kv changes of the nested calls together with their states if enabled', async () => {
+    expect(await nestedAfterRead(true, true)).toEqual({ state: { calls: 0 }, kv: null });
+  });
+});
@@ -0,0 +1,77 @@
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { SharedLevelDbKVStorage } from '../../cache/impl/SharedLevelDbKVStorage';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+
+describe('Shared LevelDb KV storage', () => {
+  let sut: SharedLevelDbKVStorage;
+
+  beforeEach(() => {
+    sut = new SharedLevelDbKVStorage({ ...defaultCacheOptions, inMemory: true });
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should store each contract in a separate sublevel', async () => {
+    const storage1 = sut.factory('contract1');
+    const storage2 = sut.factory('contract2');
+    expect(sut.factory('contract1')).toBe(storage1);
+
+    await storage1.put(new CacheKey('balance', '001'), 1);
+    await storage2.put(new CacheKey('balance', '002'), 2);
+
+    expect((await storage1.getLast('balance')).cachedValue).toEqual(1);
+    expect(await storage1.keys('002')).toEqual(['balance']);
+    expect((await storage2.getLast('balance')).cachedValue).toEqual(2);
+    expect(sut.stats()).toEqual({ handles: 2, inUse: 0 });
+  });
+
+  it('should count the references to the pooled storages', async () => {
+    const storage = sut.factory('contract1');
+    await storage.open();
+    await storage.open();
+    await storage.close();
+    expect(sut.stats()).toEqual({ handles: 1, inUse: 1 });
+
+    await storage.close();
+    expect(sut.stats()).toEqual({ handles: 1, inUse: 0 });
+    // the storage is still usable after being closed by all its users
+    await storage.put(new CacheKey('balance', '001'), 1);
+    expect((await storage.getLast('balance')).cachedValue).toEqual(1);
+  });
+
+  it('should support transactions within the sublevels', async () => {
+    const storage = sut.factory('contract1');
+    await storage.put(new CacheKey('balance', '001'), 1);
+    await storage.begin();
+    await storage.put(new CacheKey('balance', '002'), 2);
+    await storage.rollback();
+
+    expect((await storage.getLast('balance')).sortKey).toEqual('001');
+  });
+});
+
+describe('Warp with shared KV storage', () => {
+  it('should read storage values and close the pool', async () => {
+    const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+    const warp = WarpFactory.forLocal(1984, undefined, {
+      ...defaultCacheOptions,
+      inMemory: true,
+      sharedKVStorage: true
+    });
+    const storage = warp.kvStorageFactory(contractTxId);
+    expect(warp.kvStorageFactory(contractTxId)).toBe(storage);
+
+    await storage.put(new CacheKey('balance', '001'), 100);
+    await warp.stateEvaluator.getCache().put(new CacheKey(contractTxId, '001'), new EvalStateResult({}, {}, {}));
+
+    const contract = warp.contract(contractTxId);
+    expect((await contract.getStorageValues(['balance'])).cachedValue.get('balance')).toEqual(100);
+    expect((await contract.getStorageValues(['balance'])).cachedValue.get('balance')).toEqual(100);
+
+    await warp.close();
+    expect(warp.kvStorageFactory(contractTxId)).not.toBe(storage);
+  });
+});
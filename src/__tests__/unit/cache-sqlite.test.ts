@@ -0,0 +1,93 @@
+import fs from 'fs';
+import { SqliteCache } from '../../cache/impl/SqliteCache';
+import { defaultCacheOptions } from '../../core/WarpFactory';
+import { CacheKey } from '../../cache/SortKeyCache';
+
+describe('Sqlite cache', () => {
+  let sut: SqliteCache<unknown>;
+
+  beforeEach(async () => {
+    sut = new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    await sut.put(new CacheKey('a', '001'), { v: 'a1' });
+    await sut.put(new CacheKey('a', '003'), { v: 'a3' });
+    await sut.put(new CacheKey('b', '002'), { v: 'b2' });
+    await sut.put(new CacheKey('c', '002'), { v: 'c2' });
+    await sut.del(new CacheKey('c', '004'));
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should return values for sort keys', async () => {
+    expect((await sut.get(new CacheKey('a', '001'))).cachedValue).toEqual({ v: 'a1' });
+    expect(await sut.get(new CacheKey('a', '002'))).toBeNull();
+    expect(await sut.getLessOrEqual('a', '002')).toEqual({ sortKey: '001', cachedValue: { v: 'a1' } });
+    expect(await sut.getLessOrEqual('a', '000')).toBeNull();
+    expect(await sut.getLast('a')).toEqual({ sortKey: '003', cachedValue: { v: 'a3' } });
+    expect(await sut.getLastSortKey()).toEqual('004');
+  });
+
+  it('should respect tombstones', async () => {
+    expect((await sut.getLessOrEqual('c', '003')).cachedValue).toEqual({ v: 'c2' });
+    expect(await sut.getLessOrEqual('c', '004')).toBeNull();
+    expect(await sut.getLast('c')).toBeNull();
+  });
+
+  it('should return kv map for range options', async () => {
+    expect(await sut.keys('002')).toEqual(['a', 'b', 'c']);
+    expect(await sut.keys('004')).toEqual(['a', 'b']);
+    expect(await sut.keys('004', { reverse: true, limit: 1 })).toEqual(['b']);
+    expect(await sut.keys('004', { gte: 'b' })).toEqual(['b']);
+    expect(await sut.kvMap('003', { lt: 'b' })).toEqual(new Map([['a', { v: 'a3' }]]));
+  });
+
+  it('should rollback and commit transactions', async () => {
+    await sut.begin();
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+    await sut.rollback();
+    expect((await sut.getLast('a')).sortKey).toEqual('003');
+
+    await sut.begin();
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+    await sut.commit();
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+  });
+
+  it('should return prune stats', async () => {
+    const stats = await sut.prune(1);
+
+    expect(stats.entriesBefore).toEqual(5);
+    expect(stats.entriesAfter).toEqual(3);
+    expect(stats.sizeAfter).toBeLessThan(stats.sizeBefore);
+    expect(await sut.get(new CacheKey('a', '001'))).toBeNull();
+  });
+
+  it('should persist values in a file', async () => {
+    const dbLocation = './cache/warp/sqlite-test';
+    fs.rmSync(dbLocation, { recursive: true, force: true });
+
+    const fileCache = new SqliteCache<unknown>({ ...defaultCacheOptions, dbLocation });
+    await fileCache.put(new CacheKey('a', '001'), { v: 'a1' });
+    await fileCache.close();
+
+    const reopened = new SqliteCache<unknown>({ ...defaultCacheOptions, dbLocation });
+    expect((await reopened.getLast('a')).cachedValue).toEqual({ v: 'a1' });
+    await reopened.close();
+    fs.rmSync(dbLocation, { recursive: true, force: true });
+  });
+
+  it('should fail with a clear error if better-sqlite3 is not installed', async () => {
+    jest.doMock('better-sqlite3', () => {
+      throw new Error("Cannot find module 'better-sqlite3'");
+    });
+    try {
+      await expect(new SqliteCache<unknown>({ ...defaultCacheOptions, inMemory: true }).getLast('a')).rejects.toThrow(
+        "SqliteCache requires the 'better-sqlite3' package"
+      );
+    } finally {
+      jest.dontMock('better-sqlite3');
+    }
+  });
+});
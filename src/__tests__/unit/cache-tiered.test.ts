@@ -0,0 +1,86 @@
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { TieredSortKeyCache } from '../../cache/impl/TieredSortKeyCache';
+import { defaultCacheOptions } from '../../core/WarpFactory';
+import { CacheKey } from '../../cache/SortKeyCache';
+
+describe('Tiered sort key cache', () => {
+  let delegate: LevelDbCache<unknown>;
+
+  beforeEach(async () => {
+    delegate = new LevelDbCache<unknown>({ ...defaultCacheOptions, inMemory: true });
+    await delegate.put(new CacheKey('a', '001'), { v: 'a1' });
+    await delegate.put(new CacheKey('a', '003'), { v: 'a3' });
+  });
+
+  it('should serve latest values from memory', async () => {
+    const sut = new TieredSortKeyCache(delegate);
+
+    expect(await sut.getLast('a')).toEqual({ sortKey: '003', cachedValue: { v: 'a3' } });
+    expect(await sut.getLast('a')).toEqual({ sortKey: '003', cachedValue: { v: 'a3' } });
+    expect(await sut.getLessOrEqual('a', '004')).toEqual({ sortKey: '003', cachedValue: { v: 'a3' } });
+    expect(await sut.getLessOrEqual('a', '002')).toEqual({ sortKey: '001', cachedValue: { v: 'a1' } });
+
+    expect(sut.stats()).toEqual({ hits: 2, misses: 2, size: 1, pending: 0 });
+  });
+
+  it('should return copies of the cached values', async () => {
+    const sut = new TieredSortKeyCache(delegate);
+
+    const result = await sut.getLast('a');
+    (result.cachedValue as { v: string }).v = 'changed';
+
+    expect((await sut.getLast('a')).cachedValue).toEqual({ v: 'a3' });
+  });
+
+  it('should update memory tier on write-through', async () => {
+    const sut = new TieredSortKeyCache(delegate, { writeMode: 'write-through' });
+    await sut.getLast('a');
+
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+    expect((await delegate.getLast('a')).sortKey).toEqual('005');
+  });
+
+  it('should flush pending puts on write-behind', async () => {
+    const sut = new TieredSortKeyCache(delegate, { writeMode: 'write-behind', flushThreshold: 3 });
+    await sut.getLast('a');
+
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+    await sut.put(new CacheKey('b', '005'), { v: 'b5' });
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+    expect((await sut.get(new CacheKey('b', '005'))).cachedValue).toEqual({ v: 'b5' });
+    expect((await delegate.getLast('a')).sortKey).toEqual('003');
+    expect(sut.stats().pending).toEqual(2);
+
+    await sut.put(new CacheKey('b', '006'), { v: 'b6' });
+    expect(sut.stats().pending).toEqual(0);
+    expect((await delegate.getLast('a')).sortKey).toEqual('005');
+    expect((await delegate.getLast('b')).sortKey).toEqual('006');
+  });
+
+  it('should flush pending puts before reading from the underlying cache', async () => {
+    const sut = new TieredSortKeyCache(delegate, { writeMode: 'write-behind' });
+
+    await sut.put(new CacheKey('b', '005'), { v: 'b5' });
+
+    expect((await sut.getLessOrEqual('b', '006')).cachedValue).toEqual({ v: 'b5' });
+  });
+
+  it.each(['write-through', 'write-behind'] as const)('should respect transactions (%s)', async (writeMode) => {
+    const sut = new TieredSortKeyCache(delegate, { writeMode });
+    await sut.getLast('a');
+
+    await sut.begin();
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+    await sut.rollback();
+    expect((await sut.getLast('a')).sortKey).toEqual('003');
+
+    await sut.begin();
+    await sut.put(new CacheKey('a', '005'), { v: 'a5' });
+    await sut.commit();
+    expect((await sut.getLast('a')).sortKey).toEqual('005');
+    expect((await delegate.getLast('a')).sortKey).toEqual('005');
+  });
+});
@@ -0,0 +1,144 @@
+import { MemoryLevel } from 'memory-level';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+import { ContractCache, SrcCache } from '../../core/ContractDefinition';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+import { CacheVerifier } from '../../cache/verification/CacheVerifier';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+
+const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+const srcTxId = 'SrcTx-5HPd9t0c6QxrnS-qM1X8c8Vr4cF9mQaV1ai9j8';
+
+const src = `export async function handle(state, action) {
+  state.counter += action.input.value;
+  await SmartWeave.kv.put('last', action.input.value);
+  return { state };
+}`;
+
+function sortKey(i: number): string {
+  return `${i}`.padStart(12, '0') + ',0000000000000,' + `${i}`.padStart(64, '0');
+}
+
+function interaction(i: number): GQLNodeInterface {
+  return {
+    id: `tx${i}`.padEnd(43, '0'),
+    sortKey: sortKey(i),
+    owner: { address: 'owner' },
+    recipient: '',
+    tags: [
+      { name: 'App-Name', value: 'SmartWeaveAction' },
+      { name: 'Contract', value: contractTxId },
+      { name: 'Input', value: JSON.stringify({ function: 'add', value: i }) }
+    ],
+    block: { height: i, id: `block${i}`, timestamp: 1000 + i, previous: null },
+    fee: { winston: '0', ar: '0' },
+    quantity: { winston: '0', ar: '0' }
+  } as GQLNodeInterface;
+}
+
+const interactions = [1, 2, 3, 4].map(interaction);
+
+describe('Cache verifier', () => {
+  let warp: Warp;
+  let kvStorage: LevelDbCache<unknown>;
+
+  beforeAll(() => {
+    LoggerFactory.INST.logLevel('error');
+  });
+
+  beforeEach(async () => {
+    kvStorage = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      () => kvStorage
+    );
+    jest
+      .spyOn(warp.interactionsLoader, 'load')
+      .mockImplementation(async (txId: string, fromSortKey?: string, toSortKey?: string) =>
+        interactions.filter(
+          (i) =>
+            (!fromSortKey || i.sortKey.localeCompare(fromSortKey) > 0) &&
+            (!toSortKey || i.sortKey.localeCompare(toSortKey) <= 0)
+        )
+      );
+
+    await warp.definitionLoader.getCache().put(new CacheKey(contractTxId, 'cd'), {
+      txId: contractTxId,
+      srcTxId,
+      initState: { counter: 0 },
+      owner: 'owner',
+      minFee: '0',
+      contractType: 'js',
+      testnet: null
+    } as ContractCache<unknown>);
+    await warp.definitionLoader
+      .getSrcCache()
+      .put(new CacheKey(srcTxId, 'src'), { src, srcBinary: null, srcWasmLang: null } as SrcCache);
+
+    const contract = warp.contract(contractTxId).setEvaluationOptions({ useKVStorage: true });
+    await contract.readState(sortKey(2));
+    await contract.readState(sortKey(4));
+  });
+
+  it('should report no issues for a valid cache', async () => {
+    const report = await new CacheVerifier(warp).verify({ evaluationOptions: { useKVStorage: true } });
+
+    expect(report).toEqual({
+      repair: false,
+      contracts: 1,
+      entries: 2,
+      entriesVerified: 2,
+      issues: [],
+      valid: true
+    });
+  });
+
+  it('should detect and remove corrupted states', async () => {
+    const stateCache = warp.stateEvaluator.getCache();
+    await stateCache.put(new CacheKey(contractTxId, sortKey(2)), new EvalStateResult({ counter: 100 }, {}, {}));
+
+    const report = await new CacheVerifier(warp).verify({ evaluationOptions: { useKVStorage: true } });
+    expect(report.valid).toBe(false);
+    // the next state is verified against the re-evaluated version of the corrupted one
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'state-mismatch', sortKey: sortKey(2), repaired: false })
+    ]);
+    expect((await stateCache.get(new CacheKey(contractTxId, sortKey(2)))).cachedValue.state).toEqual({ counter: 100 });
+
+    const repairReport = await new CacheVerifier(warp).verify({
+      repair: true,
+      evaluationOptions: { useKVStorage: true }
+    });
+    expect(repairReport.issues).toEqual([expect.objectContaining({ type: 'state-mismatch', repaired: true })]);
+    expect(await stateCache.get(new CacheKey(contractTxId, sortKey(2)))).toBeNull();
+    expect((await stateCache.getLast(contractTxId)).cachedValue.state).toEqual({ counter: 10 });
+  });
+
+  it('should verify sampled entries', async () => {
+    const report = await new CacheVerifier(warp).verify({ sampleSize: 1, evaluationOptions: { useKVStorage: true } });
+
+    expect(report.entries).toEqual(2);
+    expect(report.entriesVerified).toEqual(1);
+    expect(report.valid).toBe(true);
+  });
+
+  it('should detect unfinished transactions and orphaned kv entries', async () => {
+    // simulates a crash during the evaluation of the next interaction
+    await kvStorage.open();
+    await kvStorage.put(new CacheKey('last', sortKey(5)), 5);
+    await kvStorage.storage<MemoryLevel<string, unknown>>().put('$$warp-internal-transaction$$', 'ongoing');
+    expect(await kvStorage.hasUnfinishedTransaction()).toBe(true);
+
+    const report = await new CacheVerifier(warp).verify({ repair: true, evaluationOptions: { useKVStorage: true } });
+
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'unfinished-transaction', cache: 'kv', repaired: true }),
+      expect.objectContaining({ type: 'orphaned-kv-entry', key: 'last', sortKey: sortKey(5), repaired: true })
+    ]);
+    await kvStorage.open();
+    expect(await kvStorage.hasUnfinishedTransaction()).toBe(false);
+    expect(await kvStorage.entryKeys()).toEqual([1, 2, 3, 4].map((i) => new CacheKey('last', sortKey(i))));
+  });
+});
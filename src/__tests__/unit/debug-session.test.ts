@@ -0,0 +1,111 @@
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { DebugSession } from '../../contract/debug/DebugSession';
+import { deployContract, interaction, mockInteractionsLoader, silenceLogs, sortKey, txId } from './_helpers/fixtures';
+
+const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+
+const src = `export async function handle(state, action) {
+  const { value } = action.input;
+  if (value == 3) {
+    throw new ContractError('Three is not allowed');
+  }
+  state.counter += value;
+  state.balances[action.caller] = (state.balances[action.caller] || 0) + value;
+  await SmartWeave.kv.put('last', value);
+  return { state };
+}`;
+
+type State = { counter: number; balances: Record<string, number> };
+
+const interactions = [1, 2, 3, 4, 5].map((i) => interaction(i, contractTxId, { caller: i % 2 ? 'alice' : 'bob' }));
+
+describe('Debug session', () => {
+  let warp: Warp;
+  let sut: DebugSession<State>;
+
+  silenceLogs();
+
+  beforeEach(async () => {
+    const kvStorage = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      () => kvStorage
+    );
+    mockInteractionsLoader(warp, interactions);
+    await deployContract(warp, contractTxId, src, { counter: 0, balances: {} });
+
+    sut = warp.debug<State>(contractTxId, { evaluationOptions: { useKVStorage: true } });
+  });
+
+  afterEach(async () => {
+    await sut.close();
+  });
+
+  it('should step through the interactions', async () => {
+    const first = await sut.next();
+    expect(first).toEqual(
+      expect.objectContaining({
+        index: 0,
+        txId: txId(1),
+        sortKey: sortKey(1),
+        caller: 'alice',
+        input: { function: 'add', value: 1 },
+        valid: true,
+        errorMessage: null,
+        state: { counter: 1, balances: { alice: 1 } }
+      })
+    );
+    expect(first.diff.kv).toEqual([{ op: 'add', path: '/last', value: 1 }]);
+    expect(first.call.interactionInput.blockHeight).toEqual(1);
+
+    const third = await sut.stepTo(sortKey(3));
+    expect(third).toEqual(
+      expect.objectContaining({ txId: txId(3), valid: false, errorMessage: 'Three is not allowed' })
+    );
+    expect(sut.inspect()).toEqual({ counter: 3, balances: { alice: 1, bob: 2 } });
+    expect(sut.inspect('balances.bob')).toEqual(2);
+    expect(sut.inspect('balances.carol')).toBeUndefined();
+
+    // stepping backwards re-evaluates the interaction
+    expect((await sut.stepTo(sortKey(2))).call).not.toBeNull();
+    expect((await sut.next()).txId).toEqual(txId(3));
+    expect((await sut.stepTo(sortKey(9))).txId).toEqual(txId(5));
+    expect(await sut.next()).toBeNull();
+    await expect(sut.stepTo('0')).rejects.toThrow('No interaction');
+  });
+
+  it('should rerun the current interaction with the patched source', async () => {
+    await sut.stepTo(sortKey(3));
+
+    const rerun = await sut.rerun(src.replace('value == 3', 'value == 30'));
+    expect(rerun.valid).toBe(true);
+    expect(rerun.state.counter).toEqual(6);
+    expect((await sut.next()).state.counter).toEqual(10);
+
+    // the debugged Warp instance is not affected
+    expect(await warp.stateEvaluator.getCache().getLast(contractTxId)).toBeNull();
+    const contract = warp.contract<State>(contractTxId).setEvaluationOptions({ useKVStorage: true });
+    expect((await contract.readState(sortKey(4))).cachedValue.state.counter).toEqual(7);
+  });
+
+  it('should watch the state paths', async () => {
+    sut.watch('balances.bob').watch('counter');
+
+    const first = await sut.next();
+    expect(first.watches).toEqual([
+      { path: 'balances.bob', previous: undefined, current: undefined, changed: false },
+      { path: 'counter', previous: undefined, current: 1, changed: true }
+    ]);
+
+    sut.unwatch('counter');
+    const step = await sut.continue();
+    expect(step.txId).toEqual(txId(2));
+    expect(step.watches).toEqual([{ path: 'balances.bob', previous: undefined, current: 2, changed: true }]);
+
+    // the rejected interaction 3 does not change the balance
+    expect((await sut.continue()).txId).toEqual(txId(4));
+    expect((await sut.continue()).txId).toEqual(txId(5));
+    expect(await sut.continue()).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { encodeContinuationToken } from '../../core/EvaluationBudget';
+import { invalidateKeyFrom } from '../../cache/BasicSortKeyCache';
+import { deployContract, interaction, mockInteractionsLoader, silenceLogs, sortKey } from './_helpers/fixtures';
+
+const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+
+const src = `export async function handle(state, action) {
+  for (let i = 0; i < action.input.value; i++) {
+    state.counter++;
+  }
+  return { state };
+}`;
+
+describe('Evaluation budget', () => {
+  let warp: Warp;
+  let load: jest.SpyInstance;
+  const interactions = [1, 2, 3, 4, 5].map((i) => interaction(i, contractTxId));
+
+  silenceLogs();
+
+  beforeEach(async () => {
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true });
+    load = mockInteractionsLoader(warp, interactions);
+    await deployContract(warp, contractTxId, src, { counter: 0 });
+  });
+
+  afterEach(async () => {
+    await warp.close();
+  });
+
+  it('should resume the evaluation with the continuation token', async () => {
+    const contract = warp.contract<{ counter: number }>(contractTxId);
+
+    const first = await contract.readStateWithBudget({ maxInteractions: 2 });
+    expect(first.result.sortKey).toEqual(sortKey(2));
+    expect(first.result.cachedValue.state.counter).toEqual(3);
+    expect(first.continuationToken).not.toBeNull();
+
+    const second = await contract.readStateWithBudget(
+      { maxInteractions: 2 },
+      { continuationToken: first.continuationToken }
+    );
+    expect(load).toHaveBeenLastCalledWith(contractTxId, sortKey(2), undefined, expect.anything());
+    expect(second.result.sortKey).toEqual(sortKey(4));
+    expect(second.result.cachedValue.state.counter).toEqual(10);
+
+    const third = await contract.readStateWithBudget(
+      { maxInteractions: 2 },
+      { continuationToken: second.continuationToken }
+    );
+    expect(third.result.sortKey).toEqual(sortKey(5));
+    expect(third.result.cachedValue.state.counter).toEqual(15);
+    expect(third.continuationToken).toBeNull();
+  });
+
+  it('should resume the evaluation up to the originally requested sortKey', async () => {
+    const contract = warp.contract<{ counter: number }>(contractTxId);
+
+    const first = await contract.readStateWithBudget({ maxInteractions: 2 }, { sortKeyOrBlockHeight: 3 });
+    const second = await contract.readStateWithBudget(
+      { maxInteractions: 2 },
+      { sortKeyOrBlockHeight: 5, continuationToken: first.continuationToken }
+    );
+
+    expect(second.result.cachedValue.state.counter).toEqual(6);
+    expect(second.continuationToken).toBeNull();
+  });
+
+  it('should stop the evaluation once the gas budget is used', async () => {
+    const { result, continuationToken } = await warp
+      .contract<{ counter: number }>(contractTxId)
+      .setEvaluationOptions({ gasMetering: true })
+      .readStateWithBudget({ maxGas: 10 });
+
+    // 1 call + 1 loop iteration, 1 call + 2 loop iterations...
+    expect(result.sortKey).toEqual(sortKey(4));
+    expect(result.cachedValue.state.counter).toEqual(10);
+    expect(continuationToken).not.toBeNull();
+  });
+
+  it('should evaluate all the interactions within the budget', async () => {
+    const { result, continuationToken } = await warp
+      .contract<{ counter: number }>(contractTxId)
+      .readStateWithBudget({ maxInteractions: 10, maxTimeMs: 60_000 });
+
+    expect(result.cachedValue.state.counter).toEqual(15);
+    expect(continuationToken).toBeNull();
+  });
+
+  it('should not resume the evaluation from the state that is no longer cached', async () => {
+    const contract = warp.contract<{ counter: number }>(contractTxId);
+    const { continuationToken } = await contract.readStateWithBudget({ maxInteractions: 2 });
+    // e.g. pruned or invalidated
+    await invalidateKeyFrom(warp.stateEvaluator.getCache(), contractTxId, sortKey(2));
+
+    await expect(contract.readStateWithBudget({ maxInteractions: 2 }, { continuationToken })).rejects.toThrow(
+      `Cannot resume evaluation of ${contractTxId} - state at ${sortKey(2)} is no longer cached`
+    );
+  });
+
+  it('should reject the invalid continuation tokens', async () => {
+    const contract = warp.contract(contractTxId);
+
+    await expect(contract.readStateWithBudget({}, { continuationToken: 'invalid' })).rejects.toThrow(
+      'Invalid continuation token'
+    );
+    const token = encodeContinuationToken({ contractTxId: 'other', sortKey: sortKey(1), toSortKey: null });
+    await expect(contract.readStateWithBudget({}, { continuationToken: token })).rejects.toThrow(
+      'Continuation token has been issued for a different contract: other'
+    );
+  });
+});
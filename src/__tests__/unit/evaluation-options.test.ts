@@ -14,18 +14,25 @@ describe('Evaluation options evaluator', () => {
       allowBigInt: false,
       cacheEveryNInteractions: defEvalOptions.cacheEveryNInteractions,
       gasLimit: 9007199254740991,
+      gasMetering: false,
+      gasSchedule: { loop: 1, call: 1, kvRead: 10, kvWrite: 50 },
       ignoreExceptions: true,
+      interactionFilters: [],
       internalWrites: false,
       maxCallDepth: 7,
       maxInteractionEvaluationTimeSeconds: 60,
       mineArLocalBlocks: true,
+      recordDiffs: false,
       remoteStateSyncEnabled: false,
       remoteStateSyncSource: 'https://dre-1.warp.cc/contract',
+      rollbackFailedInternalWrites: false,
       sequencerUrl: 'https://d1o5nlqr4okus2.cloudfront.net/',
       sourceType: SourceType.BOTH,
       stackTrace: {
         saveState: false
       },
+      stateValidation: 'off',
+      stateValidationFailure: 'invalidate',
       strictEvolve: true,
       strictSortKey: false,
       throwOnInternalWriteError: true,
@@ -55,18 +62,25 @@ describe('Evaluation options evaluator', () => {
       allowBigInt: true,
       cacheEveryNInteractions: defEvalOptions.cacheEveryNInteractions,
       gasLimit: 3453453,
+      gasMetering: false,
+      gasSchedule: { loop: 1, call: 1, kvRead: 10, kvWrite: 50 },
       ignoreExceptions: true,
+      interactionFilters: [],
       internalWrites: true,
       maxCallDepth: 7,
       maxInteractionEvaluationTimeSeconds: 60,
       mineArLocalBlocks: true,
+      recordDiffs: false,
       remoteStateSyncEnabled: false,
       remoteStateSyncSource: 'https://dre-1.warp.cc/contract',
+      rollbackFailedInternalWrites: false,
       sequencerUrl: 'https://d1o5nlqr4okus2.cloudfront.net/',
       sourceType: SourceType.BOTH,
       stackTrace: {
         saveState: false
       },
+      stateValidation: 'off',
+      stateValidationFailure: 'invalidate',
       strictEvolve: true,
       strictSortKey: false,
       throwOnInternalWriteError: true,
@@ -91,18 +105,25 @@ describe('Evaluation options evaluator', () => {
       allowBigInt: false,
       cacheEveryNInteractions: defEvalOptions.cacheEveryNInteractions,
       gasLimit: 2222,
+      gasMetering: false,
+      gasSchedule: { loop: 1, call: 1, kvRead: 10, kvWrite: 50 },
       ignoreExceptions: true,
+      interactionFilters: [],
       internalWrites: true,
       maxCallDepth: 5,
       maxInteractionEvaluationTimeSeconds: 60,
       mineArLocalBlocks: true,
+      recordDiffs: false,
       remoteStateSyncEnabled: false,
       remoteStateSyncSource: 'https://dre-1.warp.cc/contract',
+      rollbackFailedInternalWrites: false,
       sequencerUrl: 'https://d1o5nlqr4okus2.cloudfront.net/',
       sourceType: 'both',
       stackTrace: {
         saveState: false
       },
+      stateValidation: 'off',
+      stateValidationFailure: 'invalidate',
       strictEvolve: true,
       strictSortKey: false,
       throwOnInternalWriteError: true,
@@ -124,18 +145,25 @@ describe('Evaluation options evaluator', () => {
       allowBigInt: false,
       cacheEveryNInteractions: defEvalOptions.cacheEveryNInteractions,
       gasLimit: 2222,
+      gasMetering: false,
+      gasSchedule: { loop: 1, call: 1, kvRead: 10, kvWrite: 50 },
       ignoreExceptions: true,
+      interactionFilters: [],
       internalWrites: false,
       maxCallDepth: 5,
       maxInteractionEvaluationTimeSeconds: 60,
       mineArLocalBlocks: true,
+      recordDiffs: false,
       remoteStateSyncEnabled: false,
       remoteStateSyncSource: 'https://dre-1.warp.cc/contract',
+      rollbackFailedInternalWrites: false,
       sequencerUrl: 'https://d1o5nlqr4okus2.cloudfront.net/',
       sourceType: 'both',
       stackTrace: {
         saveState: false
       },
+      stateValidation: 'off',
+      stateValidationFailure: 'invalidate',
       strictEvolve: true,
       strictSortKey: false,
       throwOnInternalWriteError: true,
@@ -157,18 +185,25 @@ describe('Evaluation options evaluator', () => {
       allowBigInt: false,
       cacheEveryNInteractions: defEvalOptions.cacheEveryNInteractions,
       gasLimit: 2222,
+      gasMetering: false,
+      gasSchedule: { loop: 1, call: 1, kvRead: 10, kvWrite: 50 },
       ignoreExceptions: true,
+      interactionFilters: [],
       internalWrites: true,
       maxCallDepth: 5,
       maxInteractionEvaluationTimeSeconds: 60,
       mineArLocalBlocks: true,
+      recordDiffs: false,
       remoteStateSyncEnabled: false,
       remoteStateSyncSource: 'https://dre-1.warp.cc/contract',
+      rollbackFailedInternalWrites: false,
       sequencerUrl: 'https://d1o5nlqr4okus2.cloudfront.net/',
       sourceType: 'both',
       stackTrace: {
         saveState: false
       },
+      stateValidation: 'off',
+      stateValidationFailure: 'invalidate',
       strictEvolve: true,
       strictSortKey: false,
       throwOnInternalWriteError: true,
@@ -190,18 +225,25 @@ describe('Evaluation options evaluator', () => {
       allowBigInt: false,
       cacheEveryNInteractions: defEvalOptions.cacheEveryNInteractions,
       gasLimit: 2222,
+      gasMetering: false,
+      gasSchedule: { loop: 1, call: 1, kvRead: 10, kvWrite: 50 },
       ignoreExceptions: true,
+      interactionFilters: [],
       internalWrites: true,
       maxCallDepth: 5,
       maxInteractionEvaluationTimeSeconds: 60,
       mineArLocalBlocks: true,
+      recordDiffs: false,
       remoteStateSyncEnabled: false,
       remoteStateSyncSource: 'https://dre-1.warp.cc/contract',
+      rollbackFailedInternalWrites: false,
       sequencerUrl: 'https://d1o5nlqr4okus2.cloudfront.net/',
       sourceType: 'both',
       stackTrace: {
         saveState: false
       },
+      stateValidation: 'off',
+      stateValidationFailure: 'invalidate',
       strictEvolve: true,
       strictSortKey: false,
       throwOnInternalWriteError: true,
@@ -0,0 +1,153 @@
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+import { instrumentContractSource } from '../../core/modules/impl/instrument-source';
+import { deployContract, interaction, mockInteractionsLoader, silenceLogs, txId } from './_helpers/fixtures';
+
+const counterTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+const writerTxId = 'Wrt-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+
+// 4 calls (handle, 3 x add) + 3 loop iterations + 1 kv write
+const counterSrc = `function add(state, value) {
+  state.counter += value;
+}
+
+export async function handle(state, action) {
+  for (let i = 0; i < 3; i++) add(state, action.input.value);
+  await SmartWeave.kv.put('last', action.input.value);
+  return { state };
+}`;
+
+const writerSrc = `export async function handle(state, action) {
+  await SmartWeave.contracts.write('${counterTxId}', { function: 'add', value: 2 });
+  state.writes++;
+  return { state };
+}`;
+
+describe('Gas metering', () => {
+  let warp: Warp;
+  let interactions: { [contractTxId: string]: GQLNodeInterface[] };
+
+  silenceLogs();
+
+  beforeEach(async () => {
+    const kvStorage = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      () => kvStorage
+    );
+    interactions = {
+      [counterTxId]: [interaction(1, counterTxId)],
+      [writerTxId]: []
+    };
+    mockInteractionsLoader(warp, (contractTxId) => interactions[contractTxId]);
+
+    await deployContract(warp, counterTxId, counterSrc, { counter: 0 });
+    await deployContract(warp, writerTxId, writerSrc, { writes: 0 });
+  });
+
+  afterEach(async () => {
+    await warp.close();
+  });
+
+  it('should instrument the loops and the function calls', () => {
+    expect(
+      instrumentContractSource(`function f(a) {
+  'use strict';
+  while (a--) g(() => a);
+}`)
+    ).toEqual(`function f(a) {
+  'use strict';SmartWeave.useGasFor('call');
+  while (a--) {SmartWeave.useGasFor('loop');g(() => (SmartWeave.useGasFor('call'), a));}
+}`);
+    expect(() => instrumentContractSource('function (')).toThrow('Cannot instrument the contract source');
+  });
+
+  it('should instrument the latest syntax', () => {
+    expect(
+      instrumentContractSource(`class Counter {
+  #count = 1_000;
+  static step = 1n;
+  add = () => this.#count++;
+}
+state.total ??= 0;
+state.owner ||= caller?.address;`)
+    ).toEqual(`class Counter {
+  #count = 1_000;
+  static step = 1n;
+  add = () => (SmartWeave.useGasFor('call'), this.#count++);
+}
+state.total ??= 0;
+state.owner ||= caller?.address;`);
+  });
+
+  it('should report the position of the parse failure', () => {
+    expect(() => instrumentContractSource('state.total ??= ;')).toThrow(
+      'Cannot instrument the contract source: Unexpected token (1:16)'
+    );
+    expect(() => instrumentContractSource('class A { #a; b() { return this.#c; } }')).toThrow(
+      'Cannot instrument the contract source'
+    );
+  });
+
+  it('should fail the evaluation of the contract that cannot be instrumented', async () => {
+    await deployContract(warp, counterTxId, 'export async function handle(state, action) {', { counter: 0 });
+
+    await expect(
+      warp
+        .contract<{ counter: number }>(counterTxId)
+        .setEvaluationOptions({ useKVStorage: true, gasMetering: true })
+        .readState()
+    ).rejects.toThrow('Cannot instrument the contract source');
+  });
+
+  it('should not meter the gas by default', async () => {
+    const contract = warp.contract<{ counter: number }>(counterTxId).setEvaluationOptions({ useKVStorage: true });
+    const { cachedValue } = await contract.readState();
+
+    expect(cachedValue.state.counter).toEqual(3);
+    expect(contract.getCallStack().getInteraction(txId(1)).interactionOutput.gasUsed).toEqual(0);
+  });
+
+  it('should charge the gas according to the schedule', async () => {
+    const contract = warp.contract<{ counter: number }>(counterTxId).setEvaluationOptions({
+      useKVStorage: true,
+      gasMetering: true,
+      gasSchedule: { loop: 100, call: 10, kvRead: 1, kvWrite: 1000 }
+    });
+    const { cachedValue } = await contract.readState();
+
+    expect(cachedValue.state.counter).toEqual(3);
+    expect(contract.getCallStack().getInteraction(txId(1)).interactionOutput.gasUsed).toEqual(4 * 10 + 3 * 100 + 1000);
+  });
+
+  it('should stop the interaction exceeding the gas limit', async () => {
+    const { cachedValue } = await warp
+      .contract<{ counter: number }>(counterTxId)
+      .setEvaluationOptions({ useKVStorage: true, gasMetering: true, gasLimit: 50 })
+      .readState();
+
+    expect(cachedValue.state.counter).toEqual(0);
+    expect(cachedValue.validity[txId(1)]).toBe(false);
+    expect(cachedValue.errorMessages[txId(1)]).toContain('[RE:OOG] Out of gas! Used: 57, limit: 50');
+  });
+
+  it('should record the gas used by the internal writes', async () => {
+    interactions[writerTxId] = [
+      interaction(2, writerTxId, {
+        input: { function: 'write' },
+        tags: [{ name: 'Interact-Write', value: counterTxId }]
+      })
+    ];
+    interactions[counterTxId].push(interactions[writerTxId][0]);
+
+    const contract = warp
+      .contract<{ counter: number }>(counterTxId)
+      .setEvaluationOptions({ useKVStorage: true, internalWrites: true, gasMetering: true });
+    const { cachedValue } = await contract.readState();
+
+    expect(cachedValue.state.counter).toEqual(9);
+    expect(contract.getCallStack().getInteraction(txId(1)).interactionOutput.gasUsed).toEqual(57);
+    expect(contract.getCallStack().getInteraction(txId(2)).interactionOutput.gasUsed).toEqual(57);
+  });
+});
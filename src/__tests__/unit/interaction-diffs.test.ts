@@ -0,0 +1,138 @@
+import { applyPatch, deepClone } from 'fast-json-patch';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { ContractInteractionState } from '../../contract/states/ContractInteractionState';
+import { InteractionDiff } from '../../core/InteractionDiff';
+import { deployContract, interaction, mockInteractionsLoader, silenceLogs, sortKey, txId } from './_helpers/fixtures';
+
+const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+
+const src = `export async function handle(state, action) {
+  const { value } = action.input;
+  await SmartWeave.kv.put('last', value);
+  if (value == 3) {
+    throw new ContractError('Three is not allowed');
+  }
+  state.counter += value;
+  state.values.push(value);
+  await SmartWeave.kv.put('balances/' + value, { value });
+  if (value == 4) {
+    await SmartWeave.kv.del('balances/2');
+  }
+  return { state };
+}`;
+
+const interactions = [1, 2, 3, 4].map((i) => interaction(i, contractTxId, { caller: 'owner' }));
+
+describe('Interaction diffs', () => {
+  let warp: Warp;
+
+  silenceLogs();
+
+  beforeEach(async () => {
+    const kvStorage = new LevelDbCache({ ...defaultCacheOptions, inMemory: true });
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+      () => kvStorage
+    );
+    mockInteractionsLoader(warp, interactions);
+    await deployContract(warp, contractTxId, src, { counter: 0, values: [] });
+  });
+
+  it('should record the state and kv changes of each interaction', async () => {
+    const contract = warp.contract(contractTxId).setEvaluationOptions({ useKVStorage: true, recordDiffs: true });
+    await contract.readState();
+
+    const diffs = await contract.getInteractionDiffs();
+    expect(diffs.map((diff) => [diff.txId, diff.sortKey, diff.valid])).toEqual([
+      [txId(1), sortKey(1), true],
+      [txId(2), sortKey(2), true],
+      [txId(3), sortKey(3), false],
+      [txId(4), sortKey(4), true]
+    ]);
+
+    // the diffs applied one after another give the evaluated state
+    let state = { counter: 0, values: [] };
+    for (const diff of diffs) {
+      state = applyPatch(deepClone(state), diff.state).newDocument;
+    }
+    expect(state).toEqual({ counter: 7, values: [1, 2, 4] });
+
+    expect(diffs[0].kv).toEqual([
+      { op: 'add', path: '/last', value: 1 },
+      { op: 'add', path: '/balances~11', value: { value: 1 } }
+    ]);
+    // the changes of the rejected interaction are rolled back
+    expect(diffs[2].state).toEqual([]);
+    expect(diffs[2].kv).toEqual([]);
+    expect(diffs[3].kv).toEqual([
+      { op: 'add', path: '/last', value: 4 },
+      { op: 'add', path: '/balances~14', value: { value: 4 } },
+      { op: 'remove', path: '/balances~12' }
+    ]);
+
+    expect(contract.getCallStack().getInteraction(txId(4)).interactionOutput.diff).toEqual(diffs[3]);
+  });
+
+  it('should query the diffs by the transaction id and the sortKeys', async () => {
+    const contract = warp.contract(contractTxId).setEvaluationOptions({ useKVStorage: true, recordDiffs: true });
+    await contract.readState();
+
+    expect((await contract.getInteractionDiff(txId(2))).state).toEqual([
+      { op: 'add', path: '/values/1', value: 2 },
+      { op: 'replace', path: '/counter', value: 3 }
+    ]);
+    expect(await contract.getInteractionDiff(txId(5))).toBeNull();
+    expect((await contract.getInteractionDiffs(sortKey(2), sortKey(3))).map((diff) => diff.txId)).toEqual([
+      txId(2),
+      txId(3)
+    ]);
+
+    await contract.invalidateCacheFrom(sortKey(3));
+    expect((await contract.getInteractionDiffs()).map((diff) => diff.txId)).toEqual([txId(1), txId(2)]);
+  });
+
+  it('should not record the diffs by default', async () => {
+    const contract = warp.contract(contractTxId).setEvaluationOptions({ useKVStorage: true });
+    await contract.readState();
+
+    expect(await contract.getInteractionDiffs()).toEqual([]);
+    expect(contract.getCallStack().getInteraction(txId(1)).interactionOutput.diff).toBeUndefined();
+  });
+
+  it('should store the diffs together with the interaction state', async () => {
+    const diff = (i: number, valid: boolean): InteractionDiff => ({
+      contractTxId,
+      txId: txId(i),
+      sortKey: sortKey(i),
+      valid,
+      state: [],
+      kv: []
+    });
+    const interactionState = new ContractInteractionState(warp);
+
+    interactionState.addDiff(diff(1, true));
+    expect(await warp.diffCache.getLast(contractTxId)).toBeNull();
+    await interactionState.commit(interactions[0]);
+    expect((await warp.diffCache.getLast(contractTxId)).sortKey).toEqual(sortKey(1));
+
+    // the changes of the valid interactions are reverted by the rollback
+    interactionState.addDiff(diff(2, true));
+    interactionState.addDiff(diff(3, false));
+    await interactionState.rollback(interactions[2], false);
+    expect((await warp.diffCache.getLessOrEqual(contractTxId, sortKey(2))).sortKey).toEqual(sortKey(1));
+    expect((await warp.diffCache.getLast(contractTxId)).cachedValue.txId).toEqual(txId(3));
+
+    interactionState.addDiff(diff(4, true));
+    await interactionState.commit({ ...interactions[3], dry: true });
+    expect((await warp.diffCache.getLast(contractTxId)).sortKey).toEqual(sortKey(3));
+  });
+
+  it('should keep the cache options of the Warp', async () => {
+    const cacheOptions = { ...defaultCacheOptions, inMemory: true, dbLocation: './cache/custom' };
+    const custom = WarpFactory.custom(warp.arweave, cacheOptions, 'custom').useArweaveGateway(cacheOptions).build();
+
+    expect(custom.cacheOptions).toEqual(cacheOptions);
+    expect(new Warp(warp.arweave, null, null, null, null).cacheOptions).toBeNull();
+  });
+});
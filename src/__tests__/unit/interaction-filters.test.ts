@@ -0,0 +1,144 @@
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+import { InteractionFilterDeclaration, InteractionFilterInput } from '../../core/InteractionFilter';
+import { WarpPlugin, WarpPluginType } from '../../core/WarpPlugin';
+import { deployContract, interaction, mockInteractionsLoader, silenceLogs, txId } from './_helpers/fixtures';
+
+const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+
+const src = `export async function handle(state, action) {
+  state.counter += action.input.value;
+  return { state };
+}`;
+
+function filtered(i: number, caller: string, fee: string, bundler?: string): GQLNodeInterface {
+  return interaction(i, contractTxId, {
+    caller,
+    fee,
+    tags: bundler ? [{ name: 'Sequencer-Owner', value: bundler }] : []
+  });
+}
+
+const interactions = [
+  filtered(1, 'alice', '100'),
+  filtered(2, 'bob', '100', 'sequencer1'),
+  filtered(3, 'alice', '10', 'sequencer2'),
+  filtered(4, 'carol', '1000', 'sequencer1')
+];
+
+class OddValuesFilter implements WarpPlugin<InteractionFilterInput, string | null> {
+  process({ interaction }: InteractionFilterInput): string | null {
+    const { value } = JSON.parse(interaction.tags.find((tag) => tag.name == 'Input').value);
+    return value % 2 ? `Value ${value} is odd` : null;
+  }
+
+  type(): WarpPluginType {
+    return 'interaction-filter-odd';
+  }
+}
+
+describe('Interaction filters', () => {
+  let warp: Warp;
+
+  silenceLogs();
+
+  async function deploy(manifestFilters?: InteractionFilterDeclaration[]) {
+    await deployContract(
+      warp,
+      contractTxId,
+      src,
+      { counter: 0 },
+      manifestFilters ? { evaluationOptions: { interactionFilters: manifestFilters } } : undefined
+    );
+  }
+
+  beforeEach(async () => {
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true });
+    mockInteractionsLoader(warp, interactions);
+  });
+
+  afterEach(async () => {
+    await warp.close();
+  });
+
+  it('should evaluate all the interactions by default', async () => {
+    await deploy();
+    const { cachedValue } = await warp.contract<{ counter: number }>(contractTxId).readState();
+
+    expect(cachedValue.state.counter).toEqual(10);
+    expect(cachedValue.errorMessages).toEqual({});
+  });
+
+  it('should skip the interactions filtered out by the built-in filters', async () => {
+    await deploy();
+    const { cachedValue } = await warp
+      .contract<{ counter: number }>(contractTxId)
+      .setEvaluationOptions({
+        interactionFilters: [
+          { type: 'callers', exclude: ['bob'] },
+          { type: 'minFee', winston: '50' },
+          { type: 'bundlers', exclude: ['sequencer1'] }
+        ]
+      })
+      .readState();
+
+    expect(cachedValue.state.counter).toEqual(1);
+    expect(cachedValue.validity).toEqual({ [txId(1)]: true, [txId(2)]: false, [txId(3)]: false, [txId(4)]: false });
+    expect(cachedValue.errorMessages).toEqual({
+      [txId(2)]: "Interaction filtered out by the 'callers' filter: Caller bob is excluded",
+      [txId(3)]: "Interaction filtered out by the 'minFee' filter: Fee 10 is lower than 50",
+      [txId(4)]: "Interaction filtered out by the 'bundlers' filter: Bundler sequencer1 is excluded"
+    });
+  });
+
+  it('should apply the filters declared in the manifest', async () => {
+    await deploy([{ type: 'callers', exclude: ['alice'] }]);
+    const { cachedValue } = await warp.contract<{ counter: number }>(contractTxId).readState();
+    expect(cachedValue.state.counter).toEqual(6);
+
+    await expect(
+      warp
+        .contract(contractTxId)
+        .setEvaluationOptions({ interactionFilters: [{ type: 'callers', exclude: ['bob'] }] })
+        .readState()
+    ).rejects.toThrow('Option {interactionFilters} differs');
+  });
+
+  it('should apply the filters registered as plugins', async () => {
+    await deploy([{ type: 'odd' }]);
+    await expect(warp.contract(contractTxId).readState()).rejects.toThrow("Unknown interaction filter 'odd'");
+
+    warp.use(new OddValuesFilter());
+    const { cachedValue } = await warp.contract<{ counter: number }>(contractTxId).readState();
+    expect(cachedValue.state.counter).toEqual(6);
+    expect(cachedValue.errorMessages[txId(3)]).toEqual("Interaction filtered out by the 'odd' filter: Value 3 is odd");
+  });
+
+  it('should apply the filters to the internal writes', async () => {
+    await deploy([{ type: 'callers', exclude: ['bob'] }]);
+    const writerTxId = 'Wrt-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+    const writerSrc = `export async function handle(state, action) {
+      await SmartWeave.contracts.write('${contractTxId}', { function: 'add', value: 5 });
+      state.writes++;
+      return { state };
+    }`;
+    await deployContract(warp, writerTxId, writerSrc, { writes: 0 });
+    const write = interaction(5, writerTxId, {
+      caller: 'bob',
+      input: { function: 'write' },
+      tags: [{ name: 'Interact-Write', value: contractTxId }]
+    });
+    mockInteractionsLoader(warp, (txId: string) => (txId == writerTxId ? [write] : []));
+
+    const { cachedValue } = await warp
+      .contract<{ writes: number }>(writerTxId)
+      .setEvaluationOptions({ internalWrites: true })
+      .readState();
+
+    expect(cachedValue.state.writes).toEqual(0);
+    expect(cachedValue.errorMessages[txId(5)]).toContain(
+      "Interaction filtered out by the 'callers' filter: Caller bob is excluded"
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import path from 'path';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { ParallelStateReader, ReadStatesProgress } from '../../contract/parallel/ParallelStateReader';
+import { CustomEvent, EvalStateResult } from '../../core/modules/StateEvaluator';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { contractTxIds, interaction, mockContracts, sortKey } from './_helpers/readStatesWorkerSetup';
+
+describe('Parallel state reader', () => {
+  let warp: Warp;
+
+  beforeAll(() => {
+    LoggerFactory.INST.logLevel('error');
+  });
+
+  beforeEach(async () => {
+    warp = await mockContracts(
+      WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }),
+      contractTxIds
+    );
+  });
+
+  it('should group the contracts connected by the internal writes', async () => {
+    const [a, b, c] = contractTxIds;
+    const d = 'Contract-D'.padEnd(43, '0');
+    const e = 'Contract-E'.padEnd(43, '0');
+    const other = 'Contract-Other'.padEnd(43, '0');
+    warp.interactionsLoader.load = async (txId: string) => {
+      if (txId == a) {
+        // 'a' writes to the contract that is not read
+        return [interaction(a, 1, other)];
+      }
+      if (txId == c) {
+        // a write-back from the same contract
+        return [interaction(c, 1), interaction(other, 2, c)];
+      }
+      return [interaction(txId, 1)];
+    };
+
+    const groups = await new ParallelStateReader(warp).groupContracts([a, b, c, d, e], { groups: [[b, e]] });
+
+    expect(groups).toEqual([[a, c], [b, e], [d]]);
+  });
+
+  it('should read the states in the worker threads', async () => {
+    // the cached state is used by the workers
+    await warp.stateEvaluator
+      .getCache()
+      .put(new CacheKey(contractTxIds[1], sortKey(2)), new EvalStateResult({ counter: 100 }, {}, {}));
+    const progress: ReadStatesProgress[] = [];
+    warp.eventTarget.addEventListener('readStatesProgress', (event: CustomEvent<ReadStatesProgress>) =>
+      progress.push(event.detail)
+    );
+
+    const results = await new ParallelStateReader(warp).readStates([...contractTxIds, contractTxIds[0]], {
+      concurrency: 2,
+      workerModule: path.join(__dirname, '_helpers', 'readStatesWorkerSetup.ts')
+    });
+
+    expect(results.map((r) => r.contractTxId)).toEqual(contractTxIds);
+    expect(results[0].result.sortKey).toEqual(sortKey(3));
+    expect(results[0].result.cachedValue.state).toEqual({ counter: 6 });
+    expect(results[1].result.cachedValue.state).toEqual({ counter: 103 });
+    expect(results[2].result).toBeNull();
+    expect(results[2].error).toBeTruthy();
+
+    expect(progress.map((p) => p.completed)).toEqual([1, 2, 3]);
+    expect(progress.every((p) => p.total == 3)).toBeTruthy();
+    // the states are stored in the main thread's cache
+    expect((await warp.stateEvaluator.getCache().getLast(contractTxIds[0])).cachedValue.state).toEqual({ counter: 6 });
+  });
+
+  it('should require the worker module for the custom environment', async () => {
+    const custom = WarpFactory.custom(warp.arweave, { ...defaultCacheOptions, inMemory: true }, 'custom')
+      .useArweaveGateway({ ...defaultCacheOptions, inMemory: true })
+      .build();
+    await expect(new ParallelStateReader(custom).readStates(contractTxIds)).rejects.toThrow(
+      'Worker module is required'
+    );
+  });
+
+  it('should require the worker module for the contracts using the KV storage', async () => {
+    await expect(
+      new ParallelStateReader(warp).readStates(contractTxIds, { evaluationOptions: { useKVStorage: true } })
+    ).rejects.toThrow('Worker module with the KV storage factory is required');
+  });
+});
@@ -0,0 +1,188 @@
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { ContractCache, SrcCache } from '../../core/ContractDefinition';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { ReorgEvent } from '../../contract/reorg/ReorgDetector';
+import {
+  deployContract,
+  interaction as fixtureInteraction,
+  mockInteractionsLoader,
+  silenceLogs,
+  sortKey as fixtureSortKey
+} from './_helpers/fixtures';
+
+const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+const srcTxId = 'SrcTx-5HPd9t0c6QxrnS-qM1X8c8Vr4cF9mQaV1ai9j8';
+
+const src = `export async function handle(state, action) {
+  state.counter += action.input.value;
+  return { state };
+}`;
+
+// the interaction with the given value - in the block of the given fork at the height
+function interaction(value: number, height: number, fork: string): GQLNodeInterface {
+  return {
+    id: `tx${value}`.padEnd(43, '0'),
+    sortKey: `${height}`.padStart(12, '0') + ',0000000000000,' + `${fork}${value}`.padStart(64, '0'),
+    owner: { address: 'owner' },
+    recipient: '',
+    tags: [
+      { name: 'App-Name', value: 'SmartWeaveAction' },
+      { name: 'Contract', value: contractTxId },
+      { name: 'Input', value: JSON.stringify({ function: 'add', value }) }
+    ],
+    block: {
+      height,
+      id: `block-${fork}${height}`,
+      timestamp: 1000 + height,
+      previous: `block-${height == 2 ? 'a' : fork}${height - 1}`
+    },
+    fee: { winston: '0', ar: '0' },
+    quantity: { winston: '0', ar: '0' }
+  } as GQLNodeInterface;
+}
+
+describe('Reorg detection', () => {
+  let warp: Warp;
+  let chain: GQLNodeInterface[];
+  let events: ReorgEvent[];
+
+  beforeAll(() => {
+    LoggerFactory.INST.logLevel('error');
+  });
+
+  beforeEach(async () => {
+    chain = [interaction(1, 1, 'a'), interaction(2, 2, 'a'), interaction(3, 3, 'a')];
+    // the block cache is created from the in-memory cache options
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useReorgDetection();
+    events = [];
+    warp.eventTarget.addEventListener('reorgDetected', (event: CustomEvent<ReorgEvent>) => events.push(event.detail));
+    jest
+      .spyOn(warp.interactionsLoader, 'load')
+      .mockImplementation(async (txId: string, fromSortKey?: string, toSortKey?: string) =>
+        chain.filter(
+          (i) =>
+            (!fromSortKey || i.sortKey.localeCompare(fromSortKey) > 0) &&
+            (!toSortKey || i.sortKey.localeCompare(toSortKey) <= 0)
+        )
+      );
+
+    await warp.definitionLoader.getCache().put(new CacheKey(contractTxId, 'cd'), {
+      txId: contractTxId,
+      srcTxId,
+      initState: { counter: 0 },
+      owner: 'owner',
+      minFee: '0',
+      contractType: 'js',
+      testnet: null
+    } as ContractCache<unknown>);
+    await warp.definitionLoader
+      .getSrcCache()
+      .put(new CacheKey(srcTxId, 'src'), { src, srcBinary: null, srcWasmLang: null } as SrcCache);
+
+    const { cachedValue } = await warp.contract<{ counter: number }>(contractTxId).readState();
+    expect(cachedValue.state.counter).toEqual(6);
+  });
+
+  afterEach(async () => {
+    await warp.close();
+  });
+
+  it('should not report the unchanged chain', async () => {
+    chain.push(interaction(4, 4, 'a'));
+
+    const { cachedValue } = await warp.contract<{ counter: number }>(contractTxId).readState();
+    expect(cachedValue.state.counter).toEqual(10);
+    expect(events).toEqual([]);
+  });
+
+  it('should roll back the caches and re-evaluate the state on the canonical chain', async () => {
+    const orphanedSortKey = chain[2].sortKey;
+    chain = [interaction(1, 1, 'a'), interaction(2, 2, 'b'), interaction(4, 4, 'b')];
+
+    const { sortKey, cachedValue } = await warp.contract<{ counter: number }>(contractTxId).readState();
+    expect(events).toEqual([
+      expect.objectContaining({
+        contractTxId,
+        height: 2,
+        orphanedBlockId: 'block-a2',
+        canonicalBlockId: 'block-b2'
+      })
+    ]);
+    expect(sortKey).toEqual(chain[2].sortKey);
+    expect(cachedValue.state.counter).toEqual(7);
+    expect(await warp.stateEvaluator.getCache().get(new CacheKey(contractTxId, orphanedSortKey))).toBeNull();
+
+    // the new blocks are tracked
+    await warp.contract(contractTxId).readState();
+    expect(events.length).toEqual(1);
+  });
+
+  it('should detect the interactions removed from the chain', async () => {
+    chain = [interaction(1, 1, 'a'), interaction(2, 2, 'a')];
+
+    const { cachedValue } = await warp.contract<{ counter: number }>(contractTxId).readState();
+    expect(events).toEqual([
+      expect.objectContaining({ height: 3, orphanedBlockId: 'block-a3', canonicalBlockId: null })
+    ]);
+    expect(cachedValue.state.counter).toEqual(3);
+  });
+});
+
+describe('Reorg detection with internal writes', () => {
+  const writerTxId = 'Wrt-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+  const writerSrc = `export async function handle(state, action) {
+  await SmartWeave.contracts.write('${contractTxId}', { function: 'add', value: action.input.value });
+  state.writes++;
+  return { state };
+}`;
+
+  let warp: Warp;
+  let chain: GQLNodeInterface[];
+  let events: ReorgEvent[];
+
+  silenceLogs();
+
+  const write = (i: number) =>
+    fixtureInteraction(i, writerTxId, {
+      input: { function: 'write', value: i },
+      tags: [{ name: 'Interact-Write', value: contractTxId }]
+    });
+
+  beforeEach(async () => {
+    chain = [write(1), write(2)];
+    warp = WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useReorgDetection();
+    events = [];
+    warp.eventTarget.addEventListener('reorgDetected', (event: CustomEvent<ReorgEvent>) => events.push(event.detail));
+    // the writes are loaded for both contracts
+    mockInteractionsLoader(warp, () => chain);
+
+    await deployContract(warp, contractTxId, src, { counter: 0 });
+    await deployContract(warp, writerTxId, writerSrc, { writes: 0 });
+
+    await warp.contract(writerTxId).setEvaluationOptions({ internalWrites: true }).readState();
+    expect((await warp.stateEvaluator.getCache().getLast(contractTxId)).cachedValue.state).toEqual({ counter: 3 });
+  });
+
+  afterEach(async () => {
+    await warp.close();
+  });
+
+  it('should roll back the caches of the contracts written by the orphaned interactions', async () => {
+    chain = [write(1)];
+
+    const { cachedValue } = await warp
+      .contract<{ writes: number }>(writerTxId)
+      .setEvaluationOptions({ internalWrites: true })
+      .readState();
+    expect(events).toEqual([
+      expect.objectContaining({ contractTxId: writerTxId, height: 2, invalidatedContracts: [contractTxId] })
+    ]);
+    expect(cachedValue.state.writes).toEqual(1);
+
+    expect(await warp.stateEvaluator.getCache().get(new CacheKey(contractTxId, fixtureSortKey(2)))).toBeNull();
+    expect((await warp.stateEvaluator.getCache().getLast(contractTxId)).cachedValue.state).toEqual({ counter: 1 });
+  });
+});
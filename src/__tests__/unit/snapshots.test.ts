@@ -0,0 +1,156 @@
+import { Buffer } from 'warp-isomorphic';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { Warp } from '../../core/Warp';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { CacheKey } from '../../cache/SortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+import { ContractCache, ContractDefinition, SrcCache } from '../../core/ContractDefinition';
+
+const contractTxId = 'Daj-MNSnH55TDfxqC7v4eq0lKzVIwh98srUaWqyuZtY';
+const srcTxId = 'SrcTx-5HPd9t0c6QxrnS-qM1X8c8Vr4cF9mQaV1ai9j8';
+
+const src = 'export function handle() {}';
+
+async function cacheDefinition(warp: Warp, contractSrc = src) {
+  await warp.definitionLoader.getCache().put(new CacheKey(contractTxId, 'cd'), {
+    txId: contractTxId,
+    srcTxId,
+    initState: { counter: 0 }
+  } as ContractCache<unknown>);
+  await warp.definitionLoader.getSrcCache().put(new CacheKey(srcTxId, 'src'), { src: contractSrc } as SrcCache);
+}
+
+function createWarp(): Warp {
+  const kvStorages: Map<string, LevelDbCache<unknown>> = new Map();
+  return WarpFactory.forLocal(1984, undefined, { ...defaultCacheOptions, inMemory: true }).useKVStorageFactory(
+    (txId: string) => {
+      if (!kvStorages.has(txId)) {
+        kvStorages.set(txId, new LevelDbCache({ ...defaultCacheOptions, inMemory: true }));
+      }
+      return kvStorages.get(txId);
+    }
+  );
+}
+
+describe('Snapshots', () => {
+  let source: Warp;
+
+  beforeEach(async () => {
+    source = createWarp();
+    await cacheDefinition(source);
+
+    await source.stateEvaluator
+      .getCache()
+      .put(new CacheKey(contractTxId, '000000000001'), new EvalStateResult({ counter: 1 }, { tx1: true }, {}));
+    await source.stateEvaluator
+      .getCache()
+      .put(
+        new CacheKey(contractTxId, '000000000002'),
+        new EvalStateResult({ counter: 2 }, { tx1: true, tx2: true }, {})
+      );
+
+    const kv = source.kvStorageFactory(contractTxId);
+    await kv.open();
+    await kv.put(new CacheKey('a', '000000000001'), 'a1');
+    await kv.put(new CacheKey('a', '000000000002'), 'a2');
+    await kv.put(new CacheKey('b', '000000000002'), 'b2');
+    await kv.close();
+  });
+
+  it('should export and import the state', async () => {
+    const archive = await source.snapshots.export(contractTxId);
+
+    const target = createWarp();
+    await cacheDefinition(target);
+    const imported = await target.snapshots.import(archive);
+
+    expect(imported.sortKey).toEqual('000000000002');
+    expect((await target.stateEvaluator.getCache().getLast(contractTxId)).cachedValue.state).toEqual({ counter: 2 });
+    expect(
+      (await target.definitionLoader.getCache().get(new CacheKey(contractTxId, 'cd'))).cachedValue.srcTxId
+    ).toEqual(srcTxId);
+    expect((await target.definitionLoader.getSrcCache().get(new CacheKey(srcTxId, 'src'))).cachedValue.src).toEqual(
+      'export function handle() {}'
+    );
+
+    const kv = target.kvStorageFactory(contractTxId);
+    await kv.open();
+    expect(await kv.kvMap('000000000002')).toEqual(
+      new Map([
+        ['a', 'a2'],
+        ['b', 'b2']
+      ])
+    );
+    await kv.close();
+  });
+
+  it('should export the state as of the given sortKey', async () => {
+    const snapshot = await source.snapshots.verify(await source.snapshots.export(contractTxId, '000000000001'));
+
+    expect(snapshot.manifest.sortKey).toEqual('000000000001');
+    expect(snapshot.state.state).toEqual({ counter: 1 });
+    expect(snapshot.kv).toEqual([['a', 'a1']]);
+  });
+
+  it('should throw if there is no cached state', async () => {
+    await expect(source.snapshots.export(contractTxId, '000000000000')).rejects.toThrow('No state cached');
+  });
+
+  it('should refuse to import a tampered archive', async () => {
+    const archive = await source.snapshots.export(contractTxId);
+
+    const tamperedState = JSON.parse(archive.toString('utf-8'));
+    tamperedState.state.state.counter = 100;
+    await expect(createWarp().snapshots.import(Buffer.from(JSON.stringify(tamperedState), 'utf-8'))).rejects.toThrow(
+      'State hash mismatch'
+    );
+
+    const tamperedKv = JSON.parse(archive.toString('utf-8'));
+    tamperedKv.kv[0][1] = 'x';
+    await expect(createWarp().snapshots.import(Buffer.from(JSON.stringify(tamperedKv), 'utf-8'))).rejects.toThrow(
+      'KV storage hash mismatch'
+    );
+
+    const tamperedValidity = JSON.parse(archive.toString('utf-8'));
+    tamperedValidity.state.validity.tx1 = false;
+    await expect(createWarp().snapshots.import(Buffer.from(JSON.stringify(tamperedValidity), 'utf-8'))).rejects.toThrow(
+      'State hash mismatch'
+    );
+
+    const tamperedSource = JSON.parse(archive.toString('utf-8'));
+    tamperedSource.sources[srcTxId].src = 'export function handle() { steal(); }';
+    await expect(createWarp().snapshots.import(Buffer.from(JSON.stringify(tamperedSource), 'utf-8'))).rejects.toThrow(
+      `Contract source ${srcTxId} hash mismatch`
+    );
+  });
+
+  it('should refuse to import the definition not matching the loaded one', async () => {
+    const archive = await source.snapshots.export(contractTxId);
+
+    const target = createWarp();
+    await cacheDefinition(target, 'export function handle() { return { state: {} }; }');
+    await expect(target.snapshots.import(archive)).rejects.toThrow(`Contract source ${srcTxId} does not match`);
+    expect(await target.stateEvaluator.getCache().getLast(contractTxId)).toBeNull();
+    expect((await target.definitionLoader.getSrcCache().get(new CacheKey(srcTxId, 'src'))).cachedValue.src).not.toEqual(
+      src
+    );
+  });
+
+  it('should load the definition that is not cached', async () => {
+    const archive = await source.snapshots.export(contractTxId);
+
+    const target = createWarp();
+    const load = jest.spyOn(target.definitionLoader, 'load').mockImplementation(
+      async () =>
+        ({
+          txId: contractTxId,
+          srcTxId,
+          initState: { counter: 0 },
+          src
+        } as ContractDefinition<unknown>)
+    );
+
+    expect((await target.snapshots.import(archive)).cachedValue.state).toEqual({ counter: 2 });
+    expect(load).toHaveBeenCalledWith(contractTxId, undefined);
+  });
+});
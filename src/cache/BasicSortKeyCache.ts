@@ -1,4 +1,14 @@
 import { CacheKey, PruneStats, SortKeyCacheResult } from './SortKeyCache';
+import { RetentionPolicy } from './RetentionPolicy';
+
+/**
+ * A handle of the transaction savepoint - returned by the {@link BasicSortKeyCache.begin}.
+ * @param depth - 0 for the outermost transaction, higher for the nested savepoints
+ */
+export interface Savepoint {
+  readonly id: number;
+  readonly depth: number;
+}
 
 /**
  * A cache that stores its values per dedicated key and sort key.
@@ -36,16 +46,43 @@ export interface BasicSortKeyCache<V> {
    */
   delete(key: string): Promise<void>;
 
+  /**
+   * removes the values stored under a specified key with the sortKey higher or equal to the given one
+   * - e.g. after discovering a bad interaction, so that the state could be re-evaluated from that point.
+   * Optional - see {@link invalidateKeyFrom} for the fallback.
+   *
+   * @return number of the removed entries
+   */
+  invalidateFrom?(key: string, sortKey: string): Promise<number>;
+
   open(): Promise<void>;
 
   close(): Promise<void>;
 
-  begin(): Promise<void>;
+  /**
+   * begins the transaction - or, if the transaction is already active and the cache supports savepoints,
+   * creates a nested savepoint.
+   *
+   * @return the handle of the created savepoint - only for the caches that support savepoints
+   */
+  begin(): Promise<Savepoint | void>;
 
   rollback(): Promise<void>;
 
   commit(): Promise<void>;
 
+  /**
+   * reverts all the changes made since the savepoint has been created and releases it (together with all the
+   * savepoints nested in it). Rolling back to the outermost savepoint is equal to the {@link rollback}.
+   */
+  rollbackTo?(savepoint: Savepoint): Promise<void>;
+
+  /**
+   * releases the savepoint (together with all the savepoints nested in it) - its changes become a part of the
+   * enclosing savepoint. Releasing the outermost savepoint is equal to the {@link commit}.
+   */
+  release?(savepoint: Savepoint): Promise<void>;
+
   /**
    * used mostly for debugging, allows to dump the current content cache
    * It's slow.
@@ -68,4 +105,33 @@ export interface BasicSortKeyCache<V> {
    * @retun PruneStats if getting them doesn't introduce a delay, null otherwise
    */
   prune(entriesStored: number): Promise<PruneStats | null>;
+
+  /**
+   * removes the entries not retained by the given {@link RetentionPolicy} - for each cached key.
+   * The entry with the latest sort key is always retained.
+   *
+   * @param retention - the retention policy or the number of latest (in lexicographic order) entries
+   * that should be left for each cached key
+   *
+   * @return PruneStats if getting them doesn't introduce a delay, null otherwise
+   */
+  prune(retention: number | RetentionPolicy): Promise<PruneStats | null>;
+}
+
+/**
+ * Calls the {@link BasicSortKeyCache.invalidateFrom} - or, if the cache does not implement it,
+ * removes all the values stored under the key (so that e.g. the state is re-evaluated from scratch).
+ *
+ * @return number of the removed entries - or null, if the cache does not implement the invalidateFrom
+ */
+export async function invalidateKeyFrom(
+  cache: BasicSortKeyCache<unknown>,
+  key: string,
+  sortKey: string
+): Promise<number | null> {
+  if (cache.invalidateFrom) {
+    return await cache.invalidateFrom(key, sortKey);
+  }
+  await cache.delete(key);
+  return null;
 }
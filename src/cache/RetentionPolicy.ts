@@ -0,0 +1,227 @@
+/**
+ * Decides which entries should be left in the cache during the {@link BasicSortKeyCache.prune}.
+ * The policy is applied separately for each cached key.
+ *
+ * Note: regardless of the policy, the entry with the latest sortKey is always retained for each key -
+ * as it holds the current value.
+ */
+export interface RetentionPolicy {
+  /**
+   * @param key - the cached key (e.g. contract tx id)
+   * @param sortKeys - all the sortKeys stored for the key - sorted in the ascending (lexicographical) order
+   *
+   * @returns the sortKeys that should be retained
+   */
+  retain(key: string, sortKeys: string[]): Set<string>;
+}
+
+/**
+ * Keeps n-latest entries - the default behaviour of the {@link BasicSortKeyCache.prune}.
+ */
+export class LatestEntriesRetention implements RetentionPolicy {
+  readonly entriesStored: number;
+
+  constructor(entriesStored: number) {
+    this.entriesStored = !entriesStored || entriesStored <= 0 ? 1 : entriesStored;
+  }
+
+  retain(key: string, sortKeys: string[]): Set<string> {
+    return new Set(sortKeys.slice(-this.entriesStored));
+  }
+}
+
+/**
+ * Keeps one checkpoint every 'interval' stored entries - starting from the oldest one.
+ *
+ * Note: the entries are counted within the currently stored entries - i.e. each subsequent
+ * prune with this policy thins out the previously left checkpoints.
+ * Use the {@link BlockHeightCheckpointRetention} if the policy is applied periodically.
+ */
+export class SortKeyCheckpointRetention implements RetentionPolicy {
+  constructor(readonly interval: number) {
+    if (!interval || interval <= 0) {
+      throw new Error(`Checkpoint interval must be a positive number, got ${interval}`);
+    }
+  }
+
+  retain(key: string, sortKeys: string[]): Set<string> {
+    return new Set(sortKeys.filter((_, i) => i % this.interval == 0));
+  }
+}
+
+/**
+ * Keeps one checkpoint (the entry with the lowest sortKey) for every 'interval' block heights -
+ * i.e. within each [n * interval, (n + 1) * interval) range of block heights.
+ */
+export class BlockHeightCheckpointRetention implements RetentionPolicy {
+  constructor(readonly interval: number) {
+    if (!interval || interval <= 0) {
+      throw new Error(`Checkpoint interval must be a positive number, got ${interval}`);
+    }
+  }
+
+  retain(key: string, sortKeys: string[]): Set<string> {
+    const result = new Set<string>();
+    let lastBucket: number = null;
+    for (const sortKey of sortKeys) {
+      const blockHeight = extractBlockHeight(sortKey);
+      if (blockHeight == null) {
+        continue;
+      }
+      const bucket = Math.floor(blockHeight / this.interval);
+      if (bucket !== lastBucket) {
+        result.add(sortKey);
+        lastBucket = bucket;
+      }
+    }
+    return result;
+  }
+}
+
+/**
+ * Keeps all the entries with the block height higher than the given one.
+ */
+export class NewerThanBlockHeightRetention implements RetentionPolicy {
+  constructor(readonly blockHeight: number) {}
+
+  retain(key: string, sortKeys: string[]): Set<string> {
+    return new Set(sortKeys.filter((sortKey) => extractBlockHeight(sortKey) > this.blockHeight));
+  }
+}
+
+/**
+ * Keeps the explicitly pinned sortKeys - e.g. the ones referenced by the external systems.
+ */
+export class PinnedSortKeysRetention implements RetentionPolicy {
+  readonly pinned: Set<string>;
+
+  constructor(pinned: string[]) {
+    this.pinned = new Set(pinned);
+  }
+
+  retain(key: string, sortKeys: string[]): Set<string> {
+    return new Set(sortKeys.filter((sortKey) => this.pinned.has(sortKey)));
+  }
+}
+
+/**
+ * Keeps an entry if it is retained by any of the given policies, e.g.
+ * new CompositeRetention(new LatestEntriesRetention(5), new BlockHeightCheckpointRetention(1000))
+ */
+export class CompositeRetention implements RetentionPolicy {
+  readonly policies: RetentionPolicy[];
+
+  constructor(...policies: RetentionPolicy[]) {
+    this.policies = policies;
+  }
+
+  retain(key: string, sortKeys: string[]): Set<string> {
+    const result = new Set<string>();
+    for (const policy of this.policies) {
+      policy.retain(key, sortKeys).forEach((sortKey) => result.add(sortKey));
+    }
+    return result;
+  }
+}
+
+/**
+ * Keeps the explicitly listed sortKeys of each key - the keys not listed are not pruned at all.
+ * Used to apply the retention policies computed elsewhere (e.g. by the {@link RemoteSortKeyCache} client).
+ */
+export class RetainedSortKeysRetention implements RetentionPolicy {
+  constructor(readonly retained: Record<string, string[]>) {}
+
+  retain(key: string, sortKeys: string[]): Set<string> {
+    return new Set(this.retained[key] ?? sortKeys);
+  }
+}
+
+/**
+ * A serializable description of the built-in retention policies - e.g. for sending them to the remote cache.
+ */
+export type RetentionPolicyDescriptor =
+  | { type: 'latest'; entriesStored: number }
+  | { type: 'sortKeyCheckpoint'; interval: number }
+  | { type: 'blockHeightCheckpoint'; interval: number }
+  | { type: 'newerThanBlockHeight'; blockHeight: number }
+  | { type: 'pinned'; sortKeys: string[] }
+  | { type: 'retained'; retained: Record<string, string[]> }
+  | { type: 'composite'; policies: RetentionPolicyDescriptor[] };
+
+/**
+ * @return the descriptor of the built-in policy - or null for the custom policies
+ */
+export function describeRetentionPolicy(policy: RetentionPolicy): RetentionPolicyDescriptor | null {
+  if (policy instanceof LatestEntriesRetention) {
+    return { type: 'latest', entriesStored: policy.entriesStored };
+  }
+  if (policy instanceof SortKeyCheckpointRetention) {
+    return { type: 'sortKeyCheckpoint', interval: policy.interval };
+  }
+  if (policy instanceof BlockHeightCheckpointRetention) {
+    return { type: 'blockHeightCheckpoint', interval: policy.interval };
+  }
+  if (policy instanceof NewerThanBlockHeightRetention) {
+    return { type: 'newerThanBlockHeight', blockHeight: policy.blockHeight };
+  }
+  if (policy instanceof PinnedSortKeysRetention) {
+    return { type: 'pinned', sortKeys: Array.from(policy.pinned) };
+  }
+  if (policy instanceof RetainedSortKeysRetention) {
+    return { type: 'retained', retained: policy.retained };
+  }
+  if (policy instanceof CompositeRetention) {
+    const policies = policy.policies.map(describeRetentionPolicy);
+    return policies.includes(null) ? null : { type: 'composite', policies };
+  }
+  return null;
+}
+
+export function retentionPolicyFromDescriptor(descriptor: RetentionPolicyDescriptor): RetentionPolicy {
+  switch (descriptor.type) {
+    case 'latest':
+      return new LatestEntriesRetention(descriptor.entriesStored);
+    case 'sortKeyCheckpoint':
+      return new SortKeyCheckpointRetention(descriptor.interval);
+    case 'blockHeightCheckpoint':
+      return new BlockHeightCheckpointRetention(descriptor.interval);
+    case 'newerThanBlockHeight':
+      return new NewerThanBlockHeightRetention(descriptor.blockHeight);
+    case 'pinned':
+      return new PinnedSortKeysRetention(descriptor.sortKeys);
+    case 'retained':
+      return new RetainedSortKeysRetention(descriptor.retained);
+    case 'composite':
+      return new CompositeRetention(...descriptor.policies.map(retentionPolicyFromDescriptor));
+    default:
+      throw new Error(`Unknown retention policy ${JSON.stringify(descriptor)}`);
+  }
+}
+
+/**
+ * Converts the value passed to the {@link BasicSortKeyCache.prune} into a {@link RetentionPolicy}
+ * - a number is interpreted as the number of the latest entries to keep.
+ */
+export function toRetentionPolicy(retention: number | RetentionPolicy): RetentionPolicy {
+  return typeof retention === 'number' || retention == null
+    ? new LatestEntriesRetention(retention as number)
+    : retention;
+}
+
+/**
+ * Returns the sortKeys that should be removed for the given key - the latest sortKey is never removed.
+ *
+ * @param sortKeys - all the sortKeys stored for the key - sorted in the ascending order
+ */
+export function sortKeysToRemove(policy: RetentionPolicy, key: string, sortKeys: string[]): string[] {
+  if (sortKeys.length <= 1) {
+    return [];
+  }
+  const retained = policy.retain(key, sortKeys);
+  return sortKeys.slice(0, -1).filter((sortKey) => !retained.has(sortKey));
+}
+
+function extractBlockHeight(sortKey: string): number | null {
+  const blockHeight = parseInt(sortKey.split(',')[0]);
+  return Number.isNaN(blockHeight) ? null : blockHeight;
+}
@@ -1,5 +1,6 @@
 import { SortKeyCacheRangeOptions } from './SortKeyCacheRangeOptions';
 import { BasicSortKeyCache } from './BasicSortKeyCache';
+import { SortKeyCacheIterator, SortKeyCacheIteratorOptions } from './SortKeyCacheIterator';
 
 /**
  * Key-value cache storage.
@@ -30,6 +31,92 @@ export interface SortKeyCache<V> extends BasicSortKeyCache<V> {
    * Returns a key value map for a specified range
    */
   kvMap(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<Map<string, V>>;
+
+  /**
+   * Streaming version of the {@link keys} - the keys are loaded lazily,
+   * so that the ranges with large number of keys could be processed.
+   * Optional - see {@link keysIterator} for the fallback based on the {@link kvMap}.
+   */
+  keysIterator?(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<string>;
+
+  /**
+   * Streaming version of the {@link kvMap}.
+   * Optional - see {@link entriesIterator} for the fallback based on the {@link kvMap}.
+   */
+  entriesIterator?(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<[string, V]>;
+
+  /**
+   * removes the values of all the keys with the sortKey higher or equal to the given one
+   * (see {@link BasicSortKeyCache.invalidateFrom}) - e.g. for the contract's KV storage.
+   * Note: unlike the {@link del}, the values are removed, not marked as deleted.
+   * Optional - see {@link invalidateAllKeysFrom}.
+   *
+   * @return number of the removed entries
+   */
+  invalidateAllFrom?(sortKey: string): Promise<number>;
+
+  /**
+   * Returns all the versions of the value stored under the given key - including the deletions
+   * (see {@link del}) - ordered by their sortKeys.
+   * Optional - see {@link keyHistory} for the fallback.
+   */
+  history?(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<V>[]>;
+}
+
+/**
+ * Options for the {@link SortKeyCache.history}
+ * @param fromSortKey - inclusive
+ * @param toSortKey - inclusive
+ * @param limit - max. number of the returned versions - starting from the oldest (or the newest, if reversed)
+ * @param reverse - returns the newest versions first
+ */
+export interface KeyHistoryOptions {
+  fromSortKey?: string;
+  toSortKey?: string;
+  limit?: number;
+  reverse?: boolean;
+}
+
+export interface KeyVersion<V> {
+  sortKey: string;
+  // null for the deletions
+  value: V | null;
+  deleted: boolean;
+}
+
+/**
+ * Returns the {@link SortKeyCache.history} of the key - or, if the cache does not implement it,
+ * only the latest version in the requested range (the deletions are not returned).
+ */
+export async function keyHistory<V>(
+  cache: SortKeyCache<V>,
+  key: string,
+  options?: KeyHistoryOptions
+): Promise<KeyVersion<V>[]> {
+  if (cache.history) {
+    return await cache.history(key, options);
+  }
+  const latest = options?.toSortKey ? await cache.getLessOrEqual(key, options.toSortKey) : await cache.getLast(key);
+  if (latest == null || options?.limit === 0 || (options?.fromSortKey && latest.sortKey < options.fromSortKey)) {
+    return [];
+  }
+  return [{ sortKey: latest.sortKey, value: latest.cachedValue, deleted: false }];
+}
+
+/**
+ * Calls the {@link SortKeyCache.invalidateAllFrom} - throws, if the cache does not implement it
+ * (the values of the keys cannot be removed without the knowledge of all the stored keys).
+ * Use {@link supportsInvalidateAllFrom} to check it upfront.
+ */
+export async function invalidateAllKeysFrom(cache: SortKeyCache<unknown>, sortKey: string): Promise<number> {
+  if (!supportsInvalidateAllFrom(cache)) {
+    throw new Error(`Cache ${cache?.constructor?.name} does not support the invalidation of all the keys`);
+  }
+  return await cache.invalidateAllFrom(sortKey);
+}
+
+export function supportsInvalidateAllFrom(cache: SortKeyCache<unknown>): boolean {
+  return typeof cache.invalidateAllFrom === 'function';
 }
 
 export interface PruneStats {
@@ -0,0 +1,25 @@
+import { CacheOptions } from '../core/WarpFactory';
+import { isBrowser } from '../utils/utils';
+import { SortKeyCache } from './SortKeyCache';
+import { LevelDbCache } from './impl/LevelDbCache';
+import { IndexedDbCache } from './impl/IndexedDbCache';
+import { EncryptedSortKeyCache } from './impl/EncryptedSortKeyCache';
+
+/**
+ * Creates the {@link SortKeyCache} implementation that should be used for given {@link CacheOptions}
+ * - i.e. the {@link IndexedDbCache} if running in a browser (unless {@link CacheOptions.useIndexedDbInBrowser}
+ * is set to false or the cache is in-memory), the {@link LevelDbCache} otherwise.
+ * If {@link CacheOptions.encryption} is set, the cache is wrapped with the {@link EncryptedSortKeyCache}.
+ */
+export function createSortKeyCache<V>(cacheOptions: CacheOptions): SortKeyCache<V> {
+  if (cacheOptions.encryption) {
+    return new EncryptedSortKeyCache<V>(
+      createSortKeyCache<string>({ ...cacheOptions, encryption: undefined }),
+      cacheOptions.encryption
+    );
+  }
+  if (cacheOptions.useIndexedDbInBrowser !== false && !cacheOptions.inMemory && isBrowser()) {
+    return new IndexedDbCache<V>(cacheOptions);
+  }
+  return new LevelDbCache<V>(cacheOptions);
+}
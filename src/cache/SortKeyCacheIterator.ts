@@ -0,0 +1,130 @@
+import { SortKeyCacheRangeOptions } from './SortKeyCacheRangeOptions';
+import { SortKeyCache } from './SortKeyCache';
+
+/**
+ * Options for the streaming range queries ({@link SortKeyCache.keysIterator}, {@link SortKeyCache.entriesIterator}).
+ * @param prefix - returns only the keys starting with the prefix
+ * @param cursor - resumes the iteration right after the position returned by the {@link SortKeyCacheIterator.cursor}
+ * of the previous iterator (created with the same range options)
+ */
+export interface SortKeyCacheIteratorOptions extends SortKeyCacheRangeOptions {
+  prefix?: string;
+  cursor?: string;
+}
+
+/**
+ * An async iterator over the cache keys - the items are loaded lazily, one by one.
+ */
+export interface SortKeyCacheIterator<T> extends AsyncIterableIterator<T> {
+  /**
+   * the position of the lastly returned item - null, if no items have been returned yet.
+   * Passing it in the {@link SortKeyCacheIteratorOptions.cursor} allows to resume the iteration
+   * (e.g. in the next interaction).
+   */
+  readonly cursor: string | null;
+
+  /**
+   * releases the underlying resources - required only if the iteration is stopped
+   * before all the items are returned and not within the 'for await' loop.
+   */
+  return(): Promise<IteratorResult<T>>;
+}
+
+/**
+ * Wraps the generator of the [key, value] pairs - the key of the lastly returned item is used as the cursor.
+ */
+export class CursorIterator<V, T> implements SortKeyCacheIterator<T> {
+  private _cursor: string = null;
+  private returned = 0;
+
+  constructor(
+    private readonly entries: AsyncGenerator<[string, V]>,
+    private readonly item: (key: string, value: V) => T,
+    private readonly limit?: number
+  ) {}
+
+  get cursor(): string | null {
+    return this._cursor;
+  }
+
+  async next(): Promise<IteratorResult<T>> {
+    if (this.limit && this.returned >= this.limit) {
+      return await this.return();
+    }
+    const result = await this.entries.next();
+    if (result.done) {
+      return { done: true, value: undefined };
+    }
+    const [key, value] = result.value;
+    this.returned++;
+    this._cursor = key;
+    return { done: false, value: this.item(key, value) };
+  }
+
+  async return(): Promise<IteratorResult<T>> {
+    await this.entries.return(undefined);
+    return { done: true, value: undefined };
+  }
+
+  [Symbol.asyncIterator](): SortKeyCacheIterator<T> {
+    return this;
+  }
+}
+
+/**
+ * Streams the keys of the map returned by the kvMap function - for the caches that do not support
+ * the streaming range queries natively (i.e. all the entries in range are still loaded into memory at once).
+ */
+export async function* kvMapEntries<V>(
+  kvMap: (options: SortKeyCacheRangeOptions) => Promise<Map<string, V>>,
+  options?: SortKeyCacheIteratorOptions
+): AsyncGenerator<[string, V]> {
+  const entries = await kvMap({ gte: options?.gte, lt: options?.lt, reverse: options?.reverse });
+  for (const [key, value] of entries) {
+    if (options?.prefix && !key.startsWith(options.prefix)) {
+      continue;
+    }
+    if (options?.cursor && (options.reverse ? key >= options.cursor : key <= options.cursor)) {
+      continue;
+    }
+    yield [key, value];
+  }
+}
+
+/**
+ * Returns the {@link SortKeyCache.keysIterator} of the cache - or streams the keys of its {@link SortKeyCache.kvMap},
+ * if the cache does not implement the iterators.
+ */
+export function keysIterator(
+  cache: SortKeyCache<unknown>,
+  sortKey: string,
+  options?: SortKeyCacheIteratorOptions
+): SortKeyCacheIterator<string> {
+  if (cache.keysIterator) {
+    return cache.keysIterator(sortKey, options);
+  }
+  return new CursorIterator(
+    kvMapEntries((rangeOptions) => cache.kvMap(sortKey, rangeOptions), options),
+    (key) => key,
+    options?.limit
+  );
+}
+
+/**
+ * Returns the {@link SortKeyCache.entriesIterator} of the cache - or streams the entries of its {@link SortKeyCache.kvMap},
+ * if the cache does not implement the iterators.
+ */
+export function entriesIterator<V>(
+  cache: SortKeyCache<V>,
+  sortKey: string,
+  options?: SortKeyCacheIteratorOptions
+): SortKeyCacheIterator<[string, V]> {
+  if (cache.entriesIterator) {
+    return cache.entriesIterator(sortKey, options);
+  }
+  return new CursorIterator(
+    kvMapEntries((rangeOptions) => cache.kvMap(sortKey, rangeOptions), options),
+    (key, value): [string, V] => [key, value],
+    options?.limit
+  );
+}
@@ -0,0 +1,149 @@
+import { Packr } from 'msgpackr';
+import { Encoder } from 'cbor-x';
+
+export type ValueCodecName = 'json' | 'msgpack' | 'cbor';
+
+export type CompressionType = 'none' | 'gzip' | 'brotli';
+
+/**
+ * Serializes the values stored in the cache.
+ * Contrary to the JSON, the MessagePack and CBOR codecs preserve the BigInt and Map values.
+ */
+export interface ValueCodec {
+  readonly name: ValueCodecName;
+
+  encode(value: unknown): Uint8Array;
+
+  decode(data: Uint8Array): unknown;
+}
+
+export class JsonCodec implements ValueCodec {
+  readonly name = 'json';
+
+  encode(value: unknown): Uint8Array {
+    return new TextEncoder().encode(JSON.stringify(value));
+  }
+
+  decode(data: Uint8Array): unknown {
+    return JSON.parse(new TextDecoder().decode(data));
+  }
+}
+
+export class MsgPackCodec implements ValueCodec {
+  readonly name = 'msgpack';
+  private readonly packr = new Packr({ moreTypes: true, useBigIntExtension: true });
+
+  encode(value: unknown): Uint8Array {
+    return this.packr.pack(value);
+  }
+
+  decode(data: Uint8Array): unknown {
+    return this.packr.unpack(data);
+  }
+}
+
+export class CborCodec implements ValueCodec {
+  readonly name = 'cbor';
+  private readonly encoder = new Encoder({ mapsAsObjects: true, useRecords: false });
+
+  encode(value: unknown): Uint8Array {
+    return this.encoder.encode(value);
+  }
+
+  decode(data: Uint8Array): unknown {
+    return this.encoder.decode(data);
+  }
+}
+
+/**
+ * The ids of codecs and compression types are stored in the entry's marker - they must never change.
+ */
+const codecs: Record<ValueCodecName, { id: number; codec: ValueCodec }> = {
+  json: { id: 1, codec: new JsonCodec() },
+  msgpack: { id: 2, codec: new MsgPackCodec() },
+  cbor: { id: 3, codec: new CborCodec() }
+};
+
+const compressions: Record<CompressionType, number> = {
+  none: 0,
+  gzip: 1,
+  brotli: 2
+};
+
+// a valid JSON text never starts with the 0x00 byte - so the entries stored without
+// the marker (i.e. plain JSON, as written by the previous versions) can be easily recognized.
+const MARKER = 0x00;
+const HEADER_LENGTH = 3;
+
+/**
+ * Encodes the value with the given codec and compression - the encoded value is prefixed with a 3-bytes marker:
+ * [0x00, codec id, compression id].
+ * The only exception is the JSON codec without compression - in this case the plain JSON is stored
+ * (exactly as the previous versions did), so that such databases are still readable by the older versions.
+ */
+export function encodeValue(value: unknown, codecName: ValueCodecName, compression: CompressionType): Uint8Array {
+  if (!codecs[codecName]) {
+    throw new Error(`Unknown value codec ${codecName}`);
+  }
+  const { id, codec } = codecs[codecName];
+  if (compressions[compression] === undefined) {
+    throw new Error(`Unknown compression type ${compression}`);
+  }
+  const encoded = codec.encode(value);
+  if (codecName == 'json' && compression == 'none') {
+    return encoded;
+  }
+  const payload = compress(encoded, compression);
+  const result = new Uint8Array(HEADER_LENGTH + payload.length);
+  result.set([MARKER, id, compressions[compression]]);
+  result.set(payload, HEADER_LENGTH);
+  return result;
+}
+
+/**
+ * Decodes the value - the codec and compression are taken from the entry's marker, so the values
+ * stored with any codec (and the plain JSON values without the marker) can be read.
+ */
+export function decodeValue(data: Uint8Array): unknown {
+  if (data.length == 0 || data[0] !== MARKER) {
+    return codecs.json.codec.decode(data);
+  }
+  const codec = Object.values(codecs).find((c) => c.id === data[1])?.codec;
+  const compression = (Object.keys(compressions) as CompressionType[]).find((c) => compressions[c] === data[2]);
+  if (!codec || !compression) {
+    throw new Error(`Unknown value marker: codec ${data[1]}, compression ${data[2]}`);
+  }
+  return codec.decode(decompress(data.subarray(HEADER_LENGTH), compression));
+}
+
+function compress(data: Uint8Array, compression: CompressionType): Uint8Array {
+  switch (compression) {
+    case 'none':
+      return data;
+    case 'gzip':
+      return zlib('gzipSync')(data);
+    case 'brotli':
+      return zlib('brotliCompressSync')(data);
+  }
+}
+
+function decompress(data: Uint8Array, compression: CompressionType): Uint8Array {
+  switch (compression) {
+    case 'none':
+      return data;
+    case 'gzip':
+      return zlib('gunzipSync')(data);
+    case 'brotli':
+      return zlib('brotliDecompressSync')(data);
+  }
+}
+
+// in the browser env. the 'zlib' module is replaced by the polyfill from the web bundle - which does not support brotli
+function zlib(fnName: string): (data: Uint8Array) => Uint8Array {
+  // eslint-disable-next-line @typescript-eslint/no-var-requires
+  const fn = require('zlib')[fnName];
+  if (typeof fn !== 'function') {
+    throw new Error(`${fnName} is not available in this environment`);
+  }
+  return fn;
+}
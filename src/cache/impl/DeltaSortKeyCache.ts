@@ -0,0 +1,289 @@
+import { applyPatch, compare, Operation } from 'fast-json-patch';
+import { BasicSortKeyCache, invalidateKeyFrom } from '../BasicSortKeyCache';
+import { CacheKey, PruneStats, SortKeyCacheResult } from '../SortKeyCache';
+import { RetentionPolicy, sortKeysToRemove, toRetentionPolicy } from '../RetentionPolicy';
+import { SimpleLRUCache } from '../../common/SimpleLRUCache';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { deepCopy } from '../../utils/utils';
+import { asVerifiableCache, VerifiableCache } from '../verification/VerifiableCache';
+import { CacheWrapper } from '../migration/CacheMigration';
+
+/**
+ * An entry stored in the underlying cache by the {@link DeltaSortKeyCache}.
+ * A checkpoint (distance 0) holds the full value, all the other entries hold
+ * a JSON-patch (https://jsonpatch.com/) that transforms the value of the base checkpoint into the entry's value.
+ */
+export interface DeltaCacheEntry<V> {
+  // number of the entries stored since the base checkpoint
+  distance: number;
+  // checkpoints only
+  value?: V;
+  // deltas only - the sortKey of the checkpoint the patch should be applied to
+  base?: string;
+  // deltas only
+  patch?: Operation[];
+}
+
+/**
+ * A {@link BasicSortKeyCache} that stores full values only at the periodic checkpoints - every 'checkpointInterval'
+ * entries of a given key - and JSON-patch deltas in between.
+ * Useful with the {@link EvaluationOptions.updateCacheForEachInteraction} or
+ * {@link EvaluationOptions.cacheEveryNInteractions} - where storing a full copy of the state for each
+ * of the cached interactions might take a lot of space (e.g. PST contracts with lots of balances).
+ *
+ * Each delta is computed against its base checkpoint (and not the previous entry) - so rebuilding
+ * a value requires applying only a single patch and the entries can be stored in any order.
+ *
+ * Prune keeps the checkpoints of all the retained deltas - the delta is converted into a checkpoint
+ * if the policy does not retain its base checkpoint.
+ * Overwriting a checkpoint with a different value rebases the deltas based on it.
+ */
+export class DeltaSortKeyCache<V> implements BasicSortKeyCache<V>, VerifiableCache, CacheWrapper {
+  private readonly logger = LoggerFactory.INST.create('DeltaSortKeyCache');
+
+  // last read or written checkpoint for each key - used for computing deltas on put
+  private readonly checkpoints: SimpleLRUCache<string, SortKeyCacheResult<V>>;
+
+  constructor(
+    private readonly delegate: BasicSortKeyCache<DeltaCacheEntry<V>>,
+    readonly checkpointInterval: number = 10,
+    checkpointsCacheCapacity = 100
+  ) {
+    if (!checkpointInterval || checkpointInterval <= 0) {
+      throw new Error(`Checkpoint interval must be a positive number, got ${checkpointInterval}`);
+    }
+    this.checkpoints = new SimpleLRUCache(checkpointsCacheCapacity);
+  }
+
+  async get(cacheKey: CacheKey): Promise<SortKeyCacheResult<V> | null> {
+    return await this.decode(cacheKey.key, await this.delegate.get(cacheKey));
+  }
+
+  async getLast(key: string): Promise<SortKeyCacheResult<V> | null> {
+    return await this.decode(key, await this.delegate.getLast(key));
+  }
+
+  async getLessOrEqual(key: string, sortKey: string): Promise<SortKeyCacheResult<V> | null> {
+    return await this.decode(key, await this.delegate.getLessOrEqual(key, sortKey));
+  }
+
+  async getLastSortKey(): Promise<string | null> {
+    return await this.delegate.getLastSortKey();
+  }
+
+  async put(cacheKey: CacheKey, value: V): Promise<void> {
+    const previous = await this.delegate.getLessOrEqual(cacheKey.key, cacheKey.sortKey);
+
+    let base: string = null;
+    let distance = 0;
+    if (previous != null) {
+      const previousEntry = previous.cachedValue;
+      if (previousEntry.distance == 0) {
+        // overwriting a checkpoint leaves it as a checkpoint
+        base = previous.sortKey == cacheKey.sortKey ? null : previous.sortKey;
+        distance = base == null ? 0 : 1;
+        if (base == null) {
+          await this.rebaseDeltas(cacheKey, previousEntry.value, value);
+        }
+      } else {
+        base = previousEntry.base;
+        distance = previous.sortKey == cacheKey.sortKey ? previousEntry.distance : previousEntry.distance + 1;
+      }
+    }
+
+    if (base == null || distance >= this.checkpointInterval) {
+      await this.delegate.put(cacheKey, { distance: 0, value });
+      this.checkpoints.set(cacheKey.key, new SortKeyCacheResult(cacheKey.sortKey, deepCopy(value)));
+      return;
+    }
+
+    const checkpoint = await this.checkpoint(cacheKey.key, base);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const patch = compare(checkpoint as any, value as any);
+    await this.delegate.put(cacheKey, { distance, base, patch });
+  }
+
+  async delete(key: string): Promise<void> {
+    this.checkpoints.delete(key);
+    await this.delegate.delete(key);
+  }
+
+  /**
+   * The remaining deltas are always based on the remaining checkpoints - as the base checkpoint of each delta
+   * has a lower sortKey than the delta itself.
+   */
+  async invalidateFrom(key: string, sortKey: string): Promise<number | null> {
+    this.checkpoints.delete(key);
+    return await invalidateKeyFrom(this.delegate, key, sortKey);
+  }
+
+  async open(): Promise<void> {
+    await this.delegate.open();
+  }
+
+  async close(): Promise<void> {
+    await this.delegate.close();
+  }
+
+  async begin(): Promise<void> {
+    await this.delegate.begin();
+  }
+
+  async rollback(): Promise<void> {
+    this.checkpoints.clear();
+    await this.delegate.rollback();
+  }
+
+  async commit(): Promise<void> {
+    await this.delegate.commit();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async dump(): Promise<any> {
+    return await this.delegate.dump();
+  }
+
+  storage<S>(): S {
+    return this.delegate.storage<S>();
+  }
+
+  unwrap(): BasicSortKeyCache<DeltaCacheEntry<V>> {
+    return this.delegate;
+  }
+
+  /**
+   * The prune is performed in two passes over the underlying cache:
+   * 1. the first one only records the sortKeys (nothing is removed) - so that the retained deltas
+   * with the removed base checkpoints could be converted into checkpoints,
+   * 2. the second one removes the entries not retained by the policy.
+   */
+  async prune(retention: number | RetentionPolicy): Promise<PruneStats | null> {
+    const policy = toRetentionPolicy(retention);
+
+    const recorded: Map<string, string[]> = new Map();
+    await this.delegate.prune({
+      retain(key: string, sortKeys: string[]): Set<string> {
+        recorded.set(key, sortKeys);
+        return new Set(sortKeys);
+      }
+    });
+
+    const retainedPerKey: Map<string, Set<string>> = new Map();
+    for (const [key, sortKeys] of recorded) {
+      const toRemove = new Set(sortKeysToRemove(policy, key, sortKeys));
+      const retained = new Set(sortKeys.filter((sortKey) => !toRemove.has(sortKey)));
+      retainedPerKey.set(key, retained);
+
+      for (const sortKey of retained) {
+        const entry = await this.delegate.get(new CacheKey(key, sortKey));
+        if (entry && entry.cachedValue.distance > 0 && toRemove.has(entry.cachedValue.base)) {
+          const decoded = await this.decode(key, entry);
+          await this.delegate.put(new CacheKey(key, sortKey), { distance: 0, value: decoded.cachedValue });
+        }
+      }
+    }
+    this.checkpoints.clear();
+
+    return await this.delegate.prune({
+      retain(key: string, sortKeys: string[]): Set<string> {
+        return retainedPerKey.get(key) || new Set(sortKeys);
+      }
+    });
+  }
+
+  /**
+   * requires the underlying cache to be a {@link VerifiableCache}
+   */
+  async entryKeys(): Promise<CacheKey[]> {
+    return await asVerifiableCache(this.delegate).entryKeys();
+  }
+
+  /**
+   * Removing a checkpoint removes also all the deltas based on it - as they cannot be rebuilt anymore.
+   */
+  async removeEntries(cacheKeys: CacheKey[]): Promise<void> {
+    const delegate = asVerifiableCache(this.delegate);
+
+    const removedPerKey: Map<string, Set<string>> = new Map();
+    for (const { key, sortKey } of cacheKeys) {
+      if (!removedPerKey.has(key)) {
+        removedPerKey.set(key, new Set());
+      }
+      removedPerKey.get(key).add(sortKey);
+    }
+
+    const toRemove = [...cacheKeys];
+    for (const cacheKey of await delegate.entryKeys()) {
+      const removed = removedPerKey.get(cacheKey.key);
+      if (!removed || removed.has(cacheKey.sortKey)) {
+        continue;
+      }
+      const entry = await this.delegate.get(cacheKey);
+      if (entry && entry.cachedValue.distance > 0 && removed.has(entry.cachedValue.base)) {
+        toRemove.push(cacheKey);
+      }
+    }
+    this.checkpoints.clear();
+
+    await delegate.removeEntries(toRemove);
+  }
+
+  /**
+   * Recomputes the patches of the deltas based on the overwritten checkpoint - so that they still rebuild
+   * their original values. Requires the underlying cache to be a {@link VerifiableCache}, if the value
+   * of the checkpoint has changed - as the deltas are found by walking over all the stored entries.
+   */
+  private async rebaseDeltas(checkpointKey: CacheKey, oldValue: V, newValue: V): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if (compare(oldValue as any, newValue as any).length == 0) {
+      return;
+    }
+    const { key, sortKey } = checkpointKey;
+    for (const cacheKey of await asVerifiableCache(this.delegate).entryKeys()) {
+      if (cacheKey.key != key || cacheKey.sortKey <= sortKey) {
+        continue;
+      }
+      const entry = await this.delegate.get(cacheKey);
+      if (entry == null || entry.cachedValue.distance == 0 || entry.cachedValue.base != sortKey) {
+        continue;
+      }
+      this.logger.debug(`Rebasing ${key}:${cacheKey.sortKey} on the overwritten checkpoint ${sortKey}`);
+      const value = applyPatch(oldValue, entry.cachedValue.patch, false, false).newDocument;
+      await this.delegate.put(cacheKey, {
+        ...entry.cachedValue,
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        patch: compare(newValue as any, value as any)
+      });
+    }
+  }
+
+  private async checkpoint(key: string, sortKey: string): Promise<V> {
+    const cached = this.checkpoints.get(key);
+    if (cached && cached.sortKey == sortKey) {
+      return cached.cachedValue;
+    }
+    const checkpoint = await this.delegate.get(new CacheKey(key, sortKey));
+    if (checkpoint == null || checkpoint.cachedValue.distance != 0) {
+      throw new Error(`Checkpoint ${key}:${sortKey} not found in cache`);
+    }
+    this.checkpoints.set(key, new SortKeyCacheResult(sortKey, deepCopy(checkpoint.cachedValue.value)));
+    return checkpoint.cachedValue.value;
+  }
+
+  private async decode(
+    key: string,
+    result: SortKeyCacheResult<DeltaCacheEntry<V>> | null
+  ): Promise<SortKeyCacheResult<V> | null> {
+    if (result == null) {
+      return null;
+    }
+    const entry = result.cachedValue;
+    if (entry.distance == 0) {
+      return new SortKeyCacheResult<V>(result.sortKey, entry.value);
+    }
+    this.logger.debug(`Rebuilding ${key}:${result.sortKey} from checkpoint ${entry.base}`);
+    const checkpoint = await this.checkpoint(key, entry.base);
+    const value = applyPatch(checkpoint, entry.patch, false, false).newDocument;
+    return new SortKeyCacheResult<V>(result.sortKey, value);
+  }
+}
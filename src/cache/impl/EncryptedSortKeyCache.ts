@@ -0,0 +1,438 @@
+import Arweave from 'arweave';
+import { BasicSortKeyCache, invalidateKeyFrom, Savepoint } from '../BasicSortKeyCache';
+import {
+  BatchDBOp,
+  CacheKey,
+  invalidateAllKeysFrom,
+  keyHistory,
+  KeyHistoryOptions,
+  KeyVersion,
+  PruneStats,
+  SortKeyCache,
+  SortKeyCacheResult
+} from '../SortKeyCache';
+import { RetentionPolicy, toRetentionPolicy } from '../RetentionPolicy';
+import { SortKeyCacheRangeOptions } from '../SortKeyCacheRangeOptions';
+import {
+  CursorIterator,
+  keysIterator,
+  kvMapEntries,
+  SortKeyCacheIterator,
+  SortKeyCacheIteratorOptions
+} from '../SortKeyCacheIterator';
+import { asVerifiableCache, VerifiableCache } from '../verification/VerifiableCache';
+import { CacheWrapper } from '../migration/CacheMigration';
+
+/**
+ * @param key - the AES key material - at least 16 bytes, as raw bytes or a base64(url) string.
+ * The actual keys used for the values and the cache keys are derived from it (HKDF-SHA256).
+ * @param encryptKeys - whether the cache keys (e.g. contract tx ids, KV keys) should be encrypted as well.
+ * The sortKeys are never encrypted - so that the entries are still sorted by the sortKeys.
+ */
+export interface CacheEncryptionOptions {
+  key: Uint8Array | string;
+  encryptKeys?: boolean;
+}
+
+const IV_LENGTH = 12;
+
+/**
+ * AES-GCM encryption of the cache keys and values - with the WebCrypto API (both in the browser and Node.js).
+ * The values are encrypted with a random IV, the keys with a synthetic IV (HMAC of the key) - so that the same key
+ * is always encrypted to the same value and could be still used for the lookups.
+ */
+class CacheCipher {
+  private readonly crypto: Crypto;
+  private readonly keys: Promise<{ values: CryptoKey; keys: CryptoKey; iv: CryptoKey }>;
+
+  constructor(private readonly options: CacheEncryptionOptions) {
+    // 'require' to prevent esbuild from adding the node module to the web bundle
+    // (the node versions < 19 do not expose the WebCrypto API globally)
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    this.crypto = globalThis.crypto?.subtle ? globalThis.crypto : require('crypto').webcrypto;
+    const material =
+      typeof options.key == 'string' ? Arweave.utils.b64UrlToBuffer(options.key) : new Uint8Array(options.key);
+    if (material.length < 16) {
+      throw new Error('Cache encryption key must have at least 16 bytes');
+    }
+    this.keys = this.deriveKeys(material);
+  }
+
+  /**
+   * The value is bound to both its key and sortKey (the additional data) - so that the entry copied
+   * under another key or sortKey (e.g. an old state presented as the newer one) cannot be decrypted.
+   */
+  async encryptValue(cacheKey: CacheKey, value: unknown): Promise<string> {
+    const { values } = await this.keys;
+    const iv = this.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const encrypted = await this.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(cacheKey) },
+      values,
+      encode(JSON.stringify(value))
+    );
+    return concat(iv, encrypted);
+  }
+
+  async decryptValue<V>(cacheKey: CacheKey, encrypted: string): Promise<V> {
+    const { values } = await this.keys;
+    const bytes = Arweave.utils.b64UrlToBuffer(encrypted);
+    const decrypted = await this.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH), additionalData: additionalData(cacheKey) },
+      values,
+      bytes.slice(IV_LENGTH),
+      `${cacheKey.key}|${cacheKey.sortKey}`
+    );
+    return JSON.parse(decode(decrypted));
+  }
+
+  async encryptKey(key: string): Promise<string> {
+    if (!this.options.encryptKeys) {
+      return key;
+    }
+    const keys = await this.keys;
+    const iv = new Uint8Array(await this.crypto.subtle.sign('HMAC', keys.iv, encode(key))).slice(0, IV_LENGTH);
+    const encrypted = await this.crypto.subtle.encrypt({ name: 'AES-GCM', iv }, keys.keys, encode(key));
+    return concat(iv, encrypted);
+  }
+
+  async decryptKey(encrypted: string): Promise<string> {
+    if (!this.options.encryptKeys) {
+      return encrypted;
+    }
+    const { keys } = await this.keys;
+    const bytes = Arweave.utils.b64UrlToBuffer(encrypted);
+    const decrypted = await this.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+      keys,
+      bytes.slice(IV_LENGTH),
+      encrypted
+    );
+    return decode(decrypted);
+  }
+
+  private async decrypt(params: AesGcmParams, cryptoKey: CryptoKey, data: Uint8Array, key: string) {
+    try {
+      return await this.crypto.subtle.decrypt(params, cryptoKey, data);
+    } catch (e) {
+      throw new Error(`Cannot decrypt cache entry ${key} - invalid encryption key or corrupted entry`);
+    }
+  }
+
+  private async deriveKeys(material: Uint8Array) {
+    const master = await this.crypto.subtle.importKey('raw', material, 'HKDF', false, ['deriveKey']);
+    const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) =>
+      this.crypto.subtle.deriveKey(
+        { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: encode(info) },
+        master,
+        algorithm,
+        false,
+        usages
+      );
+    return {
+      values: await derive('warp-cache-values', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+      keys: await derive('warp-cache-keys', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+      iv: await derive('warp-cache-keys-iv', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign'])
+    };
+  }
+}
+
+function encode(value: string): Uint8Array {
+  return new TextEncoder().encode(value);
+}
+
+// JSON - so that the key and the sortKey cannot be shifted between each other
+function additionalData(cacheKey: CacheKey): Uint8Array {
+  return encode(JSON.stringify([cacheKey.key, cacheKey.sortKey]));
+}
+
+function decode(value: ArrayBuffer): string {
+  return new TextDecoder().decode(value);
+}
+
+function concat(iv: Uint8Array, encrypted: ArrayBuffer): string {
+  return Arweave.utils.bufferTob64Url(Arweave.utils.concatBuffers([iv, new Uint8Array(encrypted)]));
+}
+
+/**
+ * A {@link SortKeyCache} that stores the values (and optionally the keys) encrypted with AES-GCM
+ * in the underlying cache - e.g. for the contracts whose state should not be readable from the disk.
+ * The values are serialized as JSON before the encryption - so they lose their prototypes (exactly as with the default
+ * {@link LevelDbCache} codec).
+ *
+ * The sortKeys are stored as plaintext - so the lookups by the sortKey ({@link getLessOrEqual}, {@link getLast},
+ * {@link prune}) work as usual. Each value is bound to its key and sortKey - the underlying range queries do not return
+ * the sortKeys of the values, so the {@link kvMap} and the iterators read each entry again with the
+ * {@link getLessOrEqual}. The encrypted keys are deterministic, but do not preserve the order - so,
+ * if the {@link CacheEncryptionOptions.encryptKeys} is set, the range queries ({@link keys}, {@link kvMap} and the
+ * iterators) load all the keys from the underlying cache and apply the range options in memory.
+ *
+ * The {@link SortKeyCache} methods require the underlying cache to be a {@link SortKeyCache} as well
+ * - wrapping the {@link BasicSortKeyCache} (e.g. the state cache) allows using only the {@link BasicSortKeyCache} ones.
+ *
+ * Usage:
+ * WarpFactory.forMainnet({ ...defaultCacheOptions, encryption: { key: process.env.CACHE_KEY, encryptKeys: true } })
+ */
+export class EncryptedSortKeyCache<V> implements SortKeyCache<V>, VerifiableCache, CacheWrapper {
+  private readonly cipher: CacheCipher;
+
+  constructor(private readonly delegate: BasicSortKeyCache<string>, private readonly options: CacheEncryptionOptions) {
+    this.cipher = new CacheCipher(options);
+  }
+
+  async get(cacheKey: CacheKey): Promise<SortKeyCacheResult<V> | null> {
+    return await this.decrypt(
+      cacheKey.key,
+      await this.delegate.get(new CacheKey(await this.cipher.encryptKey(cacheKey.key), cacheKey.sortKey))
+    );
+  }
+
+  async getLessOrEqual(key: string, sortKey: string): Promise<SortKeyCacheResult<V> | null> {
+    return await this.decrypt(key, await this.delegate.getLessOrEqual(await this.cipher.encryptKey(key), sortKey));
+  }
+
+  async getLast(key: string): Promise<SortKeyCacheResult<V> | null> {
+    return await this.decrypt(key, await this.delegate.getLast(await this.cipher.encryptKey(key)));
+  }
+
+  async getLastSortKey(): Promise<string | null> {
+    return await this.delegate.getLastSortKey();
+  }
+
+  async put(cacheKey: CacheKey, value: V): Promise<void> {
+    await this.delegate.put(
+      new CacheKey(await this.cipher.encryptKey(cacheKey.key), cacheKey.sortKey),
+      await this.cipher.encryptValue(cacheKey, value)
+    );
+  }
+
+  async del(cacheKey: CacheKey): Promise<void> {
+    await this.kvDelegate.del(new CacheKey(await this.cipher.encryptKey(cacheKey.key), cacheKey.sortKey));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.delegate.delete(await this.cipher.encryptKey(key));
+  }
+
+  async batch(opStack: BatchDBOp<V>[]) {
+    const encrypted: BatchDBOp<string>[] = [];
+    for (const op of opStack) {
+      if (op.type === 'put') {
+        encrypted.push({
+          type: 'put',
+          key: new CacheKey(await this.cipher.encryptKey(op.key.key), op.key.sortKey),
+          value: await this.cipher.encryptValue(op.key, op.value)
+        });
+      } else if (op.type === 'del') {
+        encrypted.push({ type: 'del', key: await this.cipher.encryptKey(op.key) });
+      }
+    }
+    await this.kvDelegate.batch(encrypted);
+  }
+
+  async invalidateFrom(key: string, sortKey: string): Promise<number | null> {
+    return await invalidateKeyFrom(this.delegate, await this.cipher.encryptKey(key), sortKey);
+  }
+
+  async invalidateAllFrom(sortKey: string): Promise<number> {
+    return await invalidateAllKeysFrom(this.kvDelegate, sortKey);
+  }
+
+  async keys(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<string[]> {
+    return Array.from((await this.kvMap(sortKey, options)).keys());
+  }
+
+  async kvMap(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<Map<string, V>> {
+    const result: Map<string, V> = new Map();
+    if (!this.options.encryptKeys) {
+      for (const key of (await this.kvDelegate.kvMap(sortKey, options)).keys()) {
+        result.set(key, await this.valueAt(key, key, sortKey));
+      }
+      return result;
+    }
+
+    const keys: [string, string][] = [];
+    for (const encrypted of (await this.kvDelegate.kvMap(sortKey)).keys()) {
+      const key = await this.cipher.decryptKey(encrypted);
+      if ((options?.gte === undefined || key >= options.gte) && (options?.lt === undefined || key < options.lt)) {
+        keys.push([key, encrypted]);
+      }
+    }
+    // the keys are unique
+    keys.sort(([a], [b]) => (a < b ? -1 : 1));
+    if (options?.reverse) {
+      keys.reverse();
+    }
+    for (const [key, encrypted] of options?.limit ? keys.slice(0, options.limit) : keys) {
+      result.set(key, await this.valueAt(key, encrypted, sortKey));
+    }
+    return result;
+  }
+
+  keysIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<string> {
+    return new CursorIterator(this.entries(sortKey, options), (key) => key, options?.limit);
+  }
+
+  entriesIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<[string, V]> {
+    return new CursorIterator(
+      this.entries(sortKey, options),
+      (key, value): [string, V] => [key, value],
+      options?.limit
+    );
+  }
+
+  /**
+   * streams the underlying entries if the keys are not encrypted
+   */
+  private async *entries(sortKey: string, options?: SortKeyCacheIteratorOptions): AsyncGenerator<[string, V]> {
+    if (this.options.encryptKeys) {
+      yield* kvMapEntries((rangeOptions) => this.kvMap(sortKey, rangeOptions), options);
+      return;
+    }
+    for await (const key of keysIterator(this.kvDelegate, sortKey, options)) {
+      yield [key, await this.valueAt(key, key, sortKey)];
+    }
+  }
+
+  async history(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<V>[]> {
+    const versions = await keyHistory(this.kvDelegate, await this.cipher.encryptKey(key), options);
+    const result: KeyVersion<V>[] = [];
+    for (const version of versions) {
+      result.push({
+        ...version,
+        value:
+          version.value == null
+            ? null
+            : await this.cipher.decryptValue<V>(new CacheKey(key, version.sortKey), version.value)
+      });
+    }
+    return result;
+  }
+
+  async open(): Promise<void> {
+    await this.delegate.open();
+  }
+
+  async close(): Promise<void> {
+    await this.delegate.close();
+  }
+
+  async begin(): Promise<Savepoint | void> {
+    return await this.delegate.begin();
+  }
+
+  async rollback(): Promise<void> {
+    await this.delegate.rollback();
+  }
+
+  async commit(): Promise<void> {
+    await this.delegate.commit();
+  }
+
+  async rollbackTo(savepoint: Savepoint): Promise<void> {
+    if (!this.delegate.rollbackTo) {
+      throw new Error('Underlying cache does not support savepoints');
+    }
+    await this.delegate.rollbackTo(savepoint);
+  }
+
+  async release(savepoint: Savepoint): Promise<void> {
+    if (!this.delegate.release) {
+      throw new Error('Underlying cache does not support savepoints');
+    }
+    await this.delegate.release(savepoint);
+  }
+
+  /**
+   * returns the encrypted content of the underlying cache
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async dump(): Promise<any> {
+    return await this.delegate.dump();
+  }
+
+  storage<S>(): S {
+    return this.delegate.storage<S>();
+  }
+
+  unwrap(): BasicSortKeyCache<string> {
+    return this.delegate;
+  }
+
+  /**
+   * With the encrypted keys, the keys passed to the {@link RetentionPolicy} have to be decrypted first
+   * - so the prune is performed in two passes (just as in the {@link DeltaSortKeyCache}):
+   * 1. the first one only records the keys (nothing is removed),
+   * 2. the second one applies the policy to the decrypted keys.
+   */
+  async prune(retention: number | RetentionPolicy): Promise<PruneStats | null> {
+    if (!this.options.encryptKeys || typeof retention == 'number') {
+      return await this.delegate.prune(retention);
+    }
+    const policy = toRetentionPolicy(retention);
+
+    const recorded: string[] = [];
+    await this.delegate.prune({
+      retain(key: string, sortKeys: string[]): Set<string> {
+        recorded.push(key);
+        return new Set(sortKeys);
+      }
+    });
+    const decrypted: Map<string, string> = new Map();
+    for (const key of recorded) {
+      decrypted.set(key, await this.cipher.decryptKey(key));
+    }
+
+    return await this.delegate.prune({
+      retain(key: string, sortKeys: string[]): Set<string> {
+        return policy.retain(decrypted.get(key) || key, sortKeys);
+      }
+    });
+  }
+
+  /**
+   * requires the underlying cache to be a {@link VerifiableCache}
+   */
+  async entryKeys(): Promise<CacheKey[]> {
+    const result: CacheKey[] = [];
+    for (const cacheKey of await asVerifiableCache(this.delegate).entryKeys()) {
+      result.push(new CacheKey(await this.cipher.decryptKey(cacheKey.key), cacheKey.sortKey));
+    }
+    return result;
+  }
+
+  async removeEntries(cacheKeys: CacheKey[]): Promise<void> {
+    const encrypted: CacheKey[] = [];
+    for (const cacheKey of cacheKeys) {
+      encrypted.push(new CacheKey(await this.cipher.encryptKey(cacheKey.key), cacheKey.sortKey));
+    }
+    await asVerifiableCache(this.delegate).removeEntries(encrypted);
+  }
+
+  private get kvDelegate(): SortKeyCache<string> {
+    const delegate = this.delegate as SortKeyCache<string>;
+    if (typeof delegate.kvMap !== 'function') {
+      throw new Error(`Cache ${this.delegate.constructor?.name} does not support the key-value operations`);
+    }
+    return delegate;
+  }
+
+  private async decrypt(key: string, result: SortKeyCacheResult<string> | null): Promise<SortKeyCacheResult<V> | null> {
+    if (result == null) {
+      return null;
+    }
+    return new SortKeyCacheResult<V>(
+      result.sortKey,
+      await this.cipher.decryptValue<V>(new CacheKey(key, result.sortKey), result.cachedValue)
+    );
+  }
+
+  /**
+   * the value of the key read by the range queries - with the sortKey it was stored under
+   */
+  private async valueAt(key: string, encryptedKey: string, sortKey: string): Promise<V> {
+    const result = sortKey
+      ? await this.delegate.getLessOrEqual(encryptedKey, sortKey)
+      : await this.delegate.getLast(encryptedKey);
+    return (await this.decrypt(key, result)).cachedValue;
+  }
+}
@@ -0,0 +1,418 @@
+import {
+  BatchDBOp,
+  CacheKey,
+  KeyHistoryOptions,
+  KeyVersion,
+  PruneStats,
+  SortKeyCache,
+  SortKeyCacheResult
+} from '../SortKeyCache';
+import { CacheOptions } from '../../core/WarpFactory';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { SortKeyCacheRangeOptions } from '../SortKeyCacheRangeOptions';
+import {
+  CursorIterator,
+  kvMapEntries,
+  SortKeyCacheIterator,
+  SortKeyCacheIteratorOptions
+} from '../SortKeyCacheIterator';
+import { RetentionPolicy, sortKeysToRemove, toRetentionPolicy } from '../RetentionPolicy';
+import { VerifiableCache } from '../verification/VerifiableCache';
+import { Savepoint } from '../BasicSortKeyCache';
+
+/**
+ * A single entry stored in the IndexedDB object store.
+ * The [key, sortKey] array is used as a primary key - IndexedDB compares arrays element by element
+ * and strings by their code units, so the entries are kept in the same lexicographical order as in the {@link LevelDbCache}.
+ */
+interface IndexedDbEntry<V> {
+  key: string;
+  sortKey: string;
+  value: V | null;
+  tomb: boolean;
+}
+
+/**
+ * A value of an entry before it was modified within the current transaction.
+ * 'undefined' means that the entry did not exist.
+ */
+type RollbackEntry<V> = { primaryKey: [string, string]; previous: IndexedDbEntry<V> | undefined };
+
+const STORE_NAME = 'sort_key_cache';
+const SORT_KEY_INDEX = 'sortKey';
+
+/**
+ * A {@link SortKeyCache} implementation for the browser environments - built directly on the IndexedDB,
+ * so that the evaluated state survives the page reloads.
+ *
+ * The database name is taken from the {@link CacheOptions.dbLocation} - each cache (state, contracts, source)
+ * uses a separate database with a single object store.
+ *
+ * IndexedDB transactions are committed automatically once there are no pending requests - so they
+ * cannot be used to implement the {@link begin}/{@link commit}/{@link rollback} semantics.
+ * Similarly to the undo log in the {@link LevelDbCache}, all the operations performed within
+ * an active transaction are applied directly - and the previous values are remembered, so that they
+ * could be restored in case of a rollback (also to a nested savepoint).
+ *
+ * The 'indexedDB' factory defaults to the global one - a different implementation
+ * (e.g. the 'fake-indexeddb' for the node.js env.) might be passed in the constructor.
+ */
+export class IndexedDbCache<V> implements SortKeyCache<V>, VerifiableCache {
+  private readonly logger = LoggerFactory.INST.create('IndexedDbCache');
+
+  private _db: IDBDatabase;
+  private _rollbackLog: RollbackEntry<V>[] = null;
+  // savepoints of the active transaction - with the length of the rollback log at the moment of their creation
+  private _savepoints: { savepoint: Savepoint; logLength: number }[] = [];
+  private _savepointId = 0;
+
+  constructor(
+    private readonly cacheOptions: CacheOptions,
+    private readonly idbFactory: IDBFactory = globalThis.indexedDB
+  ) {
+    if (!idbFactory) {
+      throw new Error('IndexedDb cache configuration error - IndexedDB not available in this environment');
+    }
+  }
+
+  async get(cacheKey: CacheKey): Promise<SortKeyCacheResult<V> | null> {
+    const entry = await this.request<IndexedDbEntry<V>>((store) => store.get([cacheKey.key, cacheKey.sortKey]));
+    return this.toResult(entry);
+  }
+
+  async getLast(key: string): Promise<SortKeyCacheResult<V> | null> {
+    return this.toResult(await this.lastInRange(this.keyRange(key)));
+  }
+
+  async getLessOrEqual(key: string, sortKey: string): Promise<SortKeyCacheResult<V> | null> {
+    return this.toResult(await this.lastInRange(IDBKeyRange.bound([key, ''], [key, sortKey])));
+  }
+
+  async getLastSortKey(): Promise<string | null> {
+    const cursor = await this.request<IDBCursor>((store) => store.index(SORT_KEY_INDEX).openKeyCursor(null, 'prev'));
+    return cursor ? (cursor.key as string) : null;
+  }
+
+  async put(cacheKey: CacheKey, value: V): Promise<void> {
+    await this.setEntry({ key: cacheKey.key, sortKey: cacheKey.sortKey, value, tomb: false });
+  }
+
+  /**
+   * Just as in the {@link LevelDbCache.del} - the delete operation is a write of a tombstone,
+   * so the value is still available for the lower sortKeys.
+   */
+  async del(cacheKey: CacheKey): Promise<void> {
+    await this.setEntry({ key: cacheKey.key, sortKey: cacheKey.sortKey, value: null, tomb: true });
+  }
+
+  private async setEntry(entry: IndexedDbEntry<V>): Promise<void> {
+    if (this._rollbackLog) {
+      const primaryKey: [string, string] = [entry.key, entry.sortKey];
+      const previous = await this.request<IndexedDbEntry<V>>((store) => store.get(primaryKey));
+      this._rollbackLog.push({ primaryKey, previous });
+    }
+    await this.request((store) => store.put(entry), 'readwrite');
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request((store) => store.delete(this.keyRange(key)), 'readwrite');
+  }
+
+  async invalidateFrom(key: string, sortKey: string): Promise<number> {
+    const range = IDBKeyRange.bound([key, sortKey], [key, []]);
+    const count = await this.request<number>((store) => store.count(range));
+    await this.request((store) => store.delete(range), 'readwrite');
+    return count;
+  }
+
+  async invalidateAllFrom(sortKey: string): Promise<number> {
+    const toRemove = (await this.entryKeys()).filter((cacheKey) => cacheKey.sortKey.localeCompare(sortKey) >= 0);
+    await this.removeEntries(toRemove);
+    return toRemove.length;
+  }
+
+  async batch(opStack: BatchDBOp<V>[]) {
+    for (const op of opStack) {
+      if (op.type === 'put') {
+        await this.put(op.key, op.value);
+      } else if (op.type === 'del') {
+        await this.delete(op.key);
+      }
+    }
+  }
+
+  async open(): Promise<void> {
+    await this.db();
+  }
+
+  async close(): Promise<void> {
+    if (this._db) {
+      this._db.close();
+      this._db = null;
+    }
+  }
+
+  async begin(): Promise<Savepoint> {
+    if (this._rollbackLog == null) {
+      this._rollbackLog = [];
+      this._savepoints = [];
+    }
+    const savepoint = { id: ++this._savepointId, depth: this._savepoints.length };
+    this._savepoints.push({ savepoint, logLength: this._rollbackLog.length });
+    return savepoint;
+  }
+
+  async rollback(): Promise<void> {
+    if (this._rollbackLog) {
+      const rollbackLog = this._rollbackLog;
+      this._rollbackLog = null;
+      this._savepoints = [];
+      await this.revert(rollbackLog);
+    }
+  }
+
+  async commit(): Promise<void> {
+    this._rollbackLog = null;
+    this._savepoints = [];
+  }
+
+  async rollbackTo(savepoint: Savepoint): Promise<void> {
+    const index = this.savepointIndex(savepoint);
+    if (index == 0) {
+      await this.rollback();
+    } else {
+      const rollbackLog = this._rollbackLog.splice(this._savepoints[index].logLength);
+      this._savepoints.splice(index);
+      await this.revert(rollbackLog);
+    }
+  }
+
+  async release(savepoint: Savepoint): Promise<void> {
+    const index = this.savepointIndex(savepoint);
+    if (index == 0) {
+      await this.commit();
+    } else {
+      this._savepoints.splice(index);
+    }
+  }
+
+  private savepointIndex(savepoint: Savepoint): number {
+    const index = this._rollbackLog ? this._savepoints.findIndex((s) => s.savepoint.id == savepoint.id) : -1;
+    if (index < 0) {
+      throw new Error(`Savepoint ${savepoint.id} is not active`);
+    }
+    return index;
+  }
+
+  private async revert(rollbackLog: RollbackEntry<V>[]): Promise<void> {
+    for (const { primaryKey, previous } of rollbackLog.reverse()) {
+      await this.request(
+        (store) => (previous === undefined ? store.delete(primaryKey) : store.put(previous)),
+        'readwrite'
+      );
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async dump(): Promise<any> {
+    return await this.request<IndexedDbEntry<V>[]>((store) => store.getAll());
+  }
+
+  async keys(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<string[]> {
+    return Array.from((await this.kvMap(sortKey, options)).keys());
+  }
+
+  async kvMap(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<Map<string, V>> {
+    const lower = options?.gte !== undefined ? [options.gte, ''] : undefined;
+    const upper = options?.lt !== undefined ? [options.lt, ''] : undefined;
+    let range: IDBKeyRange = null;
+    if (lower && upper) {
+      range = IDBKeyRange.bound(lower, upper, false, true);
+    } else if (lower) {
+      range = IDBKeyRange.lowerBound(lower);
+    } else if (upper) {
+      range = IDBKeyRange.upperBound(upper, true);
+    }
+    const entries = await this.request<IndexedDbEntry<V>[]>((store) => store.getAll(range));
+
+    // entries are sorted by [key, sortKey] - the last matching entry for each key wins
+    const lastEntries: Map<string, IndexedDbEntry<V>> = new Map();
+    for (const entry of entries) {
+      if (!sortKey || entry.sortKey.localeCompare(sortKey) <= 0) {
+        lastEntries.set(entry.key, entry);
+      }
+    }
+
+    let keys = Array.from(lastEntries.keys()).filter((k) => !lastEntries.get(k).tomb);
+    if (options?.reverse) {
+      keys = keys.reverse();
+    }
+    if (options?.limit) {
+      keys = keys.slice(0, options.limit);
+    }
+
+    const result: Map<string, V> = new Map();
+    for (const k of keys) {
+      result.set(k, lastEntries.get(k).value);
+    }
+    return result;
+  }
+
+  /**
+   * Note: all the keys in range are loaded at once - see {@link kvMapEntries}
+   */
+  keysIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<string> {
+    return new CursorIterator(this.entries(sortKey, options), (key) => key, options?.limit);
+  }
+
+  entriesIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<[string, V]> {
+    return new CursorIterator(
+      this.entries(sortKey, options),
+      (key, value): [string, V] => [key, value],
+      options?.limit
+    );
+  }
+
+  private entries(sortKey: string, options?: SortKeyCacheIteratorOptions): AsyncGenerator<[string, V]> {
+    return kvMapEntries((rangeOptions) => this.kvMap(sortKey, rangeOptions), options);
+  }
+
+  async history(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<V>[]> {
+    const range = IDBKeyRange.bound(
+      [key, options?.fromSortKey || ''],
+      options?.toSortKey ? [key, options.toSortKey] : [key, []]
+    );
+    let entries = await this.request<IndexedDbEntry<V>[]>((store) => store.getAll(range));
+    if (options?.reverse) {
+      entries = entries.reverse();
+    }
+    if (options?.limit) {
+      entries = entries.slice(0, options.limit);
+    }
+    return entries.map((entry) => ({
+      sortKey: entry.sortKey,
+      value: entry.tomb ? null : entry.value,
+      deleted: entry.tomb
+    }));
+  }
+
+  storage<S>(): S {
+    return this._db as S;
+  }
+
+  async entryKeys(): Promise<CacheKey[]> {
+    const primaryKeys = await this.request<[string, string][]>((store) => store.getAllKeys());
+    return primaryKeys.map(([key, sortKey]) => new CacheKey(key, sortKey));
+  }
+
+  async removeEntries(cacheKeys: CacheKey[]): Promise<void> {
+    for (const cacheKey of cacheKeys) {
+      await this.request((store) => store.delete([cacheKey.key, cacheKey.sortKey]), 'readwrite');
+    }
+  }
+
+  async getNumEntries(): Promise<number> {
+    return await this.request<number>((store) => store.count());
+  }
+
+  /**
+   * Removes the entries not retained by the retention policy.
+   * The sizes in returned {@link PruneStats} are the sizes of the JSON-serialized entries.
+   */
+  async prune(retention: number | RetentionPolicy = 5): Promise<PruneStats> {
+    const policy = toRetentionPolicy(retention);
+
+    const entries = await this.request<IndexedDbEntry<V>[]>((store) => store.getAll());
+    const sizeBefore = entries.reduce((size, e) => size + JSON.stringify(e).length, 0);
+
+    const entriesPerKey: Map<string, IndexedDbEntry<V>[]> = new Map();
+    for (const entry of entries) {
+      if (!entriesPerKey.has(entry.key)) {
+        entriesPerKey.set(entry.key, []);
+      }
+      entriesPerKey.get(entry.key).push(entry);
+    }
+
+    let removedSize = 0;
+    let removedEntries = 0;
+    for (const [key, keyEntries] of entriesPerKey) {
+      const toRemove = new Set(
+        sortKeysToRemove(
+          policy,
+          key,
+          keyEntries.map((e) => e.sortKey)
+        )
+      );
+      for (const entry of keyEntries) {
+        if (toRemove.has(entry.sortKey)) {
+          removedEntries++;
+          removedSize += JSON.stringify(entry).length;
+          await this.request((store) => store.delete([key, entry.sortKey]), 'readwrite');
+        }
+      }
+    }
+
+    return {
+      entriesBefore: entries.length,
+      entriesAfter: entries.length - removedEntries,
+      sizeBefore,
+      sizeAfter: sizeBefore - removedSize
+    };
+  }
+
+  private keyRange(key: string): IDBKeyRange {
+    // arrays are always 'greater' than strings in IndexedDB keys ordering
+    return IDBKeyRange.bound([key, ''], [key, []]);
+  }
+
+  private async lastInRange(range: IDBKeyRange): Promise<IndexedDbEntry<V> | undefined> {
+    const cursor = await this.request<IDBCursorWithValue>((store) => store.openCursor(range, 'prev'));
+    return cursor?.value;
+  }
+
+  private toResult(entry: IndexedDbEntry<V> | undefined): SortKeyCacheResult<V> | null {
+    if (!entry || entry.tomb || entry.value == null) {
+      return null;
+    }
+    return new SortKeyCacheResult<V>(entry.sortKey, entry.value);
+  }
+
+  private async db(): Promise<IDBDatabase> {
+    if (!this._db) {
+      if (!this.cacheOptions.dbLocation) {
+        throw new Error('IndexedDb cache configuration error - no db location specified');
+      }
+      this.logger.info(`Using database ${this.cacheOptions.dbLocation}`);
+      this._db = await new Promise<IDBDatabase>((resolve, reject) => {
+        // the IndexedDB database version serves as the schema version of this cache
+        // - layout changes should be handled in the 'onupgradeneeded'
+        const openRequest = this.idbFactory.open(this.cacheOptions.dbLocation, 1);
+        openRequest.onupgradeneeded = () => {
+          const store = openRequest.result.createObjectStore(STORE_NAME, { keyPath: ['key', 'sortKey'] });
+          store.createIndex(SORT_KEY_INDEX, 'sortKey');
+        };
+        openRequest.onsuccess = () => resolve(openRequest.result);
+        openRequest.onerror = () => reject(openRequest.error);
+      });
+    }
+    return this._db;
+  }
+
+  private async request<T>(
+    fn: (store: IDBObjectStore) => IDBRequest,
+    mode: IDBTransactionMode = 'readonly'
+  ): Promise<T> {
+    const db = await this.db();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = fn(transaction.objectStore(STORE_NAME));
+      let result: T;
+      request.onsuccess = () => {
+        result = request.result;
+      };
+      transaction.oncomplete = () => resolve(result);
+      transaction.onerror = () => reject(transaction.error || request.error);
+      transaction.onabort = () => reject(transaction.error || request.error);
+    });
+  }
+}
@@ -1,12 +1,27 @@
-import { BatchDBOp, CacheKey, SortKeyCache, SortKeyCacheResult } from '../SortKeyCache';
+import {
+  BatchDBOp,
+  CacheKey,
+  KeyHistoryOptions,
+  KeyVersion,
+  PruneStats,
+  SortKeyCache,
+  SortKeyCacheResult
+} from '../SortKeyCache';
 import { Level } from 'level';
 import { MemoryLevel } from 'memory-level';
 import { CacheOptions } from '../../core/WarpFactory';
 import { LoggerFactory } from '../../logging/LoggerFactory';
 import { SortKeyCacheRangeOptions } from '../SortKeyCacheRangeOptions';
+import { CursorIterator, SortKeyCacheIterator, SortKeyCacheIteratorOptions } from '../SortKeyCacheIterator';
+import { RetentionPolicy, sortKeysToRemove, toRetentionPolicy } from '../RetentionPolicy';
+import { CompressionType, decodeValue, encodeValue, ValueCodecName } from '../ValueCodec';
+import { CACHE_SCHEMA_VERSION, SchemaVersionedCache } from '../migration/CacheMigration';
+import { CacheMigrationRunner } from '../migration/CacheMigrationRunner';
+import { VerifiableCache } from '../verification/VerifiableCache';
+import { Savepoint } from '../BasicSortKeyCache';
+import { isBrowser } from '../../utils/utils';
 import { AbstractSublevel, AbstractSublevelOptions } from 'abstract-level/types/abstract-sublevel';
-import { AbstractChainedBatch } from 'abstract-level/types/abstract-chained-batch';
-import { AbstractKeyIteratorOptions } from 'abstract-level/types/abstract-iterator';
+import { AbstractIteratorOptions, AbstractKeyIteratorOptions } from 'abstract-level/types/abstract-iterator';
 
 /**
  * The LevelDB is a lexicographically sorted key-value database - so it's ideal for this use case
@@ -17,18 +32,69 @@ import { AbstractKeyIteratorOptions } from 'abstract-level/types/abstract-iterat
  * The default name for the browser IndexedDB cache is warp-cache
  *
  * In order to reduce the cache size, the oldest entries are automatically pruned.
+ *
+ * The values are serialized with the codec set in {@link CacheOptions.valueCodec} (JSON by default)
+ * and optionally compressed - the compression might be set separately for each sub-level
+ * ({@link CacheOptions.subLevelCompression}). Each stored entry is prefixed with a marker
+ * that identifies its codec and compression (see {@link encodeValue}) - so changing the codec
+ * does not require any migration of the existing databases.
+ *
+ * The schema version ({@link CACHE_SCHEMA_VERSION}) is verified before the first operation on the cache
+ * (see {@link CacheMigrationRunner.ensureCompatible}). It is stored outside the db keyspace - as the previous SDK
+ * versions iterate all the root keys (and expect each of them to be a joined sub-level key):
+ * - in the {@link SCHEMA_VERSION_FILE} in the db directory - for the node.js on-disk caches,
+ * - under an internal key - for the caches stored in a sublevel of a shared db (never opened by the previous versions),
+ * - in memory - for the in-memory and the browser caches.
  */
 
+export const SCHEMA_VERSION_FILE = 'WARP_SCHEMA_VERSION';
+
 class ClientValueWrapper<V> {
   constructor(readonly value: V, readonly tomb: boolean = false) {}
 }
 
-export class LevelDbCache<V> implements SortKeyCache<V> {
+// previous - the value overwritten within the same transaction (the written entry is removed on rollback otherwise)
+type UndoOperation<V> = {
+  key: string;
+  sortKey: string;
+  previous?: ClientValueWrapper<V>;
+};
+
+type SavepointLog<V> = {
+  savepoint: Savepoint;
+  undo: UndoOperation<V>[];
+};
+
+type ValueEncoding<V> = {
+  name: string;
+  format: 'view';
+  encode: (value: ClientValueWrapper<V>) => Uint8Array;
+  decode: (data: Uint8Array) => ClientValueWrapper<V>;
+};
+
+// the level transcoder caches the encodings by their names - so a single instance is created for each name
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const valueEncodings: Map<string, ValueEncoding<any>> = new Map();
+
+function valueEncoding<V>(codec: ValueCodecName, compression: CompressionType): ValueEncoding<V> {
+  const name = `warp-${codec}-${compression}`;
+  if (!valueEncodings.has(name)) {
+    valueEncodings.set(name, {
+      name,
+      format: 'view',
+      encode: (value: ClientValueWrapper<V>) => encodeValue(value, codec, compression),
+      decode: (data: Uint8Array) => decodeValue(data) as ClientValueWrapper<V>
+    });
+  }
+  return valueEncodings.get(name);
+}
+
+export class LevelDbCache<V> implements SortKeyCache<V>, SchemaVersionedCache, VerifiableCache {
   private readonly ongoingTransactionMark = '$$warp-internal-transaction$$';
+  private readonly schemaVersionKey = '$$warp-internal-schema-version$$';
 
   private readonly logger = LoggerFactory.INST.create('LevelDbCache');
   private readonly subLevelSeparator: string;
-  private readonly subLevelOptions: AbstractSublevelOptions<string, ClientValueWrapper<V>>;
 
   /**
    * not using the Level type, as it is not compatible with MemoryLevel (i.e. has more properties)
@@ -38,45 +104,151 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
   private _db: MemoryLevel<string, ClientValueWrapper<V>>;
 
   /**
-   * Rollback batch is way of recovering kv storage state from before a failed interaction.
+   * Undo log is a way of recovering kv storage state from before a failed interaction.
    * Currently, all operations performed during active transaction are directly saved to kv storage.
-   * In case the transaction fails the changes will be reverted using the rollback batch.
+   * In case the transaction fails the changes will be reverted using the undo log.
+   * Each savepoint has its own part of the log - so that the changes made within a nested savepoint
+   * (e.g. by a failed internal write) can be reverted without reverting the changes made before it.
+   * null - if there is no active transaction.
    */
-  private _rollbackBatch: AbstractChainedBatch<
-    MemoryLevel<string, ClientValueWrapper<V>>,
-    string,
-    ClientValueWrapper<V>
-  >;
+  private _savepoints: SavepointLog<V>[] = null;
+
+  // joined keys written within the active transaction - only their previous values have to be stored in the undo log
+  private _transactionKeys: Set<string> = null;
+
+  private _savepointId = 0;
+
+  private _schemaCheck: Promise<void>;
+
+  // the schema version of the in-memory and the browser caches
+  private _schemaVersion: number = null;
 
   // Lazy initialization upon first access
   private get db(): MemoryLevel<string, ClientValueWrapper<V>> {
     if (!this._db) {
-      if (this.cacheOptions.inMemory) {
-        this._db = new MemoryLevel(this.subLevelOptions);
+      if (this.shared) {
+        this._db = this.shared.db.sublevel<string, ClientValueWrapper<V>>(
+          this.shared.name,
+          this.subLevelOptions()
+        ) as unknown as MemoryLevel<string, ClientValueWrapper<V>>;
+      } else if (this.cacheOptions.inMemory) {
+        this._db = new MemoryLevel(this.subLevelOptions());
       } else {
         if (!this.cacheOptions.dbLocation) {
           throw new Error('LevelDb cache configuration error - no db location specified');
         }
         const dbLocation = this.cacheOptions.dbLocation;
         this.logger.info(`Using location ${dbLocation}`);
-        this._db = new Level<string, ClientValueWrapper<V>>(dbLocation, this.subLevelOptions);
+        this._db = new Level<string, ClientValueWrapper<V>>(dbLocation, this.subLevelOptions());
       }
     }
     return this._db;
   }
 
-  constructor(private readonly cacheOptions: CacheOptions) {
+  /**
+   * @param shared - if set, the cache is stored in a sublevel of the shared db (e.g. {@link SharedLevelDbKVStorage})
+   * - instead of a separate db
+   */
+  constructor(
+    private readonly cacheOptions: CacheOptions,
+    private readonly shared?: { db: MemoryLevel<string, unknown>; name: string }
+  ) {
     this.subLevelSeparator = cacheOptions.subLevelSeparator || '!';
-    this.subLevelOptions = {
-      valueEncoding: 'json',
+  }
+
+  private subLevelOptions(key?: string): AbstractSublevelOptions<string, ClientValueWrapper<V>> {
+    const compression =
+      (key && this.cacheOptions.subLevelCompression?.[key]) || this.cacheOptions.compression || 'none';
+    return {
+      valueEncoding: valueEncoding<V>(this.cacheOptions.valueCodec || 'json', compression),
       separator: this.subLevelSeparator
     };
   }
 
+  async getSchemaVersion(): Promise<number> {
+    const storedVersion = await this.storedSchemaVersion();
+    if (storedVersion != null) {
+      return storedVersion;
+    }
+    return (await this.isEmpty()) ? CACHE_SCHEMA_VERSION : 0;
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    if (this.shared) {
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      await this.db.put(this.schemaVersionKey, version);
+    } else if (this.schemaVersionFile) {
+      // eslint-disable-next-line
+      const fs = require('fs');
+      fs.mkdirSync(this.cacheOptions.dbLocation, { recursive: true });
+      fs.writeFileSync(this.schemaVersionFile, `${version}`);
+    } else {
+      this._schemaVersion = version;
+    }
+  }
+
+  private get schemaVersionFile(): string | null {
+    if (this.shared || this.cacheOptions.inMemory || isBrowser()) {
+      return null;
+    }
+    return `${this.cacheOptions.dbLocation}/${SCHEMA_VERSION_FILE}`;
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this._schemaCheck) {
+      this._schemaCheck = (async () => {
+        if ((await this.storedSchemaVersion()) == null && (await this.isEmpty())) {
+          await this.setSchemaVersion(CACHE_SCHEMA_VERSION);
+          return;
+        }
+        await new CacheMigrationRunner().ensureCompatible(
+          this.cacheOptions.inMemory ? 'in-memory' : this.cacheOptions.dbLocation,
+          this,
+          this.cacheOptions.autoMigrate !== false
+        );
+      })();
+    }
+    return this._schemaCheck;
+  }
+
+  private async storedSchemaVersion(): Promise<number | null> {
+    if (this.schemaVersionFile) {
+      // eslint-disable-next-line
+      const fs = require('fs');
+      return fs.existsSync(this.schemaVersionFile) ? parseInt(fs.readFileSync(this.schemaVersionFile, 'utf8')) : null;
+    }
+    if (!this.shared) {
+      return this._schemaVersion;
+    }
+    try {
+      return (await this.db.get(this.schemaVersionKey)) as unknown as number;
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (e: any) {
+      if (e.code != 'LEVEL_NOT_FOUND') {
+        throw e;
+      }
+    }
+    return null;
+  }
+
+  private async isEmpty(): Promise<boolean> {
+    const keys: string[] = await this.db.keys({ limit: 1 }).all();
+    return keys.length == 0;
+  }
+
+  private isInternalKey(joinedKey: string): boolean {
+    return joinedKey == this.ongoingTransactionMark || joinedKey == this.schemaVersionKey;
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   async get(cacheKey: CacheKey, returnDeepCopy?: boolean): Promise<SortKeyCacheResult<V> | null> {
+    await this.ensureSchema();
     this.validateKey(cacheKey.key);
-    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(cacheKey.key, this.subLevelOptions);
+    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(
+      cacheKey.key,
+      this.subLevelOptions(cacheKey.key)
+    );
     // manually opening to fix https://github.com/Level/level/issues/221
     await contractCache.open();
     const subLevelValue = await this.getValueFromLevel(cacheKey.sortKey, contractCache);
@@ -87,7 +259,8 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
   }
 
   async getLast(key: string): Promise<SortKeyCacheResult<V> | null> {
-    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions);
+    await this.ensureSchema();
+    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions(key));
     // manually opening to fix https://github.com/Level/level/issues/221
     await contractCache.open();
     const keys = await contractCache.keys({ reverse: true, limit: 1 }).all();
@@ -101,7 +274,8 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
   }
 
   async getLessOrEqual(key: string, sortKey: string): Promise<SortKeyCacheResult<V> | null> {
-    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions);
+    await this.ensureSchema();
+    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions(key));
     // manually opening to fix https://github.com/Level/level/issues/221
     await contractCache.open();
     const keys = await contractCache.keys({ reverse: true, lte: sortKey, limit: 1 }).all();
@@ -158,22 +332,52 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
   }
 
   private async setClientValue(stateCacheKey: CacheKey, valueWrapper: ClientValueWrapper<V>): Promise<void> {
+    await this.ensureSchema();
     this.validateKey(stateCacheKey.key);
-    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(stateCacheKey.key, this.subLevelOptions);
+    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(
+      stateCacheKey.key,
+      this.subLevelOptions(stateCacheKey.key)
+    );
     // manually opening to fix https://github.com/Level/level/issues/221
     await contractCache.open();
-    await contractCache.put(stateCacheKey.sortKey, valueWrapper);
-    if (this._rollbackBatch) {
-      this._rollbackBatch.del(stateCacheKey.sortKey, { sublevel: contractCache });
+    if (this._savepoints) {
+      const joinedKey = `${stateCacheKey.key}${this.subLevelSeparator}${stateCacheKey.sortKey}`;
+      const previous = this._transactionKeys.has(joinedKey)
+        ? (await contractCache.getMany([stateCacheKey.sortKey]))[0]
+        : undefined;
+      this._transactionKeys.add(joinedKey);
+      this._savepoints[this._savepoints.length - 1].undo.push({
+        key: stateCacheKey.key,
+        sortKey: stateCacheKey.sortKey,
+        previous
+      });
     }
+    await contractCache.put(stateCacheKey.sortKey, valueWrapper);
   }
 
   async delete(key: string): Promise<void> {
-    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions);
+    await this.ensureSchema();
+    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions(key));
     await contractCache.open();
     await contractCache.clear();
   }
 
+  async invalidateFrom(key: string, sortKey: string): Promise<number> {
+    await this.ensureSchema();
+    this.validateKey(key);
+    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions(key));
+    await contractCache.open();
+    const sortKeys = await contractCache.keys({ gte: sortKey }).all();
+    await this.removeEntries(sortKeys.map((s) => new CacheKey(key, s)));
+    return sortKeys.length;
+  }
+
+  async invalidateAllFrom(sortKey: string): Promise<number> {
+    const toRemove = (await this.entryKeys()).filter((cacheKey) => cacheKey.sortKey.localeCompare(sortKey) >= 0);
+    await this.removeEntries(toRemove);
+    return toRemove.length;
+  }
+
   async batch(opStack: BatchDBOp<V>[]) {
     for (const op of opStack) {
       if (op.type === 'put') {
@@ -185,66 +389,124 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
   }
 
   async open(): Promise<void> {
+    await this.ensureSchema();
     await this.db.open();
   }
 
+  /**
+   * The db is not closed while the transaction is active - it might be still used by the enclosing savepoints
+   * (e.g. by the caller of a write-back that shares the same kv storage).
+   */
   async close(): Promise<void> {
-    if (this._db) {
+    if (this._db && this._savepoints == null) {
       await this._db.close();
     }
   }
 
-  async begin(): Promise<void> {
-    await this.initRollbackBatch();
+  /**
+   * Begins the transaction - or creates a nested savepoint, if the transaction is already active.
+   */
+  async begin(): Promise<Savepoint> {
+    await this.ensureSchema();
+    if (this._savepoints == null) {
+      await this.checkPreviousTransactionFinished();
+      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
+      // @ts-ignore
+      await this.db.put(this.ongoingTransactionMark, 'ongoing');
+      this._savepoints = [];
+      this._transactionKeys = new Set();
+    }
+    const savepoint = { id: ++this._savepointId, depth: this._savepoints.length };
+    this._savepoints.push({ savepoint, undo: [] });
+    return savepoint;
   }
 
   async rollback() {
-    if (this._rollbackBatch) {
-      this._rollbackBatch.del(this.ongoingTransactionMark);
-      await this._rollbackBatch.write();
-      await this._rollbackBatch.close();
+    if (this._savepoints) {
+      await this.rollbackTo(this._savepoints[0].savepoint);
     }
-    this._rollbackBatch = null;
   }
 
-  private async initRollbackBatch(): Promise<
-    AbstractChainedBatch<MemoryLevel<string, ClientValueWrapper<V>>, string, ClientValueWrapper<V>>
-  > {
-    if (this._rollbackBatch == null) {
-      await this.checkPreviousTransactionFinished();
-      // eslint-disable-next-line @typescript-eslint/ban-ts-comment
-      // @ts-ignore
-      await this.db.put(this.ongoingTransactionMark, 'ongoing');
+  async rollbackTo(savepoint: Savepoint): Promise<void> {
+    const index = this.savepointIndex(savepoint);
+    const undo = this._savepoints.slice(index).flatMap((log) => log.undo);
+
+    const batch = this.db.batch();
+    for (const { key, sortKey, previous } of undo.reverse()) {
+      const sublevel = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions(key));
+      if (previous) {
+        batch.put(sortKey, previous, { sublevel });
+      } else {
+        batch.del(sortKey, { sublevel });
+      }
+    }
+    if (index == 0) {
+      batch.del(this.ongoingTransactionMark);
+    }
+    await batch.write();
+    this.removeSavepoints(index);
+  }
+
+  async commit() {
+    if (this._savepoints) {
+      await this.release(this._savepoints[0].savepoint);
+    }
+  }
+
+  async release(savepoint: Savepoint): Promise<void> {
+    const index = this.savepointIndex(savepoint);
+    if (index == 0) {
+      await this.db.del(this.ongoingTransactionMark);
+    } else {
+      this._savepoints[index - 1].undo.push(...this._savepoints.slice(index).flatMap((log) => log.undo));
+    }
+    this.removeSavepoints(index);
+  }
+
+  private savepointIndex(savepoint: Savepoint): number {
+    const index = this._savepoints?.findIndex((log) => log.savepoint.id == savepoint.id) ?? -1;
+    if (index < 0) {
+      throw new Error(`Savepoint ${savepoint.id} is not active`);
+    }
+    return index;
+  }
 
-      this._rollbackBatch = this.db.batch();
+  private removeSavepoints(fromIndex: number) {
+    this._savepoints.splice(fromIndex);
+    if (this._savepoints.length == 0) {
+      this._savepoints = null;
+      this._transactionKeys = null;
     }
-    return this._rollbackBatch;
   }
 
   private async checkPreviousTransactionFinished() {
-    let transactionMarkValue;
+    if ((await this.transactionMarkValue()) == 'ongoing') {
+      throw new Error(`Database seems to be in inconsistent state. The previous transaction has not finished.`);
+    }
+  }
 
+  private async transactionMarkValue(): Promise<unknown> {
     try {
-      transactionMarkValue = await this.db.get(this.ongoingTransactionMark);
+      return await this.db.get(this.ongoingTransactionMark);
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
     } catch (e: any) {
       if (e.code != 'LEVEL_NOT_FOUND') {
         throw e;
       }
     }
+    return null;
+  }
 
-    if (transactionMarkValue == 'ongoing') {
-      throw new Error(`Database seems to be in inconsistent state. The previous transaction has not finished.`);
-    }
+  async hasUnfinishedTransaction(): Promise<boolean> {
+    await this.ensureSchema();
+    return this._savepoints == null && (await this.transactionMarkValue()) == 'ongoing';
   }
 
-  async commit() {
-    if (this._rollbackBatch) {
-      await this._rollbackBatch.clear();
-      await this.db.del(this.ongoingTransactionMark);
-      await this._rollbackBatch.close();
+  async clearUnfinishedTransaction(): Promise<void> {
+    if (this._savepoints) {
+      throw new Error('Cannot clear the transaction mark while the transaction is active');
     }
-    this._rollbackBatch = null;
+    await this.db.del(this.ongoingTransactionMark);
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -256,11 +518,12 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
   // TODO: this implementation is sub-optimal
   // the lastSortKey should be probably memoized during "put"
   async getLastSortKey(): Promise<string | null> {
+    await this.ensureSchema();
     let lastSortKey = '';
     await this.db.open();
     const keys = await this.db.keys().all();
 
-    for (const joinedKey of keys) {
+    for (const joinedKey of keys.filter((k) => !this.isInternalKey(k))) {
       // default joined key format used by sub-levels:
       // <separator><contract_tx_id (43 chars)><separator><sort_key>
       const sortKey = joinedKey.split(this.subLevelSeparator)[1];
@@ -294,9 +557,10 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
   }
 
   async kvMap(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<Map<string, V>> {
+    await this.ensureSchema();
     const result: Map<string, V> = new Map();
     const allKeys = (await this.db.keys(this.levelRangeOptions(options)).all())
-      .filter((k) => k != this.ongoingTransactionMark)
+      .filter((k) => !this.isInternalKey(k))
       .filter((k) => !sortKey || this.extractSortKey(k).localeCompare(sortKey) <= 0)
       .map((k) => this.extractOriginalKey(k));
 
@@ -318,6 +582,114 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
     return result;
   }
 
+  keysIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<string> {
+    return new CursorIterator(this.entriesGenerator(sortKey, options), (key) => key, options?.limit);
+  }
+
+  entriesIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<[string, V]> {
+    return new CursorIterator(
+      this.entriesGenerator(sortKey, options),
+      (key, value): [string, V] => [key, value],
+      options?.limit
+    );
+  }
+
+  /**
+   * Contrary to the {@link kvMap}, the joined keys are read lazily - and after reading the value
+   * for a given key, the iterator skips all the remaining entries (i.e. sort keys) stored for this key.
+   */
+  private async *entriesGenerator(sortKey: string, options: SortKeyCacheIteratorOptions): AsyncGenerator<[string, V]> {
+    await this.ensureSchema();
+    const reverse = options?.reverse === true;
+    const iterator = this.db.keys(this.levelIteratorOptions(options));
+    try {
+      let joinedKey: string;
+      while ((joinedKey = await iterator.next()) !== undefined) {
+        if (this.isInternalKey(joinedKey)) {
+          continue;
+        }
+        const key = this.extractOriginalKey(joinedKey);
+        // moving to the next key
+        iterator.seek(reverse ? this.keyLowerBound(key) : this.keyUpperBound(key));
+
+        const lastValue = sortKey ? await this.getLessOrEqual(key, sortKey) : await this.getLast(key);
+        if (lastValue) {
+          yield [key, lastValue.cachedValue];
+        }
+      }
+    } finally {
+      await iterator.close();
+    }
+  }
+
+  private levelIteratorOptions(options?: SortKeyCacheIteratorOptions): AbstractKeyIteratorOptions<string> {
+    const rangeOptions = this.levelRangeOptions(options);
+    const lowerBounds = [rangeOptions.gte];
+    const upperBounds = [rangeOptions.lt];
+
+    if (options?.prefix) {
+      lowerBounds.push(this.keyLowerBound(options.prefix));
+      upperBounds.push(this.subLevelSeparator + options.prefix + '\uffff');
+    }
+    if (options?.cursor) {
+      if (options.reverse) {
+        upperBounds.push(this.keyLowerBound(options.cursor));
+      } else {
+        lowerBounds.push(this.keyUpperBound(options.cursor));
+      }
+    }
+
+    const gte = lowerBounds.filter((b) => b !== undefined).sort();
+    const lt = upperBounds.filter((b) => b !== undefined).sort();
+    const iteratorOptions: AbstractKeyIteratorOptions<string> = { reverse: rangeOptions.reverse };
+    if (gte.length) {
+      iteratorOptions.gte = gte[gte.length - 1];
+    }
+    if (lt.length) {
+      iteratorOptions.lt = lt[0];
+    }
+    return iteratorOptions;
+  }
+
+  // lower than all the joined keys of the given key
+  private keyLowerBound(key: string): string {
+    return this.subLevelSeparator + key + this.subLevelSeparator;
+  }
+
+  // greater than all the joined keys of the given key
+  private keyUpperBound(key: string): string {
+    return this.subLevelSeparator + key + this.subLevelSeparator + '\uffff';
+  }
+
+  async history(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<V>[]> {
+    await this.ensureSchema();
+    this.validateKey(key);
+    const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(key, this.subLevelOptions(key));
+    // manually opening to fix https://github.com/Level/level/issues/221
+    await contractCache.open();
+
+    const rangeOptions: AbstractIteratorOptions<string, ClientValueWrapper<V>> = {
+      reverse: options?.reverse === true
+    };
+    if (options?.fromSortKey) {
+      rangeOptions.gte = options.fromSortKey;
+    }
+    if (options?.toSortKey) {
+      rangeOptions.lte = options.toSortKey;
+    }
+    if (options?.limit) {
+      rangeOptions.limit = options.limit;
+    }
+
+    return (await contractCache.iterator(rangeOptions).all()).map(([sortKey, wrappedValue]) => {
+      // values stored without the wrapper - see getValueFromLevel
+      if (wrappedValue.tomb === undefined && wrappedValue.value === undefined) {
+        return { sortKey, value: wrappedValue as V, deleted: false };
+      }
+      return { sortKey, value: wrappedValue.tomb ? null : wrappedValue.value, deleted: wrappedValue.tomb };
+    });
+  }
+
   private levelRangeOptions(options?: SortKeyCacheRangeOptions): AbstractKeyIteratorOptions<string> {
     const rangeOptions: AbstractKeyIteratorOptions<string> = {
       reverse: options?.reverse
@@ -338,50 +710,92 @@ export class LevelDbCache<V> implements SortKeyCache<V> {
     return this.db as S;
   }
 
-  async getNumEntries(): Promise<number> {
-    const keys = await this.db.keys().all();
-    return keys.length;
+  async entryKeys(): Promise<CacheKey[]> {
+    await this.ensureSchema();
+    const keys: string[] = await this.db.keys().all();
+    return keys
+      .filter((k) => !this.isInternalKey(k))
+      .map((k) => new CacheKey(this.extractOriginalKey(k), this.extractSortKey(k)));
   }
 
-  /**
-   Let's assume that given contract cache contains these sortKeys: [a, b, c, d, e, f]
-   Let's assume entriesStored = 2
-   After pruning, the cache should be left with these keys: [e,f].
-
-   const entries = await contractCache.keys({ reverse: true, limit: entriesStored }).all();
-   This would return in this case entries [f, e] (notice the "reverse: true").
-
-   await contractCache.clear({ lt: entries[entries.length - 1] });
-   This effectively means: await contractCache.clear({ lt: e });
-   -> hence the entries [a,b,c,d] are removed and left are the [e,f]
-  */
-  async prune(entriesStored = 5): Promise<null> {
-    if (!entriesStored || entriesStored <= 0) {
-      entriesStored = 1;
+  async removeEntries(cacheKeys: CacheKey[]): Promise<void> {
+    await this.ensureSchema();
+    const batch = this.db.batch();
+    for (const cacheKey of cacheKeys) {
+      batch.del(cacheKey.sortKey, { sublevel: this.db.sublevel(cacheKey.key, this.subLevelOptions(cacheKey.key)) });
     }
+    await batch.write();
+  }
 
-    const contracts = await this.allKeys();
-    for (let i = 0; i < contracts.length; i++) {
-      const contractCache = this.db.sublevel<string, ClientValueWrapper<V>>(contracts[i], this.subLevelOptions);
+  async getNumEntries(): Promise<number> {
+    await this.ensureSchema();
+    const keys = await this.db.keys().all();
+    return keys.filter((k) => !this.isInternalKey(k)).length;
+  }
 
-      // manually opening to fix https://github.com/Level/level/issues/221
-      await contractCache.open();
+  /**
+   * Removes the entries not retained by the retention policy - the entries are iterated lazily over the whole db
+   * (the joined sub-level keys are sorted by contract tx id and then by sort key) and the entries not retained
+   * are removed in a batch per contract tx id.
+   *
+   * The sizes in returned {@link PruneStats} are the sizes of the joined keys and the stored (encoded) values -
+   * summed up during the same iteration, only the sizes of the current contract's entries are kept in memory.
+   */
+  async prune(retention: number | RetentionPolicy = 5): Promise<PruneStats> {
+    await this.ensureSchema();
+    const policy = toRetentionPolicy(retention);
+
+    let entriesBefore = 0;
+    let entriesRemoved = 0;
+    let sizeBefore = 0;
+    let sizeRemoved = 0;
+    let currentKey: string = null;
+    let entries: { sortKey: string; joinedKey: string; size: number }[] = [];
+
+    const pruneCurrentKey = async () => {
+      if (entries.length == 0) {
+        return;
+      }
+      const toRemove = new Set(
+        sortKeysToRemove(
+          policy,
+          currentKey,
+          entries.map((e) => e.sortKey)
+        )
+      );
+      const batch = this.db.batch();
+      for (const entry of entries) {
+        if (toRemove.has(entry.sortKey)) {
+          batch.del(entry.joinedKey);
+          entriesRemoved++;
+          sizeRemoved += entry.size;
+        }
+      }
+      await batch.write();
+      entries = [];
+    };
 
-      // Get keys that will be left, just to get the last one of them
-      const entries = await contractCache.keys({ reverse: true, limit: entriesStored }).all();
-      if (!entries || entries.length < entriesStored) {
+    for await (const [joinedKey, value] of this.db.iterator<string, Uint8Array>({ valueEncoding: 'view' })) {
+      if (this.isInternalKey(joinedKey)) {
         continue;
       }
-      await contractCache.clear({ lt: entries[entries.length - 1] });
-      await contractCache.close();
+      const key = this.extractOriginalKey(joinedKey);
+      if (key != currentKey) {
+        await pruneCurrentKey();
+        currentKey = key;
+      }
+      const size = joinedKey.length + value.byteLength;
+      entries.push({ sortKey: this.extractSortKey(joinedKey), joinedKey, size });
+      entriesBefore++;
+      sizeBefore += size;
     }
+    await pruneCurrentKey();
 
-    return null;
-  }
-
-  private async allKeys(): Promise<string[]> {
-    return (await this.db.keys().all())
-      .filter((k) => k != this.ongoingTransactionMark)
-      .map((k) => this.extractOriginalKey(k));
+    return {
+      entriesBefore,
+      entriesAfter: entriesBefore - entriesRemoved,
+      sizeBefore,
+      sizeAfter: sizeBefore - sizeRemoved
+    };
   }
 }
@@ -0,0 +1,112 @@
+import { Level } from 'level';
+import { MemoryLevel } from 'memory-level';
+import { CacheOptions } from '../../core/WarpFactory';
+import { KVStorageFactory } from '../../core/Warp';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { SortKeyCache } from '../SortKeyCache';
+import { LevelDbCache } from './LevelDbCache';
+
+/**
+ * A {@link LevelDbCache} handle kept in the pool - open and close only count the references,
+ * the underlying sublevel is closed by the pool.
+ */
+class PooledLevelDbCache<V> extends LevelDbCache<V> {
+  private _references = 0;
+
+  get references(): number {
+    return this._references;
+  }
+
+  async open(): Promise<void> {
+    await super.open();
+    this._references++;
+  }
+
+  async close(): Promise<void> {
+    this._references = Math.max(this._references - 1, 0);
+  }
+
+  async release(): Promise<void> {
+    await super.close();
+  }
+}
+
+export interface SharedKVStorageStats {
+  // number of the pooled contract storages
+  handles: number;
+  // number of the storages currently opened (and not yet closed) by their users
+  inUse: number;
+}
+
+/**
+ * A {@link KVStorageFactory} that stores the KV storages of all the contracts in a single LevelDB instance
+ * - each contract in its own sublevel - instead of opening a separate LevelDB directory for every contract
+ * (which exhausts the file descriptors on the nodes with thousands of KV contracts).
+ *
+ * The storages are pooled - the factory returns the same {@link LevelDbCache} instance for a given contract.
+ * The open/close calls only count the references to the pooled storage - all the storages (and the db)
+ * are closed by the {@link close} - called by the {@link Warp.close}.
+ *
+ * Usage:
+ * WarpFactory.forMainnet({ ...defaultCacheOptions, sharedKVStorage: true })
+ * or
+ * warp.useKVStorageFactory(new SharedLevelDbKVStorage({ ...defaultCacheOptions, dbLocation: './cache/warp/kv/shared' }).factory);
+ */
+export class SharedLevelDbKVStorage {
+  private readonly logger = LoggerFactory.INST.create('SharedLevelDbKVStorage');
+  private readonly pool: Map<string, PooledLevelDbCache<unknown>> = new Map();
+
+  private _db: MemoryLevel<string, unknown>;
+
+  readonly factory: KVStorageFactory = Object.assign((contractTxId: string) => this.acquire(contractTxId), {
+    close: () => this.close()
+  });
+
+  constructor(private readonly cacheOptions: CacheOptions) {}
+
+  // Lazy initialization upon first access
+  private get db(): MemoryLevel<string, unknown> {
+    if (!this._db) {
+      if (this.cacheOptions.inMemory) {
+        this._db = new MemoryLevel();
+      } else {
+        if (!this.cacheOptions.dbLocation) {
+          throw new Error('Shared KV storage configuration error - no db location specified');
+        }
+        this.logger.info(`Using location ${this.cacheOptions.dbLocation}`);
+        this._db = new Level<string, unknown>(this.cacheOptions.dbLocation);
+      }
+    }
+    return this._db;
+  }
+
+  acquire(contractTxId: string): SortKeyCache<unknown> {
+    if (!this.pool.has(contractTxId)) {
+      this.pool.set(contractTxId, new PooledLevelDbCache(this.cacheOptions, { db: this.db, name: contractTxId }));
+    }
+    return this.pool.get(contractTxId);
+  }
+
+  stats(): SharedKVStorageStats {
+    const handles = Array.from(this.pool.values());
+    return {
+      handles: handles.length,
+      inUse: handles.filter((handle) => handle.references > 0).length
+    };
+  }
+
+  async close(): Promise<void> {
+    const handles = Array.from(this.pool.entries());
+    this.pool.clear();
+    for (const [contractTxId, handle] of handles) {
+      if (handle.references > 0) {
+        this.logger.warn(`Closing KV storage of ${contractTxId} still in use (${handle.references} references)`);
+      }
+      await handle.release();
+    }
+    if (this._db) {
+      await this._db.close();
+      this._db = null;
+    }
+  }
+}
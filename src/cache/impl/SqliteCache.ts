@@ -0,0 +1,498 @@
+import type BetterSqlite3 from 'better-sqlite3';
+import {
+  BatchDBOp,
+  CacheKey,
+  KeyHistoryOptions,
+  KeyVersion,
+  PruneStats,
+  SortKeyCache,
+  SortKeyCacheResult
+} from '../SortKeyCache';
+import { CacheOptions } from '../../core/WarpFactory';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { SortKeyCacheRangeOptions } from '../SortKeyCacheRangeOptions';
+import {
+  CursorIterator,
+  kvMapEntries,
+  SortKeyCacheIterator,
+  SortKeyCacheIteratorOptions
+} from '../SortKeyCacheIterator';
+import { CACHE_SCHEMA_VERSION, SchemaVersionedCache } from '../migration/CacheMigration';
+import { CacheMigrationRunner } from '../migration/CacheMigrationRunner';
+import { VerifiableCache } from '../verification/VerifiableCache';
+import { Savepoint } from '../BasicSortKeyCache';
+import { LatestEntriesRetention, RetentionPolicy, sortKeysToRemove, toRetentionPolicy } from '../RetentionPolicy';
+
+/**
+ * 'better-sqlite3' is an optional peer dependency (a native module) - it is required only
+ * when the first {@link SqliteCache} is opened.
+ */
+function loadBetterSqlite3(): typeof BetterSqlite3 {
+  try {
+    // eslint-disable-next-line
+    return require('better-sqlite3');
+  } catch (e) {
+    throw new Error(`SqliteCache requires the 'better-sqlite3' package - install it with 'npm install better-sqlite3'`);
+  }
+}
+
+/**
+ * A {@link SortKeyCache} implementation that stores all the values in a single table
+ * of an embedded SQLite database (https://www.npmjs.com/package/better-sqlite3).
+ *
+ * Each entry is stored as a separate row, identified by its key and sortKey - the primary key
+ * on (key, sort_key) uses the default BINARY collation, which keeps the same lexicographical
+ * ordering of the sort keys as the {@link LevelDbCache}.
+ * As the whole cache lives in one file, it can be easily queried or inspected with any SQLite client.
+ *
+ * The default location for the cache file is ./cache/warp/sort-key-cache.sqlite
+ * - i.e. the {@link CacheOptions.dbLocation} is treated as a directory, exactly as in the {@link LevelDbCache}.
+ *
+ * Deletions are stored as tombstones (see {@link LevelDbCache.del}), transactions are mapped directly
+ * to the SQLite transactions - and nested savepoints to the SQLite savepoints.
+ *
+ * Node.js only - import it from 'warp-contracts/node'.
+ *
+ * Usage:
+ * warp
+ *  .useStateCache(new SqliteCache({ ...defaultCacheOptions, dbLocation: './cache/warp/state' }))
+ *  .useKVStorageFactory((contractTxId) => new SqliteCache({ ...defaultCacheOptions, dbLocation: `./cache/warp/kv/${contractTxId}` }));
+ */
+export class SqliteCache<V> implements SortKeyCache<V>, SchemaVersionedCache, VerifiableCache {
+  private readonly logger = LoggerFactory.INST.create('SqliteCache');
+
+  private _db: BetterSqlite3.Database;
+  private _schemaChecked = false;
+
+  // savepoints of the active transaction - the first one is the transaction itself
+  private _savepoints: Savepoint[] = [];
+  private _savepointId = 0;
+
+  /**
+   * The schema version is stored in the 'user_version' pragma - it is checked (and the cache is migrated,
+   * unless the {@link CacheOptions.autoMigrate} is set to false) by each of the async methods
+   * before accessing the db.
+   */
+  private get db(): BetterSqlite3.Database {
+    if (!this._schemaChecked) {
+      throw new Error('Sqlite cache schema has not been checked');
+    }
+    return this.connection;
+  }
+
+  private async ensureSchema(): Promise<void> {
+    if (!this._schemaChecked) {
+      await new CacheMigrationRunner().ensureCompatible(
+        this.cacheOptions.inMemory ? 'in-memory' : this.cacheOptions.dbLocation,
+        this,
+        this.cacheOptions.autoMigrate !== false
+      );
+      this._schemaChecked = true;
+    }
+  }
+
+  // Lazy initialization upon first access
+  private get connection(): BetterSqlite3.Database {
+    if (!this._db) {
+      const Database = loadBetterSqlite3();
+      if (this.cacheOptions.inMemory) {
+        this._db = new Database(':memory:');
+      } else {
+        if (!this.cacheOptions.dbLocation) {
+          throw new Error('Sqlite cache configuration error - no db location specified');
+        }
+        // eslint-disable-next-line
+        const fs = require('fs');
+        fs.mkdirSync(this.cacheOptions.dbLocation, { recursive: true });
+        const dbFile = `${this.cacheOptions.dbLocation}/sort-key-cache.sqlite`;
+        this.logger.info(`Using location ${dbFile}`);
+        this._db = new Database(dbFile);
+        this._db.pragma('journal_mode = WAL');
+      }
+      this._db.exec(
+        `CREATE TABLE IF NOT EXISTS sort_key_cache
+         (
+             key      TEXT    NOT NULL,
+             sort_key TEXT    NOT NULL,
+             value    TEXT,
+             tomb     INTEGER NOT NULL DEFAULT 0,
+             PRIMARY KEY (key, sort_key)
+         ) WITHOUT ROWID`
+      );
+      // the files created before the schema versioning (user_version 0) have the layout of the version 1
+      if (this.schemaVersion() == 0) {
+        const empty = this._db.prepare('SELECT COUNT(*) FROM sort_key_cache').pluck().get() == 0;
+        this.setSchemaVersionSync(empty ? CACHE_SCHEMA_VERSION : 1);
+      }
+    }
+    return this._db;
+  }
+
+  constructor(private readonly cacheOptions: CacheOptions) {}
+
+  async getSchemaVersion(): Promise<number> {
+    return this.schemaVersion();
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    this.setSchemaVersionSync(version);
+    this._schemaChecked = false;
+  }
+
+  private schemaVersion(): number {
+    return this.connection.pragma('user_version', { simple: true }) as number;
+  }
+
+  private setSchemaVersionSync(version: number): void {
+    if (!Number.isInteger(version)) {
+      throw new Error(`Invalid schema version ${version}`);
+    }
+    this.connection.pragma(`user_version = ${version}`);
+  }
+
+  async get(cacheKey: CacheKey): Promise<SortKeyCacheResult<V> | null> {
+    await this.ensureSchema();
+    const row = this.db
+      .prepare('SELECT sort_key, value, tomb FROM sort_key_cache WHERE key = ? AND sort_key = ?')
+      .get(cacheKey.key, cacheKey.sortKey) as SqliteRow;
+    return this.toResult(row);
+  }
+
+  async getLast(key: string): Promise<SortKeyCacheResult<V> | null> {
+    await this.ensureSchema();
+    const row = this.db
+      .prepare('SELECT sort_key, value, tomb FROM sort_key_cache WHERE key = ? ORDER BY sort_key DESC LIMIT 1')
+      .get(key) as SqliteRow;
+    return this.toResult(row);
+  }
+
+  async getLessOrEqual(key: string, sortKey: string): Promise<SortKeyCacheResult<V> | null> {
+    await this.ensureSchema();
+    const row = this.db
+      .prepare(
+        'SELECT sort_key, value, tomb FROM sort_key_cache WHERE key = ? AND sort_key <= ? ORDER BY sort_key DESC LIMIT 1'
+      )
+      .get(key, sortKey) as SqliteRow;
+    return this.toResult(row);
+  }
+
+  async getLastSortKey(): Promise<string | null> {
+    await this.ensureSchema();
+    const lastSortKey = this.db.prepare('SELECT MAX(sort_key) FROM sort_key_cache').pluck().get() as string;
+    return lastSortKey ?? null;
+  }
+
+  async put(cacheKey: CacheKey, value: V): Promise<void> {
+    await this.ensureSchema();
+    this.setValue(cacheKey, JSON.stringify(value), false);
+  }
+
+  /**
+   * Just as in the {@link LevelDbCache.del} - the delete operation is a write of a tombstone,
+   * so the value is still available for the lower sortKeys.
+   */
+  async del(cacheKey: CacheKey): Promise<void> {
+    await this.ensureSchema();
+    this.setValue(cacheKey, null, true);
+  }
+
+  private setValue(cacheKey: CacheKey, value: string | null, tomb: boolean): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO sort_key_cache (key, sort_key, value, tomb) VALUES (?, ?, ?, ?)')
+      .run(cacheKey.key, cacheKey.sortKey, value, tomb ? 1 : 0);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ensureSchema();
+    this.db.prepare('DELETE FROM sort_key_cache WHERE key = ?').run(key);
+  }
+
+  async invalidateFrom(key: string, sortKey: string): Promise<number> {
+    await this.ensureSchema();
+    return this.db.prepare('DELETE FROM sort_key_cache WHERE key = ? AND sort_key >= ?').run(key, sortKey).changes;
+  }
+
+  async invalidateAllFrom(sortKey: string): Promise<number> {
+    await this.ensureSchema();
+    return this.db.prepare('DELETE FROM sort_key_cache WHERE sort_key >= ?').run(sortKey).changes;
+  }
+
+  async batch(opStack: BatchDBOp<V>[]) {
+    for (const op of opStack) {
+      if (op.type === 'put') {
+        await this.put(op.key, op.value);
+      } else if (op.type === 'del') {
+        await this.delete(op.key);
+      }
+    }
+  }
+
+  async open(): Promise<void> {
+    await this.ensureSchema();
+  }
+
+  // the db is not closed while the transaction is active - it might be still used by the enclosing savepoints
+  async close(): Promise<void> {
+    if (this._db && !this._db.inTransaction) {
+      this._db.close();
+      this._db = null;
+    }
+  }
+
+  async begin(): Promise<Savepoint> {
+    await this.ensureSchema();
+    if (!this.db.inTransaction) {
+      this.db.exec('BEGIN');
+      this._savepoints = [];
+    }
+    const savepoint = { id: ++this._savepointId, depth: this._savepoints.length };
+    if (savepoint.depth > 0) {
+      this.db.exec(`SAVEPOINT sp_${savepoint.id}`);
+    }
+    this._savepoints.push(savepoint);
+    return savepoint;
+  }
+
+  async rollback(): Promise<void> {
+    if (this._db?.inTransaction) {
+      this._db.exec('ROLLBACK');
+    }
+    this._savepoints = [];
+  }
+
+  async commit(): Promise<void> {
+    if (this._db?.inTransaction) {
+      this._db.exec('COMMIT');
+    }
+    this._savepoints = [];
+  }
+
+  async rollbackTo(savepoint: Savepoint): Promise<void> {
+    await this.ensureSchema();
+    const index = this.savepointIndex(savepoint);
+    if (index == 0) {
+      await this.rollback();
+    } else {
+      this.db.exec(`ROLLBACK TO sp_${savepoint.id}`);
+      this.db.exec(`RELEASE sp_${savepoint.id}`);
+      this._savepoints.splice(index);
+    }
+  }
+
+  async release(savepoint: Savepoint): Promise<void> {
+    await this.ensureSchema();
+    const index = this.savepointIndex(savepoint);
+    if (index == 0) {
+      await this.commit();
+    } else {
+      this.db.exec(`RELEASE sp_${savepoint.id}`);
+      this._savepoints.splice(index);
+    }
+  }
+
+  private savepointIndex(savepoint: Savepoint): number {
+    const index = this._db?.inTransaction ? this._savepoints.findIndex((s) => s.id == savepoint.id) : -1;
+    if (index < 0) {
+      throw new Error(`Savepoint ${savepoint.id} is not active`);
+    }
+    return index;
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async dump(): Promise<any> {
+    await this.ensureSchema();
+    return this.db.prepare('SELECT key, sort_key, value, tomb FROM sort_key_cache ORDER BY key, sort_key').all();
+  }
+
+  async keys(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<string[]> {
+    return Array.from((await this.kvMap(sortKey, options)).keys());
+  }
+
+  async kvMap(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<Map<string, V>> {
+    await this.ensureSchema();
+    const conditions = [];
+    const params = [];
+    if (sortKey) {
+      conditions.push('sort_key <= ?');
+      params.push(sortKey);
+    }
+    if (options?.gte) {
+      conditions.push('key >= ?');
+      params.push(options.gte);
+    }
+    if (options?.lt) {
+      conditions.push('key < ?');
+      params.push(options.lt);
+    }
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = options?.limit ? 'LIMIT ?' : '';
+    if (options?.limit) {
+      params.push(options.limit);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT c.key, c.value
+         FROM sort_key_cache c
+                  JOIN (SELECT key, MAX(sort_key) AS sort_key FROM sort_key_cache ${where} GROUP BY key) l
+                       ON c.key = l.key AND c.sort_key = l.sort_key
+         WHERE c.tomb = 0
+         ORDER BY c.key ${options?.reverse ? 'DESC' : 'ASC'} ${limit}`
+      )
+      .all(...params) as { key: string; value: string }[];
+
+    const result: Map<string, V> = new Map();
+    for (const row of rows) {
+      result.set(row.key, JSON.parse(row.value));
+    }
+    return result;
+  }
+
+  /**
+   * Note: all the keys in range are loaded at once - see {@link kvMapEntries}
+   */
+  keysIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<string> {
+    return new CursorIterator(this.entries(sortKey, options), (key) => key, options?.limit);
+  }
+
+  entriesIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<[string, V]> {
+    return new CursorIterator(
+      this.entries(sortKey, options),
+      (key, value): [string, V] => [key, value],
+      options?.limit
+    );
+  }
+
+  private entries(sortKey: string, options?: SortKeyCacheIteratorOptions): AsyncGenerator<[string, V]> {
+    return kvMapEntries((rangeOptions) => this.kvMap(sortKey, rangeOptions), options);
+  }
+
+  async history(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<V>[]> {
+    await this.ensureSchema();
+    const rows = this.db
+      .prepare(
+        `SELECT sort_key, value, tomb
+         FROM sort_key_cache
+         WHERE key = ? AND sort_key >= ? AND (? IS NULL OR sort_key <= ?)
+         ORDER BY sort_key ${options?.reverse ? 'DESC' : 'ASC'}
+         LIMIT ?`
+      )
+      .all(
+        key,
+        options?.fromSortKey || '',
+        options?.toSortKey || null,
+        options?.toSortKey || null,
+        options?.limit || -1
+      ) as SqliteRow[];
+    return rows.map((row) => ({
+      sortKey: row.sort_key,
+      value: row.tomb || row.value == null ? null : JSON.parse(row.value),
+      deleted: !!row.tomb
+    }));
+  }
+
+  // not checking the schema - used by the migrations
+  storage<S>(): S {
+    return this.connection as S;
+  }
+
+  async entryKeys(): Promise<CacheKey[]> {
+    await this.ensureSchema();
+    const rows = this.db.prepare('SELECT key, sort_key FROM sort_key_cache ORDER BY key, sort_key').all() as {
+      key: string;
+      sort_key: string;
+    }[];
+    return rows.map((row) => new CacheKey(row.key, row.sort_key));
+  }
+
+  async removeEntries(cacheKeys: CacheKey[]): Promise<void> {
+    await this.ensureSchema();
+    const deleteStatement = this.db.prepare('DELETE FROM sort_key_cache WHERE key = ? AND sort_key = ?');
+    this.db.transaction(() => {
+      for (const cacheKey of cacheKeys) {
+        deleteStatement.run(cacheKey.key, cacheKey.sortKey);
+      }
+    })();
+  }
+
+  async getNumEntries(): Promise<number> {
+    await this.ensureSchema();
+    return this.db.prepare('SELECT COUNT(*) FROM sort_key_cache').pluck().get() as number;
+  }
+
+  /**
+   * Removes the entries not retained by the retention policy.
+   * For the {@link LatestEntriesRetention} the window function is used, so that the whole operation
+   * is performed in a single statement - for other policies the retained sort keys are computed for each key
+   * and the remaining entries are removed within a single transaction.
+   * The sizes in returned {@link PruneStats} are the sizes (in bytes) of the stored keys and values.
+   */
+  async prune(retention: number | RetentionPolicy = 5): Promise<PruneStats> {
+    await this.ensureSchema();
+    const policy = toRetentionPolicy(retention);
+
+    const entriesBefore = await this.getNumEntries();
+    const sizeBefore = this.getSize();
+
+    if (policy instanceof LatestEntriesRetention) {
+      this.db
+        .prepare(
+          `DELETE
+           FROM sort_key_cache
+           WHERE (key, sort_key) IN (SELECT key, sort_key
+                                     FROM (SELECT key,
+                                                  sort_key,
+                                                  ROW_NUMBER() OVER (PARTITION BY key ORDER BY sort_key DESC) AS rn
+                                           FROM sort_key_cache)
+                                     WHERE rn > ?)`
+        )
+        .run(policy.entriesStored);
+    } else {
+      const rows = this.db.prepare('SELECT key, sort_key FROM sort_key_cache ORDER BY key, sort_key').all() as {
+        key: string;
+        sort_key: string;
+      }[];
+      const sortKeysPerKey: Map<string, string[]> = new Map();
+      for (const row of rows) {
+        if (!sortKeysPerKey.has(row.key)) {
+          sortKeysPerKey.set(row.key, []);
+        }
+        sortKeysPerKey.get(row.key).push(row.sort_key);
+      }
+
+      const deleteStatement = this.db.prepare('DELETE FROM sort_key_cache WHERE key = ? AND sort_key = ?');
+      this.db.transaction(() => {
+        for (const [key, sortKeys] of sortKeysPerKey) {
+          for (const sortKey of sortKeysToRemove(policy, key, sortKeys)) {
+            deleteStatement.run(key, sortKey);
+          }
+        }
+      })();
+    }
+
+    return {
+      entriesBefore,
+      entriesAfter: await this.getNumEntries(),
+      sizeBefore,
+      sizeAfter: this.getSize()
+    };
+  }
+
+  private getSize(): number {
+    return this.db
+      .prepare(
+        'SELECT COALESCE(SUM(LENGTH(key) + LENGTH(sort_key) + COALESCE(LENGTH(value), 0)), 0) FROM sort_key_cache'
+      )
+      .pluck()
+      .get() as number;
+  }
+
+  private toResult(row: SqliteRow | undefined): SortKeyCacheResult<V> | null {
+    if (!row || row.tomb || row.value == null) {
+      return null;
+    }
+    return new SortKeyCacheResult<V>(row.sort_key, JSON.parse(row.value));
+  }
+}
+
+type SqliteRow = { sort_key: string; value: string | null; tomb: number };
@@ -0,0 +1,256 @@
+import { BasicSortKeyCache, invalidateKeyFrom } from '../BasicSortKeyCache';
+import { CacheKey, PruneStats, SortKeyCacheResult } from '../SortKeyCache';
+import { RetentionPolicy } from '../RetentionPolicy';
+import { SimpleLRUCache } from '../../common/SimpleLRUCache';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { deepCopy } from '../../utils/utils';
+import { asVerifiableCache, VerifiableCache } from '../verification/VerifiableCache';
+import { CacheWrapper } from '../migration/CacheMigration';
+
+/**
+ * write-through - each put is immediately stored in both the memory tier and the underlying cache
+ * write-behind - puts are stored in the memory tier and flushed to the underlying cache in batches
+ */
+export type TieredCacheWriteMode = 'write-through' | 'write-behind';
+
+export type TieredSortKeyCacheOptions = {
+  // max. number of keys (e.g. contracts) held in the memory tier
+  capacity: number;
+  writeMode: TieredCacheWriteMode;
+  // (write-behind only) number of pending puts that triggers flushing to the underlying cache
+  flushThreshold: number;
+};
+
+export const defaultTieredCacheOptions: TieredSortKeyCacheOptions = {
+  capacity: 100,
+  writeMode: 'write-through',
+  flushThreshold: 100
+};
+
+export interface TieredCacheStats {
+  hits: number;
+  misses: number;
+  // number of keys currently held in the memory tier
+  size: number;
+  // number of puts not yet flushed to the underlying cache
+  pending: number;
+}
+
+/**
+ * A {@link BasicSortKeyCache} that puts a bounded, in-memory tier in front of any other {@link BasicSortKeyCache}
+ * (e.g. the {@link LevelDbCache}).
+ *
+ * For each key, the memory tier holds only the value stored under the latest sortKey - which is enough to serve
+ * all the {@link getLast} calls and the {@link getLessOrEqual} calls with the sortKey higher or equal
+ * than the cached one (i.e. a typical readState call for a 'hot' contract).
+ * All the other calls are delegated to the underlying cache.
+ *
+ * The values in the memory tier are copied on write and on read - the evaluator modifies e.g. the validity
+ * of the returned state in place.
+ *
+ * Transactions - all the keys modified within an active transaction are removed from the memory tier
+ * on rollback. In the write-behind mode, the pending puts are flushed before the underlying transaction
+ * begins and on commit - and discarded on rollback.
+ */
+export class TieredSortKeyCache<V> implements BasicSortKeyCache<V>, VerifiableCache, CacheWrapper {
+  private readonly logger = LoggerFactory.INST.create('TieredSortKeyCache');
+
+  private readonly memory: SimpleLRUCache<string, SortKeyCacheResult<V>>;
+  private readonly pending: Map<string, { cacheKey: CacheKey; value: V }> = new Map();
+  private readonly options: TieredSortKeyCacheOptions;
+
+  private transactionKeys: Set<string> = null;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly delegate: BasicSortKeyCache<V>, options: Partial<TieredSortKeyCacheOptions> = {}) {
+    this.options = { ...defaultTieredCacheOptions, ...options };
+    this.memory = new SimpleLRUCache(this.options.capacity);
+  }
+
+  async get(cacheKey: CacheKey): Promise<SortKeyCacheResult<V> | null> {
+    const pending = this.pending.get(this.pendingKey(cacheKey));
+    if (pending) {
+      this.hits++;
+      return new SortKeyCacheResult<V>(cacheKey.sortKey, deepCopy(pending.value));
+    }
+    const inMemory = this.memory.get(cacheKey.key);
+    if (inMemory && inMemory.sortKey == cacheKey.sortKey) {
+      this.hits++;
+      return this.copy(inMemory);
+    }
+    this.misses++;
+    return await this.delegate.get(cacheKey);
+  }
+
+  async getLast(key: string): Promise<SortKeyCacheResult<V> | null> {
+    const inMemory = this.memory.get(key);
+    if (inMemory) {
+      this.hits++;
+      return this.copy(inMemory);
+    }
+    this.misses++;
+    await this.flush();
+    const result = await this.delegate.getLast(key);
+    if (result) {
+      this.memory.set(key, this.copy(result));
+    }
+    return result;
+  }
+
+  async getLessOrEqual(key: string, sortKey: string): Promise<SortKeyCacheResult<V> | null> {
+    const inMemory = this.memory.get(key);
+    if (inMemory && inMemory.sortKey.localeCompare(sortKey) <= 0) {
+      this.hits++;
+      return this.copy(inMemory);
+    }
+    this.misses++;
+    await this.flush();
+    return await this.delegate.getLessOrEqual(key, sortKey);
+  }
+
+  async getLastSortKey(): Promise<string | null> {
+    await this.flush();
+    return await this.delegate.getLastSortKey();
+  }
+
+  async put(cacheKey: CacheKey, value: V): Promise<void> {
+    this.transactionKeys?.add(cacheKey.key);
+
+    // note: a key not present in the memory tier is not added here - as there's no guarantee
+    // that the underlying cache does not contain values for higher sortKeys
+    const inMemory = this.memory.get(cacheKey.key);
+    if (inMemory && inMemory.sortKey.localeCompare(cacheKey.sortKey) <= 0) {
+      this.memory.set(cacheKey.key, new SortKeyCacheResult<V>(cacheKey.sortKey, deepCopy(value)));
+    }
+
+    if (this.options.writeMode == 'write-behind') {
+      this.pending.set(this.pendingKey(cacheKey), { cacheKey, value: deepCopy(value) });
+      if (this.pending.size >= this.options.flushThreshold) {
+        await this.flush();
+      }
+    } else {
+      await this.delegate.put(cacheKey, value);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.transactionKeys?.add(key);
+    this.memory.delete(key);
+    for (const [pendingKey, { cacheKey }] of this.pending) {
+      if (cacheKey.key == key) {
+        this.pending.delete(pendingKey);
+      }
+    }
+    await this.delegate.delete(key);
+  }
+
+  async invalidateFrom(key: string, sortKey: string): Promise<number | null> {
+    await this.flush();
+    this.transactionKeys?.add(key);
+    this.memory.delete(key);
+    return await invalidateKeyFrom(this.delegate, key, sortKey);
+  }
+
+  /**
+   * stores all the pending puts (write-behind mode) in the underlying cache
+   */
+  async flush(): Promise<void> {
+    if (this.pending.size == 0) {
+      return;
+    }
+    this.logger.debug(`Flushing ${this.pending.size} entries`);
+    const toFlush = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const { cacheKey, value } of toFlush) {
+      await this.delegate.put(cacheKey, value);
+    }
+  }
+
+  async open(): Promise<void> {
+    await this.delegate.open();
+  }
+
+  async close(): Promise<void> {
+    await this.flush();
+    await this.delegate.close();
+  }
+
+  async begin(): Promise<void> {
+    await this.flush();
+    if (this.transactionKeys == null) {
+      this.transactionKeys = new Set();
+    }
+    await this.delegate.begin();
+  }
+
+  async rollback(): Promise<void> {
+    this.pending.clear();
+    if (this.transactionKeys) {
+      for (const key of this.transactionKeys) {
+        this.memory.delete(key);
+      }
+    }
+    this.transactionKeys = null;
+    await this.delegate.rollback();
+  }
+
+  async commit(): Promise<void> {
+    await this.flush();
+    this.transactionKeys = null;
+    await this.delegate.commit();
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async dump(): Promise<any> {
+    await this.flush();
+    return await this.delegate.dump();
+  }
+
+  storage<S>(): S {
+    return this.delegate.storage<S>();
+  }
+
+  unwrap(): BasicSortKeyCache<V> {
+    return this.delegate;
+  }
+
+  async prune(retention: number | RetentionPolicy): Promise<PruneStats | null> {
+    await this.flush();
+    this.memory.clear();
+    return await this.delegate.prune(retention);
+  }
+
+  /**
+   * requires the underlying cache to be a {@link VerifiableCache}
+   */
+  async entryKeys(): Promise<CacheKey[]> {
+    await this.flush();
+    return await asVerifiableCache(this.delegate).entryKeys();
+  }
+
+  async removeEntries(cacheKeys: CacheKey[]): Promise<void> {
+    await this.flush();
+    for (const cacheKey of cacheKeys) {
+      this.memory.delete(cacheKey.key);
+    }
+    await asVerifiableCache(this.delegate).removeEntries(cacheKeys);
+  }
+
+  stats(): TieredCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: this.memory.size(),
+      pending: this.pending.size
+    };
+  }
+
+  private copy(result: SortKeyCacheResult<V>): SortKeyCacheResult<V> {
+    return new SortKeyCacheResult<V>(result.sortKey, deepCopy(result.cachedValue));
+  }
+
+  private pendingKey(cacheKey: CacheKey): string {
+    return `${cacheKey.key}|${cacheKey.sortKey}`;
+  }
+}
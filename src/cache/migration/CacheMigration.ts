@@ -0,0 +1,70 @@
+import { BasicSortKeyCache } from '../BasicSortKeyCache';
+
+/**
+ * The version of the layout of the data stored by the caches created by the SDK
+ * (e.g. the {@link LevelDbCache} value wrappers or the {@link EvalStateResult} shape).
+ * Should be increased (together with adding a new {@link CacheMigration}) each time the layout changes.
+ */
+export const CACHE_SCHEMA_VERSION = 1;
+
+/**
+ * A cache that stores the version of its schema.
+ */
+export interface SchemaVersionedCache {
+  /**
+   * returns the stored schema version - or 0 for the non-empty caches created before
+   * the schema versioning was introduced
+   */
+  getSchemaVersion(): Promise<number>;
+
+  setSchemaVersion(version: number): Promise<void>;
+}
+
+export type MigratableCache = SchemaVersionedCache & BasicSortKeyCache<unknown>;
+
+/**
+ * A cache that wraps another cache (e.g. the {@link TieredSortKeyCache}) - the schema version
+ * is stored (and the migrations are performed) by the innermost cache.
+ */
+export interface CacheWrapper {
+  unwrap(): BasicSortKeyCache<unknown>;
+}
+
+/**
+ * Upgrades the cache from the (version - 1) to the version.
+ *
+ * Note: migrations are run while the cache is being opened - so they should operate
+ * directly on the underlying storage ({@link BasicSortKeyCache.storage}) and not on the cache methods.
+ */
+export interface CacheMigration {
+  readonly version: number;
+
+  readonly description: string;
+
+  /**
+   * @returns the number of entries changed - or that would be changed in the dry-run mode
+   */
+  migrate(cache: MigratableCache, dryRun: boolean): Promise<number>;
+}
+
+export const cacheMigrations: CacheMigration[] = [
+  {
+    version: 1,
+    description: 'Introduces the schema version - the layout of the data is not changed',
+    migrate: async () => 0
+  }
+];
+
+export function isSchemaVersionedCache(cache: unknown): cache is MigratableCache {
+  return (
+    typeof (cache as SchemaVersionedCache)?.getSchemaVersion === 'function' &&
+    typeof (cache as SchemaVersionedCache)?.setSchemaVersion === 'function'
+  );
+}
+
+export function unwrapCache(cache: unknown): unknown {
+  while (typeof (cache as CacheWrapper)?.unwrap === 'function') {
+    cache = (cache as CacheWrapper).unwrap();
+  }
+  return cache;
+}
@@ -0,0 +1,152 @@
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import {
+  CACHE_SCHEMA_VERSION,
+  CacheMigration,
+  cacheMigrations,
+  isSchemaVersionedCache,
+  MigratableCache,
+  unwrapCache
+} from './CacheMigration';
+import { Warp } from '../../core/Warp';
+
+export type CacheMigrationStatus = 'up-to-date' | 'migrated' | 'pending' | 'unsupported';
+
+export interface CacheMigrationStepReport {
+  version: number;
+  description: string;
+  entriesChanged: number;
+}
+
+export interface CacheMigrationReport {
+  cache: string;
+  fromVersion: number;
+  toVersion: number;
+  // 'pending' - dry-run only, the migration is required
+  status: CacheMigrationStatus;
+  steps: CacheMigrationStepReport[];
+  error?: string;
+}
+
+/**
+ * Upgrades the caches to the current {@link CACHE_SCHEMA_VERSION} by applying all the required {@link CacheMigration}s
+ * in order. In the dry-run mode nothing is changed - only the report with the required migrations is returned.
+ *
+ * The caches created by the SDK check their schema version when opened - and, unless
+ * the {@link CacheOptions.autoMigrate} is set to false, run the migrations automatically.
+ * The runner allows to check (and perform) the migrations upfront, e.g.
+ *
+ * const reports = await new CacheMigrationRunner().run(CacheMigrationRunner.warpCaches(warp), true);
+ */
+export class CacheMigrationRunner {
+  private readonly logger = LoggerFactory.INST.create('CacheMigrationRunner');
+
+  constructor(
+    private readonly migrations: CacheMigration[] = cacheMigrations,
+    private readonly targetVersion: number = CACHE_SCHEMA_VERSION
+  ) {}
+
+  async run(caches: Record<string, MigratableCache>, dryRun = false): Promise<CacheMigrationReport[]> {
+    const reports: CacheMigrationReport[] = [];
+    for (const [name, cache] of Object.entries(caches)) {
+      reports.push(await this.migrate(name, cache, dryRun));
+    }
+    return reports;
+  }
+
+  async migrate(name: string, cache: MigratableCache, dryRun = false): Promise<CacheMigrationReport> {
+    const fromVersion = await cache.getSchemaVersion();
+    const report: CacheMigrationReport = {
+      cache: name,
+      fromVersion,
+      toVersion: this.targetVersion,
+      status: 'up-to-date',
+      steps: []
+    };
+
+    if (fromVersion == this.targetVersion) {
+      return report;
+    }
+    const error = this.validate(fromVersion);
+    if (error) {
+      return { ...report, status: 'unsupported', error };
+    }
+
+    for (const migration of this.requiredMigrations(fromVersion)) {
+      this.logger.info(`${dryRun ? '[dry-run] ' : ''}Migrating ${name} to version ${migration.version}`);
+      const entriesChanged = await migration.migrate(cache, dryRun);
+      if (!dryRun) {
+        await cache.setSchemaVersion(migration.version);
+      }
+      report.steps.push({ version: migration.version, description: migration.description, entriesChanged });
+    }
+    report.status = dryRun ? 'pending' : 'migrated';
+
+    return report;
+  }
+
+  /**
+   * Throws if the cache cannot be used with the current version of the SDK.
+   * Performs the migrations if the autoMigrate is set.
+   */
+  async ensureCompatible(name: string, cache: MigratableCache, autoMigrate: boolean): Promise<void> {
+    const version = await cache.getSchemaVersion();
+    if (version == this.targetVersion) {
+      return;
+    }
+    const error = this.validate(version);
+    if (error) {
+      throw new Error(`Cannot open cache ${name}: ${error}`);
+    }
+    if (!autoMigrate) {
+      throw new Error(
+        `Cannot open cache ${name}: schema version ${version} requires migration to version ${this.targetVersion}. ` +
+          `Run the CacheMigrationRunner or enable the autoMigrate cache option.`
+      );
+    }
+    await this.migrate(name, cache);
+  }
+
+  /**
+   * Returns all the schema versioned caches used by the given Warp instance - i.e. the state cache,
+   * the contract definitions and sources caches and the KV storages of the given contracts.
+   * The wrapped caches (e.g. the {@link DeltaSortKeyCache}) are unwrapped - so the migrations should be run
+   * before the Warp instance is used.
+   */
+  static warpCaches(warp: Warp, contractTxIds: string[] = []): Record<string, MigratableCache> {
+    const caches: Record<string, unknown> = {
+      state: warp.stateEvaluator.getCache(),
+      contracts: warp.definitionLoader.getCache(),
+      sources: warp.definitionLoader.getSrcCache()
+    };
+    for (const contractTxId of contractTxIds) {
+      caches[`kv:${contractTxId}`] = warp.kvStorageFactory(contractTxId);
+    }
+
+    const result: Record<string, MigratableCache> = {};
+    for (const [name, cache] of Object.entries(caches)) {
+      const unwrapped = unwrapCache(cache);
+      if (isSchemaVersionedCache(unwrapped)) {
+        result[name] = unwrapped;
+      }
+    }
+    return result;
+  }
+
+  private validate(version: number): string | null {
+    if (version > this.targetVersion) {
+      return `schema version ${version} is newer than supported ${this.targetVersion} - the cache was created by a newer SDK version`;
+    }
+    for (let v = version + 1; v <= this.targetVersion; v++) {
+      if (!this.migrations.some((m) => m.version == v)) {
+        return `no migration from schema version ${v - 1} to ${v}`;
+      }
+    }
+    return null;
+  }
+
+  private requiredMigrations(fromVersion: number): CacheMigration[] {
+    return this.migrations
+      .filter((m) => m.version > fromVersion && m.version <= this.targetVersion)
+      .sort((a, b) => a.version - b.version);
+  }
+}
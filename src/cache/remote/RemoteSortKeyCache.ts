@@ -0,0 +1,286 @@
+import {
+  BatchDBOp,
+  CacheKey,
+  KeyHistoryOptions,
+  KeyVersion,
+  PruneStats,
+  SortKeyCache,
+  SortKeyCacheResult
+} from '../SortKeyCache';
+import { Savepoint } from '../BasicSortKeyCache';
+import {
+  describeRetentionPolicy,
+  RetainedSortKeysRetention,
+  RetentionPolicy,
+  RetentionPolicyDescriptor
+} from '../RetentionPolicy';
+import { SortKeyCacheRangeOptions } from '../SortKeyCacheRangeOptions';
+import {
+  CursorIterator,
+  kvMapEntries,
+  SortKeyCacheIterator,
+  SortKeyCacheIteratorOptions
+} from '../SortKeyCacheIterator';
+import { NetworkCommunicationError } from '../../utils/utils';
+
+/**
+ * The header that binds the request to the transaction started by the 'begin' call.
+ */
+export const REMOTE_CACHE_TRANSACTION_HEADER = 'X-Warp-Transaction';
+
+/**
+ * The remote cache protocol methods - see {@link RemoteSortKeyCache}.
+ */
+export type RemoteCacheMethod =
+  | 'get'
+  | 'getLessOrEqual'
+  | 'getLast'
+  | 'getLastSortKey'
+  | 'put'
+  | 'del'
+  | 'delete'
+  | 'batch'
+  | 'keys'
+  | 'kvMap'
+  | 'history'
+  | 'invalidateFrom'
+  | 'invalidateAllFrom'
+  | 'prune'
+  | 'dump'
+  | 'begin'
+  | 'commit'
+  | 'rollback'
+  | 'rollbackTo'
+  | 'release';
+
+// the entries are sent as {sortKey, value} objects, the maps as arrays of [key, value] pairs
+type RemoteCacheEntry<V> = { sortKey: string; value: V } | null;
+
+/**
+ * A {@link SortKeyCache} client of a cache shared over HTTP - e.g. by several evaluation workers.
+ * The reference server ({@link RemoteSortKeyCacheServer}) wraps any local {@link SortKeyCache}.
+ *
+ * Protocol - each operation is a 'POST <url>/<method>' request with a JSON object of named params,
+ * the response is a JSON object - {result} for 200 OK and {error} for the failed requests:
+ * - get, getLessOrEqual: {key, sortKey} -> {sortKey, value} | null
+ * - getLast: {key} -> {sortKey, value} | null
+ * - getLastSortKey: {} -> string | null
+ * - put: {key, sortKey, value} -> null
+ * - del: {key, sortKey} -> null
+ * - delete: {key} -> null
+ * - batch: {ops: BatchDBOp[]} -> null
+ * - keys: {sortKey, options: SortKeyCacheRangeOptions} -> string[]
+ * - kvMap: {sortKey, options: SortKeyCacheRangeOptions} -> [key, value][]
+ * - history: {key, options: KeyHistoryOptions} -> KeyVersion[]
+ * - invalidateFrom: {key, sortKey} -> number
+ * - invalidateAllFrom: {sortKey} -> number
+ * - prune: {retention: number | RetentionPolicyDescriptor} -> PruneStats
+ * - dump: {} -> any
+ * - begin: {} -> {transactionId, savepoint}
+ * - commit, rollback: {} -> {active: false}
+ * - rollbackTo, release: {savepoint} -> {active} (whether the transaction is still active)
+ *
+ * All the requests made after 'begin' carry the transaction id in the {@link REMOTE_CACHE_TRANSACTION_HEADER}
+ * header - the nested 'begin' calls create savepoints within the same transaction.
+ * Only one transaction is active at a time - the server queues the 'begin' calls and all the requests of the other
+ * clients until the active transaction finishes (so that they never read its uncommitted writes).
+ *
+ * Note: one client instance holds at most one transaction (the id sent in the header) - so it must not be shared
+ * by the concurrent evaluations, each of them should create its own instance (they all may point to the same server).
+ *
+ * Note: the values are serialized as JSON - so they lose their prototypes (exactly as with the default
+ * {@link LevelDbCache} codec). The built-in retention policies are sent to the server as the
+ * {@link RetentionPolicyDescriptor} - for the custom ones, the client computes the retained sortKeys of each key
+ * (which requires downloading the whole history of the keys).
+ */
+export class RemoteSortKeyCache<V> implements SortKeyCache<V> {
+  private transactionId: string = null;
+
+  /**
+   * @param url - base url of the server, e.g. http://localhost:8787/state
+   * @param headers - additional headers sent with each request (e.g. the authorization)
+   */
+  constructor(private readonly url: string, private readonly headers: Record<string, string> = {}) {}
+
+  async get(cacheKey: CacheKey): Promise<SortKeyCacheResult<V> | null> {
+    return this.result(await this.call<RemoteCacheEntry<V>>('get', { key: cacheKey.key, sortKey: cacheKey.sortKey }));
+  }
+
+  async getLessOrEqual(key: string, sortKey: string): Promise<SortKeyCacheResult<V> | null> {
+    return this.result(await this.call<RemoteCacheEntry<V>>('getLessOrEqual', { key, sortKey }));
+  }
+
+  async getLast(key: string): Promise<SortKeyCacheResult<V> | null> {
+    return this.result(await this.call<RemoteCacheEntry<V>>('getLast', { key }));
+  }
+
+  async getLastSortKey(): Promise<string | null> {
+    return await this.call<string | null>('getLastSortKey');
+  }
+
+  async put(cacheKey: CacheKey, value: V): Promise<void> {
+    await this.call('put', { key: cacheKey.key, sortKey: cacheKey.sortKey, value });
+  }
+
+  async del(cacheKey: CacheKey): Promise<void> {
+    await this.call('del', { key: cacheKey.key, sortKey: cacheKey.sortKey });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.call('delete', { key });
+  }
+
+  async batch(opStack: BatchDBOp<V>[]) {
+    await this.call('batch', { ops: opStack });
+  }
+
+  async keys(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<string[]> {
+    return await this.call<string[]>('keys', { sortKey, options });
+  }
+
+  async kvMap(sortKey: string, options?: SortKeyCacheRangeOptions): Promise<Map<string, V>> {
+    return new Map(await this.call<[string, V][]>('kvMap', { sortKey, options }));
+  }
+
+  keysIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<string> {
+    return new CursorIterator(this.entries(sortKey, options), (key) => key, options?.limit);
+  }
+
+  entriesIterator(sortKey: string, options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<[string, V]> {
+    return new CursorIterator(
+      this.entries(sortKey, options),
+      (key, value): [string, V] => [key, value],
+      options?.limit
+    );
+  }
+
+  private entries(sortKey: string, options?: SortKeyCacheIteratorOptions): AsyncGenerator<[string, V]> {
+    return kvMapEntries((rangeOptions) => this.kvMap(sortKey, rangeOptions), options);
+  }
+
+  async history(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<V>[]> {
+    return await this.call<KeyVersion<V>[]>('history', { key, options });
+  }
+
+  async invalidateFrom(key: string, sortKey: string): Promise<number> {
+    return await this.call<number>('invalidateFrom', { key, sortKey });
+  }
+
+  async invalidateAllFrom(sortKey: string): Promise<number> {
+    return await this.call<number>('invalidateAllFrom', { sortKey });
+  }
+
+  async prune(retention: number | RetentionPolicy): Promise<PruneStats | null> {
+    if (typeof retention == 'number' || retention == null) {
+      return await this.call<PruneStats>('prune', { retention });
+    }
+    const descriptor = describeRetentionPolicy(retention) || (await this.retainedSortKeys(retention));
+    return await this.call<PruneStats>('prune', { retention: descriptor });
+  }
+
+  private async retainedSortKeys(policy: RetentionPolicy): Promise<RetentionPolicyDescriptor> {
+    const retained: Record<string, string[]> = {};
+    const lastSortKey = await this.getLastSortKey();
+    if (lastSortKey) {
+      // the keys not listed (e.g. deleted) are not pruned at all
+      for (const key of await this.keys(lastSortKey)) {
+        const sortKeys = (await this.history(key)).map((version) => version.sortKey);
+        retained[key] = Array.from(policy.retain(key, sortKeys));
+      }
+    }
+    return describeRetentionPolicy(new RetainedSortKeysRetention(retained));
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async dump(): Promise<any> {
+    return await this.call('dump');
+  }
+
+  async open(): Promise<void> {
+    // noop - each operation is a separate request
+  }
+
+  async close(): Promise<void> {
+    // noop - each operation is a separate request
+  }
+
+  async begin(): Promise<Savepoint | void> {
+    const { transactionId, savepoint } = await this.call<{ transactionId: string; savepoint: Savepoint | null }>(
+      'begin'
+    );
+    this.transactionId = transactionId;
+    return savepoint || undefined;
+  }
+
+  async rollback(): Promise<void> {
+    if (this.transactionId) {
+      try {
+        await this.finish('rollback');
+      } finally {
+        // e.g. the transaction expired on the server
+        this.transactionId = null;
+      }
+    }
+  }
+
+  async commit(): Promise<void> {
+    if (this.transactionId) {
+      try {
+        await this.finish('commit');
+      } finally {
+        this.transactionId = null;
+      }
+    }
+  }
+
+  async rollbackTo(savepoint: Savepoint): Promise<void> {
+    await this.finish('rollbackTo', { savepoint });
+  }
+
+  async release(savepoint: Savepoint): Promise<void> {
+    await this.finish('release', { savepoint });
+  }
+
+  /**
+   * the underlying storage is not accessible remotely
+   */
+  storage<S>(): S {
+    return null;
+  }
+
+  private async finish(method: RemoteCacheMethod, params?: Record<string, unknown>): Promise<void> {
+    const { active } = await this.call<{ active: boolean }>(method, params);
+    if (!active) {
+      this.transactionId = null;
+    }
+  }
+
+  private result(entry: RemoteCacheEntry<V>): SortKeyCacheResult<V> | null {
+    return entry == null ? null : new SortKeyCacheResult<V>(entry.sortKey, entry.value);
+  }
+
+  private async call<T>(method: RemoteCacheMethod, params: Record<string, unknown> = {}): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...this.headers };
+    if (this.transactionId) {
+      headers[REMOTE_CACHE_TRANSACTION_HEADER] = this.transactionId;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}/${method}`, { method: 'POST', headers, body: JSON.stringify(params) });
+    } catch (e) {
+      throw new NetworkCommunicationError(`Error during communication with remote cache ${this.url}: ${e.message}`);
+    }
+
+    let body: { result?: T; error?: string };
+    try {
+      body = await response.json();
+    } catch (e) {
+      throw new NetworkCommunicationError(`Error while parsing remote cache response: ${response.status}`);
+    }
+    if (!response.ok) {
+      throw new Error(`Remote cache ${method} failed: ${body.error || response.status}`);
+    }
+    return body.result;
+  }
+}
@@ -0,0 +1,319 @@
+import { CacheKey, invalidateAllKeysFrom, keyHistory, SortKeyCache, SortKeyCacheResult } from '../SortKeyCache';
+import { invalidateKeyFrom, Savepoint } from '../BasicSortKeyCache';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { REMOTE_CACHE_TRANSACTION_HEADER, RemoteCacheMethod } from './RemoteSortKeyCache';
+import { retentionPolicyFromDescriptor } from '../RetentionPolicy';
+
+export interface RemoteSortKeyCacheServerOptions {
+  // the transaction not finished within this time is rolled back - so that a crashed client does not block the cache
+  transactionTimeoutMs: number;
+  // if set, the http requests have to carry the 'Authorization: Bearer <authToken>' header
+  // - required, if the http server listens on a non-loopback address
+  authToken?: string;
+  // the larger http request bodies are rejected with 413 - defaults to DEFAULT_REMOTE_CACHE_MAX_BODY_BYTES
+  maxBodyBytes?: number;
+}
+
+export const DEFAULT_REMOTE_CACHE_MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+export const defaultRemoteSortKeyCacheServerOptions: RemoteSortKeyCacheServerOptions = {
+  transactionTimeoutMs: 30000,
+  maxBodyBytes: DEFAULT_REMOTE_CACHE_MAX_BODY_BYTES
+};
+
+interface ActiveTransaction {
+  id: string;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type RemoteCacheParams = Record<string, any>;
+
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || host.startsWith('127.');
+}
+
+/**
+ * The reference server of the {@link RemoteSortKeyCache} protocol - exposes any local {@link SortKeyCache}.
+ *
+ * The {@link handle} is transport independent - the {@link listen} starts the Node.js http server,
+ * but the server might be also mounted in any existing http framework, e.g.
+ * app.post('/state/:method', async (req, res) => res.json({ result: await server.handle(req.params.method, req.body, req.get(REMOTE_CACHE_TRANSACTION_HEADER)) }))
+ *
+ * The {@link RemoteSortKeyCacheServerOptions.authToken} protects the http server from the other local processes
+ * - the clients pass it in the {@link RemoteSortKeyCache} headers. It is required for the non-loopback addresses.
+ *
+ * The server runs one transaction at a time - all the requests made outside the active transaction (including the reads,
+ * so that they never see its uncommitted writes) wait until it is committed, rolled back or expired
+ * (see {@link RemoteSortKeyCacheServerOptions.transactionTimeoutMs}).
+ *
+ * Node.js only - import it from 'warp-contracts/node'.
+ */
+export class RemoteSortKeyCacheServer<V> {
+  private readonly logger = LoggerFactory.INST.create('RemoteSortKeyCacheServer');
+
+  private active: ActiveTransaction = null;
+  private waiting: (() => void)[] = [];
+  private transactionsCount = 0;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private httpServer: any = null;
+
+  constructor(
+    private readonly cache: SortKeyCache<V>,
+    private readonly options: RemoteSortKeyCacheServerOptions = defaultRemoteSortKeyCacheServerOptions
+  ) {}
+
+  /**
+   * Executes a single protocol call and returns its result.
+   *
+   * @param method - the protocol method
+   * @param params - the named params of the method
+   * @param transactionId - the value of the {@link REMOTE_CACHE_TRANSACTION_HEADER} header
+   */
+  async handle(method: string, params: RemoteCacheParams = {}, transactionId?: string): Promise<unknown> {
+    if (transactionId && this.active?.id !== transactionId) {
+      throw new Error(`Transaction ${transactionId} is not active`);
+    }
+    if (!transactionId && method !== 'begin') {
+      await this.waitForTransaction();
+    }
+
+    switch (method as RemoteCacheMethod) {
+      case 'get':
+        return this.entry(await this.cache.get(new CacheKey(params.key, params.sortKey)));
+      case 'getLessOrEqual':
+        return this.entry(await this.cache.getLessOrEqual(params.key, params.sortKey));
+      case 'getLast':
+        return this.entry(await this.cache.getLast(params.key));
+      case 'getLastSortKey':
+        return await this.cache.getLastSortKey();
+      case 'put':
+        await this.cache.put(new CacheKey(params.key, params.sortKey), params.value);
+        return null;
+      case 'del':
+        await this.cache.del(new CacheKey(params.key, params.sortKey));
+        return null;
+      case 'delete':
+        await this.cache.delete(params.key);
+        return null;
+      case 'batch':
+        await this.cache.batch(params.ops);
+        return null;
+      case 'keys':
+        return await this.cache.keys(params.sortKey, params.options);
+      case 'kvMap':
+        return Array.from((await this.cache.kvMap(params.sortKey, params.options)).entries());
+      case 'history':
+        return await keyHistory(this.cache, params.key, params.options);
+      case 'invalidateFrom':
+        return await invalidateKeyFrom(this.cache, params.key, params.sortKey);
+      case 'invalidateAllFrom':
+        return await invalidateAllKeysFrom(this.cache, params.sortKey);
+      case 'prune':
+        return await this.cache.prune(
+          params.retention == null || typeof params.retention == 'number'
+            ? params.retention
+            : retentionPolicyFromDescriptor(params.retention)
+        );
+      case 'dump':
+        return await this.cache.dump();
+      case 'begin':
+        return await this.begin(transactionId);
+      case 'commit':
+        return await this.finish(transactionId, () => this.cache.commit());
+      case 'rollback':
+        return await this.finish(transactionId, () => this.cache.rollback());
+      case 'rollbackTo':
+        return await this.rollbackTo(transactionId, params.savepoint);
+      case 'release':
+        return await this.release(transactionId, params.savepoint);
+      default:
+        throw new Error(`Unknown remote cache method ${method}`);
+    }
+  }
+
+  /**
+   * Starts the http server - the protocol is available at http://host:port/<method>
+   *
+   * @param port - 0 picks a random free port
+   * @param host - the non-loopback addresses require the {@link RemoteSortKeyCacheServerOptions.authToken}
+   * @return the base url of the server - for the {@link RemoteSortKeyCache}
+   */
+  async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    if (this.httpServer) {
+      throw new Error('Remote cache server is already listening');
+    }
+    if (!isLoopback(host) && !this.options.authToken) {
+      throw new Error(`Remote cache server listening on non-loopback address ${host} requires the authToken`);
+    }
+    // 'require' to prevent esbuild from adding the node module to the web bundle
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const http = require('http');
+    this.httpServer = http.createServer((req, res) => this.onRequest(req, res));
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(port, host, () => resolve());
+    });
+    const address = this.httpServer.address();
+    const url = `http://${host}:${address.port}`;
+    this.logger.info(`Remote cache server listening at ${url}`);
+    return url;
+  }
+
+  /**
+   * Stops the http server and rolls back the active transaction.
+   * Note: the wrapped cache is not closed.
+   */
+  async close(): Promise<void> {
+    if (this.active) {
+      this.logger.warn(`Rolling back active transaction ${this.active.id}`);
+      await this.finish(this.active.id, () => this.cache.rollback());
+    }
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+      await new Promise<void>((resolve, reject) => httpServer.close((e) => (e ? reject(e) : resolve())));
+    }
+  }
+
+  private async begin(transactionId: string): Promise<{ transactionId: string; savepoint: Savepoint | null }> {
+    if (transactionId) {
+      // nested transaction - the savepoint within the active one
+      return { transactionId, savepoint: (await this.cache.begin()) || null };
+    }
+
+    await this.waitForTransaction();
+    const id = `${Date.now()}-${++this.transactionsCount}`;
+    const timeout = setTimeout(() => this.expire(id), this.options.transactionTimeoutMs);
+    // the pending timeout should not keep the process alive
+    timeout.unref?.();
+    this.active = { id, timeout };
+    try {
+      return { transactionId: id, savepoint: (await this.cache.begin()) || null };
+    } catch (e) {
+      this.end();
+      throw e;
+    }
+  }
+
+  private async rollbackTo(transactionId: string, savepoint: Savepoint): Promise<{ active: boolean }> {
+    this.requireTransaction(transactionId);
+    if (savepoint.depth == 0) {
+      return await this.finish(transactionId, () => this.cache.rollback());
+    }
+    if (!this.cache.rollbackTo) {
+      throw new Error('Wrapped cache does not support savepoints');
+    }
+    await this.cache.rollbackTo(savepoint);
+    return { active: true };
+  }
+
+  private async release(transactionId: string, savepoint: Savepoint): Promise<{ active: boolean }> {
+    this.requireTransaction(transactionId);
+    if (savepoint.depth == 0) {
+      return await this.finish(transactionId, () => this.cache.commit());
+    }
+    if (!this.cache.release) {
+      throw new Error('Wrapped cache does not support savepoints');
+    }
+    await this.cache.release(savepoint);
+    return { active: true };
+  }
+
+  private async finish(transactionId: string, action: () => Promise<void>): Promise<{ active: boolean }> {
+    this.requireTransaction(transactionId);
+    try {
+      await action();
+    } finally {
+      this.end();
+    }
+    return { active: false };
+  }
+
+  private async expire(transactionId: string): Promise<void> {
+    if (this.active?.id !== transactionId) {
+      return;
+    }
+    this.logger.warn(`Transaction ${transactionId} expired - rolling back`);
+    try {
+      await this.finish(transactionId, () => this.cache.rollback());
+    } catch (e) {
+      this.logger.error(`Error while rolling back expired transaction ${transactionId}`, e);
+    }
+  }
+
+  private requireTransaction(transactionId: string) {
+    if (!transactionId || this.active?.id !== transactionId) {
+      throw new Error(`Transaction ${transactionId} is not active`);
+    }
+  }
+
+  private async waitForTransaction(): Promise<void> {
+    while (this.active) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+  }
+
+  private end() {
+    clearTimeout(this.active.timeout);
+    this.active = null;
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach((resolve) => resolve());
+  }
+
+  private entry(result: SortKeyCacheResult<V> | null): { sortKey: string; value: V } | null {
+    return result ? { sortKey: result.sortKey, value: result.cachedValue } : null;
+  }
+
+  private isAuthorized(authorization?: string): boolean {
+    if (!this.options.authToken) {
+      return true;
+    }
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { timingSafeEqual } = require('crypto');
+    const expected = Buffer.from(`Bearer ${this.options.authToken}`);
+    const actual = Buffer.from(authorization || '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private onRequest(req, res) {
+    const maxBodyBytes = this.options.maxBodyBytes ?? DEFAULT_REMOTE_CACHE_MAX_BODY_BYTES;
+    const chunks: Buffer[] = [];
+    let bodyBytes = 0;
+    req.on('data', (chunk: Buffer) => {
+      bodyBytes += chunk.length;
+      // the rest of the too large body is drained, but not buffered
+      if (bodyBytes <= maxBodyBytes) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', async () => {
+      const send = (status: number, body: unknown) => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+      };
+      const method = req.url.split('?')[0].split('/').pop();
+      if (bodyBytes > maxBodyBytes) {
+        send(413, { error: `Request body exceeds ${maxBodyBytes} bytes` });
+        return;
+      }
+      if (req.method !== 'POST') {
+        send(405, { error: `Method ${req.method} not allowed` });
+        return;
+      }
+      if (!this.isAuthorized(req.headers.authorization)) {
+        send(401, { error: 'Unauthorized' });
+        return;
+      }
+      try {
+        const params = chunks.length ? JSON.parse(Buffer.concat(chunks).toString()) : {};
+        const result = await this.handle(method, params, req.headers[REMOTE_CACHE_TRANSACTION_HEADER.toLowerCase()]);
+        send(200, { result: result === undefined ? null : result });
+      } catch (e) {
+        this.logger.error(`Remote cache ${method} failed`, e);
+        send(e instanceof SyntaxError ? 400 : 500, { error: e.message });
+      }
+    });
+  }
+}
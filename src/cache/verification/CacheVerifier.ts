@@ -0,0 +1,305 @@
+import { Warp } from '../../core/Warp';
+import { defaultCacheOptions } from '../../core/WarpFactory';
+import { EvalStateResult, EvaluationOptions } from '../../core/modules/StateEvaluator';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { stableHash } from '../../utils/utils';
+import { LevelDbCache } from '../impl/LevelDbCache';
+import { CacheKey, SortKeyCacheResult } from '../SortKeyCache';
+import { asVerifiableCache, isVerifiableCache } from './VerifiableCache';
+
+export type IntegrityIssueType = 'state-mismatch' | 'evaluation-error' | 'unfinished-transaction' | 'orphaned-kv-entry';
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  cache: 'state' | 'kv';
+  contractTxId?: string;
+  // kv entries only
+  key?: string;
+  sortKey?: string;
+  // 'state-mismatch' only - the hash of the re-evaluated and the cached state
+  expectedHash?: string;
+  actualHash?: string;
+  message: string;
+  repaired: boolean;
+}
+
+export interface IntegrityReport {
+  repair: boolean;
+  contracts: number;
+  // number of the state cache entries of the verified contracts
+  entries: number;
+  // number of the re-evaluated state cache entries
+  entriesVerified: number;
+  issues: IntegrityIssue[];
+  valid: boolean;
+}
+
+export interface CacheVerifierOptions {
+  // all the contracts from the state cache by default
+  contractTxIds?: string[];
+  // max. number of (randomly chosen) state cache entries re-evaluated for each contract - all by default
+  sampleSize?: number;
+  // drops the invalid entries, the orphaned kv entries and the unfinished transaction marks
+  repair?: boolean;
+  evaluationOptions?: Partial<EvaluationOptions>;
+}
+
+/**
+ * Verifies the integrity of the state cache and the contracts' kv storages - e.g. after a crash during
+ * an open {@link LevelDbCache} transaction.
+ *
+ * For each verified contract:
+ * 1. the cached states are re-evaluated - starting from the previous cached state (and the kv storage content
+ * as of its sortKey) - and the hashes of the re-evaluated and cached states are compared.
+ * If the previous cached state has been already found invalid, its re-evaluated version is used instead.
+ * The re-evaluation is performed on separate, in-memory caches - so neither the state cache nor the kv storages
+ * are modified.
+ * 2. the unfinished transaction marks are detected in the state cache and the kv storage
+ * 3. the kv storage entries with sortKeys higher than the sortKey of the latest cached state are reported as
+ * orphaned - they have been written by interactions whose state has never been stored (e.g. the transaction
+ * has not been finished) and will be re-written when the state is evaluated again.
+ *
+ * The caches must implement the {@link VerifiableCache}.
+ * Note: the Warp instance should not be used for evaluating the states while the verification is in progress
+ * - its state cache and kv storage factory are temporarily replaced during each re-evaluation.
+ */
+export class CacheVerifier {
+  private readonly logger = LoggerFactory.INST.create('CacheVerifier');
+
+  constructor(private readonly warp: Warp) {}
+
+  async verify(options: CacheVerifierOptions = {}): Promise<IntegrityReport> {
+    const repair = options.repair === true;
+    const stateCache = this.warp.stateEvaluator.getCache();
+    const verifiableStateCache = asVerifiableCache(stateCache);
+
+    const sortKeysPerContract: Map<string, string[]> = new Map();
+    for (const contractTxId of options.contractTxIds || []) {
+      sortKeysPerContract.set(contractTxId, []);
+    }
+    for (const { key, sortKey } of await verifiableStateCache.entryKeys()) {
+      if (options.contractTxIds && !sortKeysPerContract.has(key)) {
+        continue;
+      }
+      if (!sortKeysPerContract.has(key)) {
+        sortKeysPerContract.set(key, []);
+      }
+      sortKeysPerContract.get(key).push(sortKey);
+    }
+
+    const report: IntegrityReport = {
+      repair,
+      contracts: sortKeysPerContract.size,
+      entries: 0,
+      entriesVerified: 0,
+      issues: [],
+      valid: true
+    };
+
+    if (verifiableStateCache.hasUnfinishedTransaction && (await verifiableStateCache.hasUnfinishedTransaction())) {
+      if (repair) {
+        await verifiableStateCache.clearUnfinishedTransaction();
+      }
+      report.issues.push({
+        type: 'unfinished-transaction',
+        cache: 'state',
+        message: 'State cache contains a mark of an unfinished transaction',
+        repaired: repair
+      });
+    }
+
+    for (const [contractTxId, sortKeys] of sortKeysPerContract) {
+      this.logger.info(`Verifying ${contractTxId} - ${sortKeys.length} cached states`);
+      report.entries += sortKeys.length;
+      await this.verifyStates(contractTxId, sortKeys, options, report);
+      await this.verifyKv(contractTxId, repair, report);
+    }
+
+    report.valid = report.issues.length == 0;
+    return report;
+  }
+
+  private async verifyStates(
+    contractTxId: string,
+    sortKeys: string[],
+    options: CacheVerifierOptions,
+    report: IntegrityReport
+  ): Promise<void> {
+    const stateCache = this.warp.stateEvaluator.getCache();
+    const invalid: CacheKey[] = [];
+
+    // the re-evaluated state of the previously verified entry
+    let evaluated: SortKeyCacheResult<EvalStateResult<unknown>> = null;
+    for (const i of this.sample(sortKeys.length, options.sampleSize)) {
+      const cacheKey = new CacheKey(contractTxId, sortKeys[i]);
+      const cached = await stateCache.get(cacheKey);
+      if (cached == null) {
+        evaluated = null;
+        continue;
+      }
+
+      let base: SortKeyCacheResult<EvalStateResult<unknown>> = null;
+      if (i > 0) {
+        base =
+          evaluated?.sortKey == sortKeys[i - 1]
+            ? evaluated
+            : await stateCache.get(new CacheKey(contractTxId, sortKeys[i - 1]));
+      }
+
+      report.entriesVerified++;
+      try {
+        evaluated = await this.evaluate(contractTxId, base, cacheKey.sortKey, options.evaluationOptions);
+      } catch (e) {
+        evaluated = null;
+        report.issues.push({
+          type: 'evaluation-error',
+          cache: 'state',
+          contractTxId,
+          sortKey: cacheKey.sortKey,
+          message: `Error while re-evaluating the state: ${e.message}`,
+          repaired: false
+        });
+        continue;
+      }
+
+      const expectedHash = await stableHash(evaluated.cachedValue.state);
+      const actualHash = await stableHash(cached.cachedValue.state);
+      if (expectedHash != actualHash) {
+        invalid.push(cacheKey);
+        report.issues.push({
+          type: 'state-mismatch',
+          cache: 'state',
+          contractTxId,
+          sortKey: cacheKey.sortKey,
+          expectedHash,
+          actualHash,
+          message: `Cached state differs from the re-evaluated one`,
+          repaired: options.repair === true
+        });
+      }
+    }
+
+    if (options.repair && invalid.length) {
+      this.logger.info(`Removing ${invalid.length} invalid states of ${contractTxId}`);
+      await asVerifiableCache(stateCache).removeEntries(invalid);
+    }
+  }
+
+  private async verifyKv(contractTxId: string, repair: boolean, report: IntegrityReport): Promise<void> {
+    const storage = this.warp.kvStorageFactory(contractTxId);
+    if (!isVerifiableCache(storage)) {
+      this.logger.warn(`KV storage of ${contractTxId} does not support the integrity verification`);
+      return;
+    }
+    const lastState = await this.warp.stateEvaluator.getCache().getLast(contractTxId);
+
+    try {
+      await storage.open();
+      const orphaned = (await storage.entryKeys()).filter(
+        (cacheKey) => lastState == null || cacheKey.sortKey.localeCompare(lastState.sortKey) > 0
+      );
+      const unfinishedTransaction = storage.hasUnfinishedTransaction && (await storage.hasUnfinishedTransaction());
+
+      if (repair) {
+        if (orphaned.length) {
+          this.logger.info(`Removing ${orphaned.length} orphaned kv entries of ${contractTxId}`);
+          await storage.removeEntries(orphaned);
+        }
+        if (unfinishedTransaction) {
+          await storage.clearUnfinishedTransaction();
+        }
+      }
+
+      if (unfinishedTransaction) {
+        report.issues.push({
+          type: 'unfinished-transaction',
+          cache: 'kv',
+          contractTxId,
+          message: 'KV storage contains a mark of an unfinished transaction',
+          repaired: repair
+        });
+      }
+      for (const { key, sortKey } of orphaned) {
+        report.issues.push({
+          type: 'orphaned-kv-entry',
+          cache: 'kv',
+          contractTxId,
+          key,
+          sortKey,
+          message: lastState
+            ? `KV entry written after the latest cached state ${lastState.sortKey}`
+            : 'KV entry of a contract without cached state',
+          repaired: repair
+        });
+      }
+    } finally {
+      await storage.close();
+    }
+  }
+
+  /**
+   * Evaluates the state at the given sortKey - starting from the base state - on separate, in-memory caches.
+   */
+  private async evaluate(
+    contractTxId: string,
+    base: SortKeyCacheResult<EvalStateResult<unknown>> | null,
+    sortKey: string,
+    evaluationOptions?: Partial<EvaluationOptions>
+  ): Promise<SortKeyCacheResult<EvalStateResult<unknown>>> {
+    const stateCache = new LevelDbCache<EvalStateResult<unknown>>({ ...defaultCacheOptions, inMemory: true });
+    const kvStorages: Map<string, LevelDbCache<unknown>> = new Map();
+    const kvStorageFactory = (txId: string) => {
+      if (!kvStorages.has(txId)) {
+        kvStorages.set(txId, new LevelDbCache({ ...defaultCacheOptions, inMemory: true }));
+      }
+      return kvStorages.get(txId);
+    };
+
+    if (base) {
+      await stateCache.put(new CacheKey(contractTxId, base.sortKey), base.cachedValue);
+      const kv = await this.kvEntries(contractTxId, base.sortKey);
+      for (const [key, value] of kv) {
+        await kvStorageFactory(contractTxId).put(new CacheKey(key, base.sortKey), value);
+      }
+    }
+
+    const originalStateCache = this.warp.stateEvaluator.getCache();
+    const originalKvStorageFactory = this.warp.kvStorageFactory;
+    this.warp.useStateCache(stateCache).useKVStorageFactory(kvStorageFactory);
+    try {
+      const contract = this.warp.contract(contractTxId);
+      if (evaluationOptions) {
+        contract.setEvaluationOptions(evaluationOptions);
+      }
+      const result = await contract.readState(sortKey);
+      return new SortKeyCacheResult(sortKey, result.cachedValue);
+    } finally {
+      this.warp.useStateCache(originalStateCache).useKVStorageFactory(originalKvStorageFactory);
+    }
+  }
+
+  private async kvEntries(contractTxId: string, sortKey: string): Promise<[string, unknown][]> {
+    const storage = this.warp.kvStorageFactory(contractTxId);
+    try {
+      await storage.open();
+      return Array.from((await storage.kvMap(sortKey)).entries());
+    } finally {
+      await storage.close();
+    }
+  }
+
+  /**
+   * returns the sorted indices of the entries to verify
+   */
+  private sample(entries: number, sampleSize?: number): number[] {
+    const indices = Array.from(Array(entries).keys());
+    if (sampleSize == null || sampleSize >= entries) {
+      return indices;
+    }
+    for (let i = indices.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [indices[i], indices[j]] = [indices[j], indices[i]];
+    }
+    return indices.slice(0, Math.max(sampleSize, 0)).sort((a, b) => a - b);
+  }
+}
@@ -0,0 +1,42 @@
+import { CacheKey } from '../SortKeyCache';
+
+/**
+ * A cache that allows the {@link CacheVerifier} to walk over all of its entries and drop the invalid ones.
+ */
+export interface VerifiableCache {
+  /**
+   * returns the keys of all the stored entries (including the tombstones) - sorted by key and sortKey
+   */
+  entryKeys(): Promise<CacheKey[]>;
+
+  /**
+   * removes the given entries - contrary to the {@link SortKeyCache.del}, no tombstones are stored
+   */
+  removeEntries(cacheKeys: CacheKey[]): Promise<void>;
+
+  /**
+   * returns true if the cache contains a mark of a transaction that has never been finished
+   * (e.g. because of a crash) - and not the one that is currently active.
+   */
+  hasUnfinishedTransaction?(): Promise<boolean>;
+
+  /**
+   * removes the mark of the unfinished transaction - the entries written within
+   * such transaction have to be removed separately
+   */
+  clearUnfinishedTransaction?(): Promise<void>;
+}
+
+export function isVerifiableCache(cache: unknown): cache is VerifiableCache {
+  return (
+    typeof (cache as VerifiableCache)?.entryKeys === 'function' &&
+    typeof (cache as VerifiableCache)?.removeEntries === 'function'
+  );
+}
+
+export function asVerifiableCache(cache: unknown): VerifiableCache {
+  if (!isVerifiableCache(cache)) {
+    throw new Error(`Cache ${cache?.constructor?.name} does not support the integrity verification`);
+  }
+  return cache;
+}
@@ -36,6 +36,14 @@ export class SimpleLRUCache<K, V> {
     }
   }
 
+  delete(key: K): boolean {
+    return this.cache.delete(key);
+  }
+
+  clear() {
+    this.cache.clear();
+  }
+
   keys(): K[] {
     return Array.from(this.cache.keys());
   }
@@ -1,4 +1,4 @@
-import { SortKeyCacheResult } from '../cache/SortKeyCache';
+import { KeyHistoryOptions, KeyVersion, SortKeyCacheResult } from '../cache/SortKeyCache';
 import { ContractCallRecord } from '../core/ContractCallRecord';
 import { InteractionResult } from '../core/modules/impl/HandlerExecutorFactory';
 import { EvaluationOptions, EvalStateResult } from '../core/modules/StateEvaluator';
@@ -9,6 +9,8 @@ import { EvaluationOptionsEvaluator } from './EvaluationOptionsEvaluator';
 import { InteractionState } from './states/InteractionState';
 import { DataItem, Signer } from 'warp-arbundles';
 import { Transaction } from '../utils/types/arweave-types';
+import { InteractionDiff } from '../core/InteractionDiff';
+import { BudgetedReadStateOptions, BudgetedReadStateResult, EvaluationBudget } from '../core/EvaluationBudget';
 
 export type BenchmarkStats = { gatewayCommunication: number; stateEvaluation: number; total: number };
 
@@ -129,6 +131,21 @@ export interface Contract<State = unknown> {
     signal?: AbortSignal
   ): Promise<SortKeyCacheResult<EvalStateResult<State>>>;
 
+  /**
+   * Reads state within the evaluation budget - i.e. stops the evaluation (with all the evaluated interactions
+   * stored in the cache) once any of the budget's limits is reached.
+   * The partial result is returned with a continuation token - which allows to resume the evaluation
+   * in the next call - from exactly the cached state the previous call stopped at (the call fails, if that state
+   * is no longer cached).
+   *
+   * @param budget - limits of the evaluation, see {@link EvaluationBudget}
+   * @param options - the sortKey or block height to read the state at - or the continuation token
+   */
+  readStateWithBudget(
+    budget: EvaluationBudget,
+    options?: BudgetedReadStateOptions
+  ): Promise<BudgetedReadStateResult<State>>;
+
   /**
    * Reads state at a specified sortKey and applies indicated interactions
    * @param sortKey - sortKey at which the contract should be read
@@ -286,6 +303,33 @@ export interface Contract<State = unknown> {
 
   getStorageValues(keys: string[]): Promise<SortKeyCacheResult<Map<string, unknown>>>;
 
+  /**
+   * Returns all the versions (including the deletions) of the value stored under the given key
+   * in the contract's KV storage - up to the sortKey of the latest evaluated state.
+   * Requires the {@link EvaluationOptions.useKVStorage}.
+   */
+  getStorageHistory(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<unknown>[]>;
+
+  /**
+   * Returns the changes made by the given interaction - or null, if they were not recorded.
+   * Requires the {@link EvaluationOptions.recordDiffs} to be set during the evaluation.
+   */
+  getInteractionDiff(txId: string): Promise<InteractionDiff | null>;
+
+  /**
+   * Returns the changes made by the interactions from the given sortKeys range (both inclusive) - in the sortKey order.
+   * Requires the {@link EvaluationOptions.recordDiffs} to be set during the evaluation.
+   */
+  getInteractionDiffs(fromSortKey?: string, toSortKey?: string): Promise<InteractionDiff[]>;
+
+  /**
+   * Removes everything cached for the contract from the given sortKey (inclusive) - the states,
+   * the KV storage entries (if the {@link EvaluationOptions.useKVStorage} is set), the recorded interaction diffs
+   * and the interactions cached by the interactions loader - e.g. after discovering a bad interaction or a gateway bug.
+   * The next readState will re-evaluate the contract from the latest state cached before that sortKey.
+   */
+  invalidateCacheFrom(sortKey: string): Promise<void>;
+
   interactionState(): InteractionState;
 
   clearChildren(): void;
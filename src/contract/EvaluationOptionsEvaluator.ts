@@ -110,7 +110,15 @@ export class EvaluationOptionsEvaluator {
     whitelistSources: () => this.rootOptions['whitelistSources'],
     transactionsPagesPerBatch: () => this.rootOptions['transactionsPagesPerBatch'],
     strictSortKey: () => this.rootOptions['strictSortKey'],
-    strictEvolve: () => this.rootOptions['strictEvolve']
+    strictEvolve: () => this.rootOptions['strictEvolve'],
+    recordDiffs: () => this.rootOptions['recordDiffs'],
+    // the filters declared in the contract's manifest apply to that contract only
+    interactionFilters: (foreignOptions) => foreignOptions['interactionFilters'],
+    stateValidation: () => this.rootOptions['stateValidation'],
+    stateValidationFailure: () => this.rootOptions['stateValidationFailure'],
+    gasMetering: () => this.rootOptions['gasMetering'],
+    gasSchedule: () => this.rootOptions['gasSchedule'],
+    rollbackFailedInternalWrites: () => this.rootOptions['rollbackFailedInternalWrites']
   };
 
   private readonly notConflictingEvaluationOptions: (keyof EvaluationOptions)[] = [
@@ -159,6 +167,15 @@ export class EvaluationOptionsEvaluator {
               `Cannot proceed with contract evaluation. User requires to ${userValue} on any unsafeClient usage, while contract uses ${manifestValue} option.`
             );
           }
+        } else if (optionKey === 'interactionFilters') {
+          // the filters from the manifest are applied, unless the user has set different ones
+          if (userValue.length && JSON.stringify(userValue) !== JSON.stringify(manifestValue)) {
+            errors.push(
+              `Option {${k}} differs. EvaluationOptions: [${JSON.stringify(userValue)}], manifest: [${JSON.stringify(
+                manifestValue
+              )}]. Remove the interactionFilters from the evaluation options to evaluate contract state.`
+            );
+          }
         } else {
           if (userSetOptions[k] !== manifestOptions[k]) {
             errors.push(
@@ -1,5 +1,13 @@
-import stringify from 'safe-stable-stringify';
-import { SortKeyCacheResult } from '../cache/SortKeyCache';
+import {
+  CacheKey,
+  invalidateAllKeysFrom,
+  keyHistory,
+  KeyHistoryOptions,
+  KeyVersion,
+  SortKeyCacheResult,
+  supportsInvalidateAllFrom
+} from '../cache/SortKeyCache';
+import { invalidateKeyFrom } from '../cache/BasicSortKeyCache';
 import { ContractCallRecord, InteractionCall } from '../core/ContractCallRecord';
 import { ExecutionContext } from '../core/ExecutionContext';
 import {
@@ -15,7 +23,9 @@ import {
   LexicographicalInteractionsSorter
 } from '../core/modules/impl/LexicographicalInteractionsSorter';
 import { InteractionsSorter } from '../core/modules/InteractionsSorter';
+import { clearInteractionsCacheFrom } from '../core/modules/InteractionsLoader';
 import { DefaultEvaluationOptions, EvalStateResult, EvaluationOptions } from '../core/modules/StateEvaluator';
+import { InteractionFilters } from '../core/modules/impl/InteractionFilters';
 import { SMART_WEAVE_TAGS, WARP_TAGS } from '../core/KnownTags';
 import { Warp } from '../core/Warp';
 import { createDummyTx, createInteractionTagsList, createInteractionTx } from '../legacy/create-interaction-tx';
@@ -24,7 +34,7 @@ import { Benchmark } from '../logging/Benchmark';
 import { LoggerFactory } from '../logging/LoggerFactory';
 import { Evolve } from '../plugins/Evolve';
 import { ArweaveWrapper } from '../utils/ArweaveWrapper';
-import { getJsonResponse, isBrowser, isTxIdValid, sleep, stripTrailingSlash } from '../utils/utils';
+import { getJsonResponse, isBrowser, isTxIdValid, sleep, stableHash, stripTrailingSlash } from '../utils/utils';
 import {
   BenchmarkStats,
   Contract,
@@ -42,9 +52,17 @@ import { Mutex } from 'async-mutex';
 import { Tag, Transaction, TransactionStatusResponse } from '../utils/types/arweave-types';
 import { InteractionState } from './states/InteractionState';
 import { ContractInteractionState } from './states/ContractInteractionState';
-import { Buffer, Crypto } from 'warp-isomorphic';
 import { VrfPluginFunctions } from '../core/WarpPlugin';
 import { createData, DataItem, Signer, tagsExceedLimit } from 'warp-arbundles';
+import { InteractionDiff } from '../core/InteractionDiff';
+import {
+  BudgetedReadStateOptions,
+  BudgetedReadStateResult,
+  decodeContinuationToken,
+  encodeContinuationToken,
+  EvaluationBudget,
+  EvaluationBudgetTracker
+} from '../core/EvaluationBudget';
 
 interface InteractionManifestData {
   [path: string]: string;
@@ -84,6 +102,7 @@ export class HandlerBasedContract<State> implements Contract<State> {
   private _warpFetchWrapper: WarpFetchWrapper;
   private _children: HandlerBasedContract<unknown>[] = [];
   private _interactionState;
+  private _sharedInteractionState: InteractionState = null;
   private _dreStates = new Map<string, SortKeyCacheResult<EvalStateResult<State>>>();
   private maxInteractionDataItemSizeBytes: number;
 
@@ -151,6 +170,16 @@ export class HandlerBasedContract<State> implements Contract<State> {
     interactions?: GQLNodeInterface[],
     signal?: AbortSignal,
     state?: SortKeyCacheResult<EvalStateResult<State>>
+  ): Promise<SortKeyCacheResult<EvalStateResult<State>>> {
+    return this.doReadState(sortKeyOrBlockHeight, interactions, signal, state);
+  }
+
+  private async doReadState(
+    sortKeyOrBlockHeight?: string | number,
+    interactions?: GQLNodeInterface[],
+    signal?: AbortSignal,
+    state?: SortKeyCacheResult<EvalStateResult<State>>,
+    budget?: EvaluationBudgetTracker
   ): Promise<SortKeyCacheResult<EvalStateResult<State>>> {
     this.logger.info('Read state for', {
       contractTxId: this._contractTxId,
@@ -177,6 +206,10 @@ export class HandlerBasedContract<State> implements Contract<State> {
       const initBenchmark = Benchmark.measure();
       this.maybeResetRootContract();
 
+      if (this.warp.reorgDetector && this.isRoot() && !interactions?.length && !state) {
+        await this.warp.reorgDetector.check(this);
+      }
+
       const executionContext = await this.createExecutionContext(
         this._contractTxId,
         sortKey,
@@ -185,6 +218,7 @@ export class HandlerBasedContract<State> implements Contract<State> {
         signal,
         state
       );
+      executionContext.budget = budget;
       this.logger.info('Execution Context', {
         srcTxId: executionContext.contractDefinition?.srcTxId,
         missingInteractions: executionContext.sortedInteractions?.length,
@@ -214,6 +248,10 @@ export class HandlerBasedContract<State> implements Contract<State> {
         this.interactionState().update(this.txId(), result.cachedValue, sortKey);
       }
 
+      if (this.warp.reorgDetector && result.sortKey) {
+        await this.warp.reorgDetector.track(this.txId(), executionContext.sortedInteractions, result.sortKey);
+      }
+
       return result;
     } finally {
       releaseMutex();
@@ -279,6 +317,59 @@ export class HandlerBasedContract<State> implements Contract<State> {
     return cachedState;
   }
 
+  async readStateWithBudget(
+    budget: EvaluationBudget,
+    options: BudgetedReadStateOptions = {}
+  ): Promise<BudgetedReadStateResult<State>> {
+    if (!this.isRoot()) {
+      throw new Error('readStateWithBudget is only allowed for root contract calls');
+    }
+    const { sortKeyOrBlockHeight, continuationToken, signal } = options;
+
+    let toSortKey: string;
+    let resumedState: SortKeyCacheResult<EvalStateResult<State>>;
+    if (continuationToken) {
+      const token = decodeContinuationToken(continuationToken);
+      if (token.contractTxId != this._contractTxId) {
+        throw new Error(`Continuation token has been issued for a different contract: ${token.contractTxId}`);
+      }
+      toSortKey = token.toSortKey || undefined;
+      this.logger.debug('Resuming evaluation', token);
+      // the passed state skips the reorg detection of the doReadState - the orphaned state is invalidated here
+      if (this.warp.reorgDetector) {
+        await this.warp.reorgDetector.check(this);
+      }
+      // exactly the state the previous call stopped at - the evaluation is never silently restarted from another one
+      resumedState = (await this.warp.stateEvaluator
+        .getCache()
+        .get(new CacheKey(this._contractTxId, token.sortKey))) as SortKeyCacheResult<EvalStateResult<State>>;
+      if (resumedState == null) {
+        throw new Error(
+          `Cannot resume evaluation of ${this._contractTxId} - state at ${token.sortKey} is no longer cached`
+        );
+      }
+    } else {
+      toSortKey =
+        typeof sortKeyOrBlockHeight == 'number'
+          ? this._sorter.generateLastSortKey(sortKeyOrBlockHeight)
+          : sortKeyOrBlockHeight;
+    }
+
+    const tracker = new EvaluationBudgetTracker(budget);
+    const result = await this.doReadState(toSortKey, undefined, signal, resumedState, tracker);
+
+    return {
+      result,
+      continuationToken: tracker.exhausted
+        ? encodeContinuationToken({
+            contractTxId: this._contractTxId,
+            sortKey: result.sortKey,
+            toSortKey: toSortKey || null
+          })
+        : null
+    };
+  }
+
   async viewState<Input, View>(
     input: Input,
     tags: Tags = [],
@@ -826,9 +917,14 @@ export class HandlerBasedContract<State> implements Contract<State> {
       this.logger.debug('Clearing call stack for the root contract');
       this._callStack = new ContractCallRecord(this.txId(), 0);
       this._rootSortKey = null;
-      this.warp.interactionsLoader.clearCache();
       this._children = [];
-      this._interactionState = new ContractInteractionState(this.warp);
+      if (this._sharedInteractionState) {
+        // the interactions have been already loaded for all the contracts sharing the state
+        this._interactionState = this._sharedInteractionState;
+      } else {
+        this.warp.interactionsLoader.clearCache();
+        this._interactionState = new ContractInteractionState(this.warp);
+      }
       this._dreStates = new Map();
     }
   }
@@ -970,6 +1066,28 @@ export class HandlerBasedContract<State> implements Contract<State> {
       txId: this._contractTxId
     });
 
+    // the internal writes are filtered just as the interactions evaluated by the state evaluator
+    const filteredOutMessage =
+      interactionType == 'write'
+        ? new InteractionFilters(this.warp, executionContext.evaluationOptions.interactionFilters).apply(
+            this._contractTxId,
+            interactionTx
+          )
+        : null;
+    if (filteredOutMessage != null) {
+      this.logger.debug(filteredOutMessage, interactionTx.id);
+      return {
+        type: 'error',
+        errorMessage: filteredOutMessage,
+        state: evalStateResult.cachedValue.state,
+        result: null,
+        event: null,
+        gasUsed: 0,
+        originalValidity: evalStateResult.cachedValue.validity,
+        originalErrorMessages: evalStateResult.cachedValue.errorMessages
+      };
+    }
+
     const interaction: ContractInteraction<Input> = {
       input,
       caller: this._parentContract.txId(),
@@ -978,7 +1096,8 @@ export class HandlerBasedContract<State> implements Contract<State> {
 
     const interactionData: InteractionData<Input> = {
       interaction,
-      interactionTx
+      interactionTx,
+      validateState: interactionType == 'write' && executionContext.evaluationOptions.stateValidation != 'off'
     };
 
     const result = await this.evalInteraction<Input, View>(
@@ -1037,11 +1156,7 @@ export class HandlerBasedContract<State> implements Contract<State> {
   }
 
   async stateHash(state: State): Promise<string> {
-    const jsonState = stringify(state);
-
-    const hash = await Crypto.subtle.digest('SHA-256', Buffer.from(jsonState, 'utf-8'));
-
-    return Buffer.from(hash).toString('hex');
+    return await stableHash(state);
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- params can be anything
@@ -1092,6 +1207,8 @@ export class HandlerBasedContract<State> implements Contract<State> {
       return new SortKeyCacheResult<Map<string, unknown>>(null, new Map());
     }
 
+    // with a pooling factory (e.g. the SharedLevelDbKVStorage) the open/close calls only acquire and release
+    // the pooled storage - the underlying db stays open between the calls
     const storage = this.warp.kvStorageFactory(this.txId());
     const result: Map<string, unknown> = new Map();
     try {
@@ -1106,10 +1223,79 @@ export class HandlerBasedContract<State> implements Contract<State> {
     }
   }
 
+  async getStorageHistory(key: string, options?: KeyHistoryOptions): Promise<KeyVersion<unknown>[]> {
+    const lastCached = await this.warp.stateEvaluator.getCache().getLast(this.txId());
+    if (lastCached == null) {
+      return [];
+    }
+    // the entries with higher sortKeys might have been stored by the not finished evaluations
+    const toSortKey =
+      options?.toSortKey && options.toSortKey.localeCompare(lastCached.sortKey) < 0
+        ? options.toSortKey
+        : lastCached.sortKey;
+
+    const storage = this.warp.kvStorageFactory(this.txId());
+    try {
+      await storage.open();
+      return await keyHistory(storage, key, { ...options, toSortKey });
+    } finally {
+      await storage.close();
+    }
+  }
+
+  async getInteractionDiff(txId: string): Promise<InteractionDiff | null> {
+    // the diffs are keyed by the sortKeys - so all the contract's diffs have to be scanned
+    const diffs = await this.getInteractionDiffs();
+    return diffs.find((diff) => diff.txId === txId) || null;
+  }
+
+  async getInteractionDiffs(fromSortKey?: string, toSortKey?: string): Promise<InteractionDiff[]> {
+    const versions = await keyHistory(this.warp.diffCache, this.txId(), { fromSortKey, toSortKey });
+    return versions.filter((version) => !version.deleted).map((version) => version.value);
+  }
+
+  async invalidateCacheFrom(sortKey: string): Promise<void> {
+    const storage = this._evaluationOptions.useKVStorage ? this.warp.kvStorageFactory(this.txId()) : null;
+    // checked upfront - so that the state cache is not invalidated without the KV storage
+    if (storage && !supportsInvalidateAllFrom(storage)) {
+      throw new Error(`KV storage of ${this.txId()} does not support the invalidation`);
+    }
+
+    const states = await invalidateKeyFrom(this.warp.stateEvaluator.getCache(), this.txId(), sortKey);
+
+    let kvEntries = 0;
+    if (storage) {
+      try {
+        await storage.open();
+        kvEntries = await invalidateAllKeysFrom(storage, sortKey);
+      } finally {
+        await storage.close();
+      }
+    }
+
+    const diffs = await invalidateKeyFrom(this.warp.diffCache, this.txId(), sortKey);
+
+    clearInteractionsCacheFrom(this.warp.interactionsLoader, this.txId(), sortKey);
+    this.logger.info(`Invalidated cache of ${this.txId()} from ${sortKey}`, { states, kvEntries, diffs });
+  }
+
   interactionState(): InteractionState {
     return this.getRoot()._interactionState;
   }
 
+  /**
+   * Makes the root contract use the given interaction state - shared with the other root contracts evaluated
+   * together (see {@link BatchStateReader}) - instead of creating a new one (and clearing the interactions loader cache)
+   * on each evaluation.
+   */
+  useSharedInteractionState(interactionState: InteractionState): HandlerBasedContract<State> {
+    if (!this.isRoot()) {
+      throw new Error('Interaction state can be shared only by the root contracts');
+    }
+    this._sharedInteractionState = interactionState;
+    return this;
+  }
+
   getRoot(): HandlerBasedContract<unknown> {
     let result: Contract = this;
     while (!result.isRoot()) {
@@ -0,0 +1,71 @@
+import { Warp } from '../../core/Warp';
+import { SortKeyCacheResult } from '../../cache/SortKeyCache';
+import { DefaultEvaluationOptions, EvalStateResult, EvaluationOptions } from '../../core/modules/StateEvaluator';
+import { InteractionsLoadRequest } from '../../core/modules/InteractionsLoader';
+import { LexicographicalInteractionsSorter } from '../../core/modules/impl/LexicographicalInteractionsSorter';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { ContractInteractionState } from '../states/ContractInteractionState';
+import { HandlerBasedContract } from '../HandlerBasedContract';
+
+/**
+ * @param sortKeyOrBlockHeight - passed to the {@link Contract.readState} of each contract
+ * @param evaluationOptions - the evaluation options of all the contracts
+ */
+export interface BatchReadStateOptions {
+  sortKeyOrBlockHeight?: string | number;
+  evaluationOptions?: Partial<EvaluationOptions>;
+}
+
+/**
+ * Evaluates the states of multiple contracts with the interactions of all of them loaded up-front
+ * - with a single {@link InteractionsLoader.loadMany} call.
+ * Available as {@link Warp.batchReadState}.
+ *
+ * The interactions are loaded from the latest cached state of each contract - and kept in the cache of the
+ * {@link CacheableInteractionsLoader}, which then serves the {@link Contract.readState} of each contract.
+ * The contracts are evaluated one after another, with a single {@link ContractInteractionState}
+ * - so the states of the contracts read (or written) by the other ones are shared between the evaluations.
+ */
+export class BatchStateReader {
+  private readonly logger = LoggerFactory.INST.create('BatchStateReader');
+
+  constructor(private readonly warp: Warp) {}
+
+  async readState(
+    contractTxIds: string[],
+    options: BatchReadStateOptions = {}
+  ): Promise<Map<string, SortKeyCacheResult<EvalStateResult<unknown>>>> {
+    const { sortKeyOrBlockHeight, evaluationOptions } = options;
+    const uniqueTxIds = [...new Set(contractTxIds)];
+    const sortKey =
+      typeof sortKeyOrBlockHeight == 'number'
+        ? new LexicographicalInteractionsSorter(this.warp.arweave).generateLastSortKey(sortKeyOrBlockHeight)
+        : sortKeyOrBlockHeight;
+
+    const requests: InteractionsLoadRequest[] = [];
+    for (const contractTxId of uniqueTxIds) {
+      const cachedState = await this.warp.stateEvaluator.latestAvailableState(contractTxId, sortKey);
+      // nothing to load, if the state is already cached at the requested sortKey
+      if (sortKey == null || cachedState?.sortKey !== sortKey) {
+        requests.push({ contractTxId, fromSortKey: cachedState?.sortKey, toSortKey: sortKey });
+      }
+    }
+
+    const { interactionsLoader } = this.warp;
+    interactionsLoader.clearCache();
+    if (requests.length && interactionsLoader.loadMany) {
+      await interactionsLoader.loadMany(requests, { ...new DefaultEvaluationOptions(), ...evaluationOptions });
+    }
+    this.logger.info(`Loaded interactions of ${requests.length} contracts`, { total: uniqueTxIds.length });
+
+    const interactionState = new ContractInteractionState(this.warp);
+    const result: Map<string, SortKeyCacheResult<EvalStateResult<unknown>>> = new Map();
+    for (const contractTxId of uniqueTxIds) {
+      const contract = (this.warp.contract(contractTxId) as HandlerBasedContract<unknown>)
+        .useSharedInteractionState(interactionState)
+        .setEvaluationOptions(evaluationOptions || {});
+      result.set(contractTxId, await contract.readState(sortKey));
+    }
+    return result;
+  }
+}
@@ -0,0 +1,277 @@
+import { Warp } from '../../core/Warp';
+import { defaultCacheOptions } from '../../core/WarpFactory';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { InteractionCall } from '../../core/ContractCallRecord';
+import { InteractionDiff } from '../../core/InteractionDiff';
+import { DefaultEvaluationOptions, EvalStateResult, EvaluationOptions } from '../../core/modules/StateEvaluator';
+import { CacheableStateEvaluator } from '../../core/modules/impl/CacheableStateEvaluator';
+import { DebuggableExecutorFactory } from '../../plugins/DebuggableExecutorFactor';
+import { Evolve } from '../../plugins/Evolve';
+import { GQLNodeInterface } from '../../legacy/gqlResult';
+
+/**
+ * @param evaluationOptions - the evaluation options of the debugged contract
+ * (the {@link EvaluationOptions.recordDiffs} is always set)
+ * @param sources - the patched sources of the contracts - see {@link WarpBuilder.overwriteSource}
+ */
+export interface DebugSessionOptions {
+  evaluationOptions?: Partial<EvaluationOptions>;
+  sources?: { [contractTxId: string]: string };
+}
+
+/**
+ * The value of the watched state path - compared with its value at the previous step of the session.
+ */
+export interface DebugWatch {
+  path: string;
+  previous: unknown;
+  current: unknown;
+  changed: boolean;
+}
+
+/**
+ * The result of evaluating a single interaction in the {@link DebugSession}.
+ *
+ * @param index - the position of the interaction in the contract's interactions
+ * @param input - null for the interactions evaluated as internal writes and the skipped ones
+ * @param state - the state after the interaction
+ * @param diff - the changes made by the interaction - see {@link InteractionDiff}
+ * @param call - the interaction's record from the contract's call stack - with the inner contract calls
+ */
+export interface DebugStep<State = unknown> {
+  index: number;
+  txId: string;
+  sortKey: string;
+  caller: string;
+  input: unknown | null;
+  valid: boolean;
+  errorMessage: string | null;
+  state: State;
+  diff: InteractionDiff | null;
+  call: InteractionCall | null;
+  watches: DebugWatch[];
+}
+
+/**
+ * A step-through debugging session of the contract evaluation.
+ * Available as {@link Warp.debug}.
+ *
+ * The session evaluates the contract from its initial state with a separate Warp instance - which shares the
+ * definition and interactions loaders with the debugged one, but has its own in-memory state, KV and diff caches
+ * and a {@link DebuggableExecutorFactory} with the patched sources.
+ * So neither the stepping nor the patched sources affect the caches of the debugged Warp instance.
+ * The plugins of the debugged Warp instance are not used.
+ *
+ * Each step re-evaluates the interaction with the {@link Contract.readState} and reports the results recorded
+ * in the contract's call stack ({@link ContractCallRecord}).
+ */
+export class DebugSession<State = unknown> {
+  private readonly sources: { [contractTxId: string]: string };
+  private readonly stateCache = new LevelDbCache<EvalStateResult<unknown>>({ ...defaultCacheOptions, inMemory: true });
+  private readonly diffCache = new LevelDbCache<InteractionDiff>({ ...defaultCacheOptions, inMemory: true });
+  private readonly kvStorages: Map<string, LevelDbCache<unknown>> = new Map();
+  private readonly watched: string[] = [];
+  private readonly debugWarp: Warp;
+  private _interactions: GQLNodeInterface[] = null;
+  private _current: DebugStep<State> = null;
+
+  constructor(
+    private readonly warp: Warp,
+    private readonly contractTxId: string,
+    private readonly options: DebugSessionOptions = {}
+  ) {
+    this.sources = { ...options.sources };
+    this.debugWarp = this.createWarp();
+  }
+
+  /**
+   * The last evaluated step - null before the first one.
+   */
+  get current(): DebugStep<State> | null {
+    return this._current;
+  }
+
+  /**
+   * All the interactions of the contract - loaded with the interactions loader of the debugged Warp instance.
+   */
+  async interactions(): Promise<GQLNodeInterface[]> {
+    if (this._interactions == null) {
+      this._interactions = await this.warp.interactionsLoader.load(this.contractTxId, undefined, undefined, {
+        ...new DefaultEvaluationOptions(),
+        ...this.evaluationOptions()
+      });
+    }
+    return this._interactions;
+  }
+
+  /**
+   * Evaluates the contract up to the last interaction with the sortKey lower or equal to the given one
+   * - also backwards, i.e. to the interaction already evaluated in the session.
+   */
+  async stepTo(sortKey: string): Promise<DebugStep<State>> {
+    const interactions = await this.interactions();
+    let index = -1;
+    while (index + 1 < interactions.length && interactions[index + 1].sortKey.localeCompare(sortKey) <= 0) {
+      index++;
+    }
+    if (index < 0) {
+      throw new Error(`No interaction of ${this.contractTxId} up to ${sortKey}`);
+    }
+    return await this.evaluate(index);
+  }
+
+  /**
+   * Evaluates the next interaction - the first one, if nothing has been evaluated yet.
+   * @return null, if the current interaction is the last one
+   */
+  async next(): Promise<DebugStep<State> | null> {
+    const index = this._current ? this._current.index + 1 : 0;
+    if (index >= (await this.interactions()).length) {
+      return null;
+    }
+    return await this.evaluate(index);
+  }
+
+  /**
+   * Evaluates the interactions until the value of any of the watched paths changes.
+   * @return the step that changed the watched value - or the last step, if none did
+   */
+  async continue(): Promise<DebugStep<State> | null> {
+    let step = await this.next();
+    while (step != null && !step.watches.some((watch) => watch.changed)) {
+      const next = await this.next();
+      if (next == null) {
+        break;
+      }
+      step = next;
+    }
+    return step;
+  }
+
+  /**
+   * Re-evaluates the current interaction - with the patched source of the contract, if passed.
+   * The patched source is also used by all the following steps.
+   */
+  async rerun(source?: string): Promise<DebugStep<State>> {
+    if (this._current == null) {
+      throw new Error('No interaction evaluated yet');
+    }
+    if (source !== undefined) {
+      this.sources[this.contractTxId] = source;
+    }
+    return await this.evaluate(this._current.index);
+  }
+
+  /**
+   * Returns the value at the given path of the current state - e.g. 'balances.alice' or 'values.0'
+   * (or the whole state, if the path is not passed).
+   */
+  inspect(path?: string): unknown {
+    if (this._current == null) {
+      throw new Error('No interaction evaluated yet');
+    }
+    return valueAt(this._current.state, path);
+  }
+
+  /**
+   * Adds the state path (see {@link inspect}) to the {@link DebugStep.watches} of the next steps.
+   */
+  watch(path: string): DebugSession<State> {
+    if (!this.watched.includes(path)) {
+      this.watched.push(path);
+    }
+    return this;
+  }
+
+  unwatch(path: string): DebugSession<State> {
+    const index = this.watched.indexOf(path);
+    if (index >= 0) {
+      this.watched.splice(index, 1);
+    }
+    return this;
+  }
+
+  async close(): Promise<void> {
+    await Promise.all([
+      this.stateCache.close(),
+      this.diffCache.close(),
+      ...[...this.kvStorages.values()].map((storage) => storage.close())
+    ]);
+  }
+
+  private async evaluate(index: number): Promise<DebugStep<State>> {
+    const interaction = (await this.interactions())[index];
+
+    // the interaction is always evaluated - even if it has been already evaluated in the session
+    // (the caches of all the contracts are invalidated - as they might have been written by the debugged one)
+    await this.stateCache.invalidateAllFrom(interaction.sortKey);
+    await this.diffCache.invalidateAllFrom(interaction.sortKey);
+    for (const storage of this.kvStorages.values()) {
+      try {
+        await storage.open();
+        await storage.invalidateAllFrom(interaction.sortKey);
+      } finally {
+        await storage.close();
+      }
+    }
+
+    const contract = this.debugWarp.contract<State>(this.contractTxId).setEvaluationOptions(this.evaluationOptions());
+    const { cachedValue } = await contract.readState(interaction.sortKey);
+    const call = contract.getCallStack().getInteraction(interaction.id) || null;
+
+    const previousState = this._current?.state;
+    this._current = {
+      index,
+      txId: interaction.id,
+      sortKey: interaction.sortKey,
+      caller: call?.interactionInput.caller ?? interaction.owner.address,
+      input: call?.interactionInput.functionArguments ?? null,
+      valid: cachedValue.validity[interaction.id] ?? false,
+      errorMessage: (cachedValue.errorMessages[interaction.id] as string) ?? null,
+      state: cachedValue.state,
+      diff: call?.interactionOutput?.diff ?? null,
+      call,
+      watches: this.watched.map((path) => {
+        const previous = valueAt(previousState, path);
+        const current = valueAt(cachedValue.state, path);
+        return { path, previous, current, changed: JSON.stringify(previous) !== JSON.stringify(current) };
+      })
+    };
+    return this._current;
+  }
+
+  private evaluationOptions(): Partial<EvaluationOptions> {
+    return { ...this.options.evaluationOptions, recordDiffs: true };
+  }
+
+  private createWarp(): Warp {
+    const { arweave, definitionLoader, interactionsLoader, executorFactory, environment } = this.warp;
+
+    // not created with the WarpBuilder - which would re-assign the Warp instance of the shared loaders
+    const debugWarp = new Warp(
+      arweave,
+      definitionLoader,
+      interactionsLoader,
+      new DebuggableExecutorFactory(executorFactory, this.sources),
+      new CacheableStateEvaluator(arweave, this.stateCache, [new Evolve()]),
+      environment
+    )
+      .useDiffCache(this.diffCache)
+      .useKVStorageFactory((contractTxId: string) => {
+        if (!this.kvStorages.has(contractTxId)) {
+          this.kvStorages.set(contractTxId, new LevelDbCache({ ...defaultCacheOptions, inMemory: true }));
+        }
+        return this.kvStorages.get(contractTxId);
+      })
+      .useGwUrl(this.warp.gwUrl());
+    debugWarp.whoAmI = this.warp.whoAmI;
+    return debugWarp;
+  }
+}
+
+function valueAt(value: unknown, path?: string): unknown {
+  if (!path) {
+    return value;
+  }
+  return path.split('.').reduce((result, key) => (result == null ? undefined : result[key]), value);
+}
@@ -25,6 +25,8 @@ export const emptyTransfer: ArTransfer = {
 export type EvaluationManifest = {
   evaluationOptions?: Partial<EvaluationOptions>;
   plugins?: WarpPluginType[];
+  // the JSON Schema (draft-07) of the contract's state - see EvaluationOptions.stateValidation
+  stateSchema?: object;
 };
 
 export const REGISTER_PROVIDER = ['node1', 'node2', 'arweave'] as const;
@@ -0,0 +1,307 @@
+import { ApiConfig } from 'arweave/node/lib/api';
+import { Warp, WarpEnvironment } from '../../core/Warp';
+import { SortKeyCache, SortKeyCacheResult } from '../../cache/SortKeyCache';
+import {
+  CustomEvent,
+  DefaultEvaluationOptions,
+  EvalStateResult,
+  EvaluationOptions
+} from '../../core/modules/StateEvaluator';
+import { SMART_WEAVE_TAGS } from '../../core/KnownTags';
+import { TagsParser } from '../../core/modules/impl/TagsParser';
+import {
+  defaultRemoteSortKeyCacheServerOptions,
+  RemoteSortKeyCacheServer
+} from '../../cache/remote/RemoteSortKeyCacheServer';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { isBrowser } from '../../utils/utils';
+import type { Worker } from 'worker_threads';
+
+/**
+ * @param concurrency - max. number of the worker threads - the number of CPUs - 1 by default
+ * @param sortKeyOrBlockHeight - passed to the {@link Contract.readState} of each contract
+ * @param evaluationOptions - the evaluation options of all the contracts
+ * @param workerModule - absolute path of a module that exports the 'createWarp(workerData: ReadStatesWorkerData)'
+ * function (returning a Warp or a Promise of Warp) - used by the workers for creating their Warp instances.
+ * If not set, the workers use the {@link WarpFactory} for the environment of the Warp instance (with the in-memory caches)
+ * - so it is required for the 'custom' environment and for the instances with custom plugins or gateways.
+ * The KV storage factory of the main thread's Warp is not available in the workers - the workers created without
+ * the worker module refuse to evaluate the contracts that use the KV storage.
+ * @param groups - the contracts that should be evaluated by the same worker - in addition to the ones
+ * connected by the internal writes
+ */
+export interface ReadStatesOptions {
+  concurrency?: number;
+  sortKeyOrBlockHeight?: string | number;
+  evaluationOptions?: Partial<EvaluationOptions>;
+  workerModule?: string;
+  groups?: string[][];
+}
+
+export interface ReadStatesResult<State = unknown> {
+  contractTxId: string;
+  // null if the evaluation failed
+  result: SortKeyCacheResult<EvalStateResult<State>> | null;
+  error: string | null;
+}
+
+/**
+ * The detail of the 'readStatesProgress' event dispatched on the {@link Warp.eventTarget}
+ * after each evaluated contract.
+ */
+export interface ReadStatesProgress {
+  contractTxId: string;
+  completed: number;
+  total: number;
+  error: string | null;
+}
+
+/**
+ * The data passed to the workers - and to the 'createWarp' function of the {@link ReadStatesOptions.workerModule}.
+ */
+export interface ReadStatesWorkerData {
+  workerModule: string | null;
+  environment: WarpEnvironment;
+  arweave: ApiConfig;
+  // the url of the main thread's state cache - see RemoteSortKeyCache
+  stateCacheUrl: string;
+  // the random token of the state cache server - sent as the 'Authorization: Bearer <token>' header
+  stateCacheToken: string;
+  sortKeyOrBlockHeight: string | number | null;
+  evaluationOptions: Partial<EvaluationOptions>;
+}
+
+export type ReadStatesWorkerMessage =
+  | { type: 'result'; contractTxId: string; result: { sortKey: string; cachedValue: EvalStateResult<unknown> } }
+  | { type: 'error'; contractTxId: string; error: string }
+  | { type: 'done' };
+
+/**
+ * Evaluates the states of multiple contracts in parallel - in a pool of worker threads.
+ * Node.js only - import it from 'warp-contracts/node':
+ * const results = await new ParallelStateReader(warp).readStates(contractTxIds, options);
+ * The progress is reported with the 'readStatesProgress' events dispatched on the {@link Warp.eventTarget}.
+ *
+ * Each worker has its own Warp instance (see {@link ReadStatesOptions.workerModule}), but all of them share
+ * the state cache of the main thread's Warp - served to the workers with the {@link RemoteSortKeyCacheServer}.
+ * So the evaluated states are stored in the main thread's cache, just as with the {@link Contract.readState}.
+ *
+ * The contracts connected by the internal writes - i.e. the contracts referenced by the 'Contract' and
+ * 'Interact-Write' tags of the not yet evaluated interactions (also through the contracts not passed to the readStates)
+ * - are evaluated one after another by the same worker, so that they are never evaluated (and their KV storages
+ * opened) by two workers at the same time.
+ */
+export class ParallelStateReader {
+  private readonly logger = LoggerFactory.INST.create('ParallelStateReader');
+  private readonly tagsParser = new TagsParser();
+
+  constructor(private readonly warp: Warp) {}
+
+  /**
+   * @return the results in the order of the contractTxIds - with the error message for the failed contracts
+   */
+  async readStates(contractTxIds: string[], options: ReadStatesOptions = {}): Promise<ReadStatesResult[]> {
+    if (isBrowser()) {
+      throw new Error('Parallel evaluation is not supported in the browser');
+    }
+    if (this.warp.environment == 'custom' && !options.workerModule) {
+      throw new Error(`Worker module is required for the '${this.warp.environment}' Warp environment`);
+    }
+    if (options.evaluationOptions?.useKVStorage && !options.workerModule) {
+      throw new Error('Worker module with the KV storage factory is required for the contracts using the KV storage');
+    }
+    const ids = [...new Set(contractTxIds)];
+    const groups = await this.groupContracts(ids, options);
+
+    const results: Map<string, ReadStatesResult> = new Map();
+    const onResult = (result: ReadStatesResult) => {
+      results.set(result.contractTxId, result);
+      const progress: ReadStatesProgress = {
+        contractTxId: result.contractTxId,
+        completed: results.size,
+        total: ids.length,
+        error: result.error
+      };
+      this.warp.eventTarget.dispatchEvent(new CustomEvent('readStatesProgress', { detail: progress }));
+    };
+
+    // the workers use only the BasicSortKeyCache methods of the state cache
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const stateCacheToken: string = require('crypto').randomBytes(32).toString('hex');
+    const server = new RemoteSortKeyCacheServer(
+      this.warp.stateEvaluator.getCache() as SortKeyCache<EvalStateResult<unknown>>,
+      { ...defaultRemoteSortKeyCacheServerOptions, authToken: stateCacheToken }
+    );
+    try {
+      const { host, port, protocol, timeout } = this.warp.arweave.getConfig().api;
+      const workerData: ReadStatesWorkerData = {
+        workerModule: options.workerModule || null,
+        environment: this.warp.environment,
+        arweave: { host, port, protocol, timeout },
+        stateCacheUrl: await server.listen(),
+        stateCacheToken,
+        sortKeyOrBlockHeight: options.sortKeyOrBlockHeight ?? null,
+        evaluationOptions: options.evaluationOptions || {}
+      };
+      const queue = [...groups];
+      const workers = Math.min(options.concurrency || this.defaultConcurrency(), groups.length);
+      this.logger.info(`Evaluating ${ids.length} contracts in ${groups.length} groups with ${workers} workers`);
+      await Promise.all(Array.from({ length: workers }, () => this.runWorker(queue, workerData, onResult)));
+    } finally {
+      await server.close();
+    }
+
+    return ids.map((contractTxId) => results.get(contractTxId));
+  }
+
+  /**
+   * Splits the contracts into the groups evaluated by the same worker - see {@link ParallelStateReader}.
+   * Loads the interactions of each contract - from the latest cached state.
+   */
+  async groupContracts(contractTxIds: string[], options: ReadStatesOptions = {}): Promise<string[][]> {
+    const parents: Map<string, string> = new Map();
+    const find = (contractTxId: string): string => {
+      let root = contractTxId;
+      while (parents.has(root) && parents.get(root) !== root) {
+        root = parents.get(root);
+      }
+      return root;
+    };
+    const union = (a: string, b: string) => {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA !== rootB) {
+        parents.set(rootA, rootB);
+      }
+    };
+
+    for (const group of options.groups || []) {
+      group.forEach((contractTxId) => union(group[0], contractTxId));
+    }
+
+    const evaluationOptions = { ...new DefaultEvaluationOptions(), ...options.evaluationOptions };
+    const toSortKey = typeof options.sortKeyOrBlockHeight == 'string' ? options.sortKeyOrBlockHeight : undefined;
+    for (const contractTxId of contractTxIds) {
+      try {
+        const cached = toSortKey
+          ? await this.warp.stateEvaluator.getCache().getLessOrEqual(contractTxId, toSortKey)
+          : await this.warp.stateEvaluator.getCache().getLast(contractTxId);
+        const interactions = await this.warp.interactionsLoader.load(
+          contractTxId,
+          cached?.sortKey,
+          toSortKey,
+          evaluationOptions
+        );
+        for (const interaction of interactions) {
+          interaction.tags
+            .filter((tag) => tag.name === SMART_WEAVE_TAGS.CONTRACT_TX_ID)
+            .forEach((tag) => union(contractTxId, tag.value));
+          this.tagsParser
+            .getInteractWritesContracts(interaction)
+            .forEach((connectedTxId) => union(contractTxId, connectedTxId));
+        }
+      } catch (e) {
+        // the contract will fail during the evaluation anyway
+        this.logger.warn(`Cannot load interactions of ${contractTxId}`, e);
+      }
+    }
+
+    const groups: Map<string, string[]> = new Map();
+    for (const contractTxId of contractTxIds) {
+      const root = find(contractTxId);
+      if (!groups.has(root)) {
+        groups.set(root, []);
+      }
+      groups.get(root).push(contractTxId);
+    }
+    return [...groups.values()];
+  }
+
+  private async runWorker(
+    queue: string[][],
+    workerData: ReadStatesWorkerData,
+    onResult: (result: ReadStatesResult) => void
+  ): Promise<void> {
+    let worker: Worker = null;
+    try {
+      while (queue.length > 0) {
+        const group = queue.shift();
+        worker = worker || this.createWorker(workerData);
+        try {
+          await this.runGroup(worker, group, onResult);
+        } catch (e) {
+          // the next group is evaluated by a new worker
+          this.logger.error(`Worker failed while evaluating ${group.join(', ')}`, e);
+          await worker.terminate();
+          worker = null;
+        }
+      }
+    } finally {
+      if (worker) {
+        await worker.terminate();
+      }
+    }
+  }
+
+  private runGroup(worker: Worker, group: string[], onResult: (result: ReadStatesResult) => void): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const pending = new Set(group);
+      const cleanup = () => {
+        worker.off('message', onMessage);
+        worker.off('error', onError);
+        worker.off('exit', onExit);
+      };
+      const onMessage = (message: ReadStatesWorkerMessage) => {
+        if (message.type == 'done') {
+          cleanup();
+          resolve();
+          return;
+        }
+        pending.delete(message.contractTxId);
+        if (message.type == 'result') {
+          const { sortKey, cachedValue } = message.result;
+          const state = new EvalStateResult(cachedValue.state, cachedValue.validity, cachedValue.errorMessages);
+          onResult({ contractTxId: message.contractTxId, result: new SortKeyCacheResult(sortKey, state), error: null });
+        } else {
+          onResult({ contractTxId: message.contractTxId, result: null, error: message.error });
+        }
+      };
+      const onError = (e: Error) => {
+        cleanup();
+        pending.forEach((contractTxId) =>
+          onResult({ contractTxId, result: null, error: `Worker failed: ${e.message}` })
+        );
+        reject(e);
+      };
+      const onExit = (code: number) => onError(new Error(`Worker exited with code ${code}`));
+
+      worker.on('message', onMessage);
+      worker.on('error', onError);
+      worker.on('exit', onExit);
+      worker.postMessage({ contractTxIds: group });
+    });
+  }
+
+  private createWorker(workerData: ReadStatesWorkerData): Worker {
+    // 'require' to prevent esbuild from adding the node modules to the web bundle
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const { Worker } = require('worker_threads');
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const path = require('path');
+
+    // running from the sources (e.g. in tests) - the worker has to be transpiled on the fly
+    const fromSources = __filename.endsWith('.ts');
+    const worker = new Worker(path.join(__dirname, `readStatesWorker.${fromSources ? 'ts' : 'js'}`), {
+      workerData,
+      execArgv: fromSources ? ['-r', 'ts-node/register/transpile-only'] : undefined
+    });
+    // the errors between the groups - the worker is replaced when the next group is sent to it
+    worker.on('error', (e: Error) => this.logger.error('Worker error', e));
+    return worker;
+  }
+
+  private defaultConcurrency(): number {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    return Math.max(require('os').cpus().length - 1, 1);
+  }
+}
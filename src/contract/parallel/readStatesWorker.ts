@@ -0,0 +1,65 @@
+import Arweave from 'arweave';
+import { parentPort, workerData } from 'worker_threads';
+import { Warp } from '../../core/Warp';
+import { defaultCacheOptions, WarpFactory } from '../../core/WarpFactory';
+import { RemoteSortKeyCache } from '../../cache/remote/RemoteSortKeyCache';
+import { ReadStatesWorkerData, ReadStatesWorkerMessage } from './ParallelStateReader';
+
+/**
+ * The worker thread of the {@link ParallelStateReader} - evaluates the groups of contracts sent by the main thread.
+ * Not exported from the package index - the module is loaded only by the worker threads.
+ */
+
+const data = workerData as ReadStatesWorkerData;
+let warp: Promise<Warp> = null;
+
+async function createWarp(): Promise<Warp> {
+  let result: Warp;
+  if (data.workerModule) {
+    // the module is known only at runtime
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    result = await require(data.workerModule).createWarp(data);
+  } else {
+    const cacheOptions = { ...defaultCacheOptions, inMemory: true };
+    switch (data.environment) {
+      case 'mainnet':
+        result = WarpFactory.forMainnet(cacheOptions);
+        break;
+      case 'testnet':
+        result = WarpFactory.forTestnet(cacheOptions);
+        break;
+      case 'local':
+        result = WarpFactory.forLocal(Number(data.arweave.port), Arweave.init(data.arweave), cacheOptions);
+        break;
+      default:
+        throw new Error(`Worker module is required for the '${data.environment}' Warp environment`);
+    }
+    // the KV storages of the main thread are not available here - and the in-memory ones would produce invalid states
+    result.useKVStorageFactory(() => {
+      throw new Error('Worker module with the KV storage factory is required for the contracts using the KV storage');
+    });
+  }
+  return result.useStateCache(
+    new RemoteSortKeyCache(data.stateCacheUrl, { Authorization: `Bearer ${data.stateCacheToken}` })
+  );
+}
+
+function post(message: ReadStatesWorkerMessage) {
+  parentPort.postMessage(message);
+}
+
+parentPort.on('message', async ({ contractTxIds }: { contractTxIds: string[] }) => {
+  warp = warp || createWarp();
+  for (const contractTxId of contractTxIds) {
+    try {
+      const contract = (await warp).contract(contractTxId);
+      const { sortKey, cachedValue } = await contract
+        .setEvaluationOptions(data.evaluationOptions)
+        .readState(data.sortKeyOrBlockHeight ?? undefined);
+      post({ type: 'result', contractTxId, result: { sortKey, cachedValue } });
+    } catch (e) {
+      post({ type: 'error', contractTxId, error: e.message });
+    }
+  }
+  post({ type: 'done' });
+});
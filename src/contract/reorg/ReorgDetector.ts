@@ -0,0 +1,207 @@
+import { Warp } from '../../core/Warp';
+import { DEFAULT_LEVEL_DB_LOCATION } from '../../core/WarpFactory';
+import { CacheKey, keyHistory, SortKeyCache } from '../../cache/SortKeyCache';
+import { invalidateKeyFrom } from '../../cache/BasicSortKeyCache';
+import { LevelDbCache } from '../../cache/impl/LevelDbCache';
+import { createSortKeyCache } from '../../cache/SortKeyCacheFactory';
+import { CustomEvent } from '../../core/modules/StateEvaluator';
+import { clearInteractionsCacheFrom } from '../../core/modules/InteractionsLoader';
+import { defaultArweaveMs, sortingFirst } from '../../core/modules/impl/LexicographicalInteractionsSorter';
+import { GQLBlockInterface, GQLNodeInterface } from '../../legacy/gqlResult';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { TagsParser } from '../../core/modules/impl/TagsParser';
+import { Contract } from '../Contract';
+
+/**
+ * @param depth - the number of blocks (below the latest cached state of the contract) that are verified
+ * before each evaluation - i.e. the max. depth of the detected reorgs. 50 by default.
+ * @param blockCache - the cache of the tracked blocks - if not set, created in the 'blocks' subdirectory
+ * of the {@link Warp.cacheOptions} location (in-memory for the Warp instances without the cache options)
+ */
+export interface ReorgDetectionOptions {
+  depth?: number;
+  blockCache?: SortKeyCache<TrackedBlock>;
+}
+
+/**
+ * @param contracts - the other contracts whose caches were changed by the evaluated interactions from the block
+ * - i.e. their callers (the write-backs) and the contracts they wrote to (the 'Interact-Write' tags)
+ */
+export type TrackedBlock = Pick<GQLBlockInterface, 'id' | 'previous'> & { contracts?: string[] };
+
+/**
+ * The detail of the 'reorgDetected' event dispatched on the {@link Warp.eventTarget}.
+ *
+ * @param height - the lowest block height with the changed block
+ * @param sortKey - the contract's caches were rolled back from this sortKey (inclusive)
+ * @param canonicalBlockId - the id of the block at the height in the canonical chain
+ * - null if the interactions of the contract are no longer in any block at this height
+ * @param invalidatedContracts - the other contracts touched by the internal writes since the sortKey
+ * - their caches were rolled back as well
+ */
+export interface ReorgEvent {
+  contractTxId: string;
+  height: number;
+  sortKey: string;
+  orphanedBlockId: string;
+  canonicalBlockId: string | null;
+  invalidatedContracts: string[];
+}
+
+/**
+ * Detects the chain reorganisations affecting the cached states of the contracts.
+ * Enabled with the {@link Warp.useReorgDetection}.
+ *
+ * The ids of the blocks of the evaluated interactions are tracked per block height (up to the configured depth
+ * below the latest evaluated interaction). Before each evaluation of the root contract, the interactions from
+ * the tracked heights are re-loaded and their blocks (the {@link GQLBlockInterface.id} and the
+ * {@link GQLBlockInterface.previous} of the next height) compared with the tracked ones.
+ * If any of them has changed, all the contract's caches are rolled back from the reorged height
+ * (see {@link Contract.invalidateCacheFrom}) - so that the state is re-evaluated on the canonical chain.
+ * The caches of the contracts touched by the internal writes of the interactions evaluated since the reorged height
+ * are rolled back as well - the other contracts are verified when they are evaluated.
+ */
+export class ReorgDetector {
+  private readonly logger = LoggerFactory.INST.create('ReorgDetector');
+  private readonly depth: number;
+  private readonly blockCache: SortKeyCache<TrackedBlock>;
+  private readonly tagsParser = new TagsParser();
+
+  constructor(private readonly warp: Warp, options: ReorgDetectionOptions = {}) {
+    this.depth = options.depth ?? 50;
+    this.blockCache =
+      options.blockCache ||
+      (warp.cacheOptions
+        ? createSortKeyCache<TrackedBlock>({
+            ...warp.cacheOptions,
+            dbLocation: `${warp.cacheOptions.dbLocation}/blocks`
+          })
+        : new LevelDbCache<TrackedBlock>({
+            inMemory: true,
+            dbLocation: `${DEFAULT_LEVEL_DB_LOCATION}/blocks`
+          }));
+  }
+
+  /**
+   * Verifies the tracked blocks of the contract - and rolls back its caches if a reorg is detected.
+   * @return the detected reorg - or null
+   */
+  async check(contract: Contract<unknown>): Promise<ReorgEvent | null> {
+    const contractTxId = contract.txId();
+    const lastCached = await this.warp.stateEvaluator.getCache().getLast(contractTxId);
+    if (lastCached == null) {
+      return null;
+    }
+    const lastHeight = blockHeight(lastCached.sortKey);
+    const tracked = (
+      await keyHistory(this.blockCache, contractTxId, {
+        fromSortKey: firstSortKey(Math.max(lastHeight - this.depth, 0)),
+        toSortKey: lastCached.sortKey
+      })
+    ).filter((version) => !version.deleted);
+    if (tracked.length == 0) {
+      return null;
+    }
+
+    // the interactions cached by the interactions loader might be the orphaned ones
+    const fromSortKey = tracked[0].sortKey;
+    clearInteractionsCacheFrom(this.warp.interactionsLoader, contractTxId, fromSortKey);
+    const interactions = await this.warp.interactionsLoader.load(
+      contractTxId,
+      fromSortKey,
+      lastCached.sortKey,
+      contract.evaluationOptions()
+    );
+    const canonicalBlocks: Map<number, string> = new Map();
+    for (const { block } of interactions.filter((i) => i.sortKey.localeCompare(fromSortKey) > 0)) {
+      canonicalBlocks.set(block.height, block.id);
+      if (block.previous && !canonicalBlocks.has(block.height - 1)) {
+        canonicalBlocks.set(block.height - 1, block.previous);
+      }
+    }
+
+    for (const { sortKey, value } of tracked) {
+      const height = blockHeight(sortKey);
+      const canonicalBlockId = canonicalBlocks.get(height) ?? null;
+      if (canonicalBlockId !== value.id) {
+        const invalidatedContracts = [
+          ...new Set(
+            tracked
+              .filter((version) => version.sortKey.localeCompare(sortKey) >= 0)
+              .flatMap((version) => version.value.contracts || [])
+          )
+        ];
+        const event: ReorgEvent = {
+          contractTxId,
+          height,
+          sortKey,
+          orphanedBlockId: value.id,
+          canonicalBlockId,
+          invalidatedContracts
+        };
+        this.logger.warn(`Reorg detected for ${contractTxId} at height ${height}`, event);
+        await contract.invalidateCacheFrom(sortKey);
+        await invalidateKeyFrom(this.blockCache, contractTxId, sortKey);
+        for (const touchedTxId of invalidatedContracts) {
+          // the contracts called by the internal writes are evaluated with the root contract's options
+          await this.warp
+            .contract(touchedTxId)
+            .setEvaluationOptions(contract.evaluationOptions())
+            .invalidateCacheFrom(sortKey);
+          await invalidateKeyFrom(this.blockCache, touchedTxId, sortKey);
+        }
+        this.warp.eventTarget.dispatchEvent(new CustomEvent('reorgDetected', { detail: event }));
+        return event;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Tracks the blocks of the interactions evaluated up to the given sortKey (inclusive).
+   */
+  async track(contractTxId: string, interactions: GQLNodeInterface[], sortKey: string): Promise<void> {
+    const evaluated = interactions.filter((i) => !i.dry && i.block?.id && i.sortKey.localeCompare(sortKey) <= 0);
+    if (evaluated.length == 0) {
+      return;
+    }
+    const minHeight = evaluated[evaluated.length - 1].block.height - this.depth;
+    const blocks: Map<number, TrackedBlock & { contracts: string[] }> = new Map();
+    for (const interaction of evaluated.filter((i) => i.block.height >= minHeight)) {
+      const { block } = interaction;
+      if (!blocks.has(block.height)) {
+        blocks.set(block.height, { id: block.id, previous: block.previous, contracts: [] });
+      }
+      blocks.get(block.height).contracts.push(...this.touchedContracts(contractTxId, interaction));
+    }
+    for (const [height, block] of blocks) {
+      const cacheKey = new CacheKey(contractTxId, firstSortKey(height));
+      // the block might have been partially evaluated before
+      const previous = await this.blockCache.get(cacheKey);
+      if (previous?.cachedValue.id === block.id) {
+        block.contracts.push(...(previous.cachedValue.contracts || []));
+      }
+      await this.blockCache.put(cacheKey, { ...block, contracts: [...new Set(block.contracts)] });
+    }
+  }
+
+  private touchedContracts(contractTxId: string, interaction: GQLNodeInterface): string[] {
+    return [
+      ...this.tagsParser.getContractsWithInputs(interaction).keys(),
+      ...this.tagsParser.getInteractWritesContracts(interaction)
+    ].filter((touchedTxId) => touchedTxId !== contractTxId);
+  }
+
+  close(): Promise<void> {
+    return this.blockCache.close();
+  }
+}
+
+// the lowest possible sortKey at the block height
+function firstSortKey(height: number): string {
+  return `${`${height}`.padStart(12, '0')},${defaultArweaveMs},${sortingFirst}`;
+}
+
+function blockHeight(sortKey: string): number {
+  return parseInt(sortKey.split(',')[0]);
+}
@@ -0,0 +1,245 @@
+import { Buffer } from 'warp-isomorphic';
+import { Warp } from '../../core/Warp';
+import { CacheKey, SortKeyCacheResult } from '../../cache/SortKeyCache';
+import { EvalStateResult } from '../../core/modules/StateEvaluator';
+import { ContractCache, SrcCache } from '../../core/ContractDefinition';
+import { Evolve } from '../../plugins/Evolve';
+import { LoggerFactory } from '../../logging/LoggerFactory';
+import { stableHash } from '../../utils/utils';
+
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotManifest {
+  version: number;
+  contractTxId: string;
+  // the sortKey of the exported state - may be lower than the requested one
+  sortKey: string;
+  // the hash of the whole EvalStateResult - i.e. including the validity and error messages
+  stateHash: string;
+  kvHash: string;
+  kvEntries: number;
+  contractHash: string;
+  srcTxIds: string[];
+  sourceHashes: Record<string, string>;
+}
+
+/**
+ * The content of the snapshot archive.
+ * The kv entries contain the values of all the contract's kv storage keys as of the {@link SnapshotManifest.sortKey}.
+ */
+export interface StateSnapshot<State = unknown> {
+  manifest: SnapshotManifest;
+  state: EvalStateResult<State>;
+  kv: [string, unknown][];
+  contract: ContractCache<State>;
+  sources: Record<string, SrcCache>;
+}
+
+/**
+ * Allows to move the evaluated contract's state between nodes - without having to re-evaluate it from the genesis.
+ * Available as {@link Warp.snapshots}.
+ *
+ * The exported archive is a single, json-encoded {@link StateSnapshot} that contains
+ * 1. the evaluated state (from the state cache)
+ * 2. the contract's kv storage entries
+ * 3. the contract definition and source(s) - from the definition loader caches
+ * 4. a manifest with the hashes of all the above - verified during the import.
+ *
+ * The contract definition and source(s) are never written into the definition loader caches as they are
+ * in the archive (a tampered source would be executed during the next evaluation) - instead they are loaded
+ * with the {@link Warp.definitionLoader} (i.e. from its cache or from the network) and compared with the archived ones.
+ */
+export class Snapshots {
+  private readonly logger = LoggerFactory.INST.create('Snapshots');
+
+  constructor(private readonly warp: Warp) {}
+
+  /**
+   * Exports the latest state cached for the given contract up to the given sortKey (or the latest cached state,
+   * if the sortKey is not passed).
+   */
+  async export(contractTxId: string, sortKey?: string): Promise<Buffer> {
+    const { stateEvaluator, definitionLoader } = this.warp;
+
+    const cachedState = sortKey
+      ? await stateEvaluator.getCache().getLessOrEqual(contractTxId, sortKey)
+      : await stateEvaluator.getCache().getLast(contractTxId);
+    if (cachedState == null) {
+      throw new Error(`No state cached for ${contractTxId} - read the state before exporting the snapshot`);
+    }
+
+    const contract = await definitionLoader.getCache().get(new CacheKey(contractTxId, 'cd'));
+    if (contract == null) {
+      throw new Error(`Contract definition not cached for ${contractTxId}`);
+    }
+
+    const srcTxIds = [contract.cachedValue.srcTxId];
+    const evolvedSrcTxId = Evolve.evolvedSrcTxId(cachedState.cachedValue.state);
+    if (evolvedSrcTxId && !srcTxIds.includes(evolvedSrcTxId)) {
+      srcTxIds.push(evolvedSrcTxId);
+    }
+    const sources: Record<string, SrcCache> = {};
+    for (const srcTxId of srcTxIds) {
+      const src = await definitionLoader.getSrcCache().get(new CacheKey(srcTxId, 'src'));
+      if (src == null) {
+        throw new Error(`Contract source ${srcTxId} not cached for ${contractTxId}`);
+      }
+      sources[srcTxId] = src.cachedValue;
+    }
+
+    const kv = await this.exportKv(contractTxId, cachedState.sortKey);
+
+    const snapshot: StateSnapshot = {
+      manifest: {
+        version: SNAPSHOT_VERSION,
+        contractTxId,
+        sortKey: cachedState.sortKey,
+        stateHash: await stableHash(cachedState.cachedValue),
+        kvHash: await stableHash(kv),
+        kvEntries: kv.length,
+        contractHash: await stableHash(contract.cachedValue),
+        srcTxIds,
+        sourceHashes: await hashSources(sources)
+      },
+      state: cachedState.cachedValue,
+      kv,
+      contract: contract.cachedValue,
+      sources
+    };
+    this.logger.info('Exported snapshot', snapshot.manifest);
+
+    return Buffer.from(JSON.stringify(snapshot), 'utf-8');
+  }
+
+  /**
+   * Verifies the snapshot archive (including its contract definition and sources - against the ones
+   * loaded by the {@link Warp.definitionLoader}) and loads its content into the state cache and kv storage.
+   */
+  async import<State = unknown>(archive: Buffer | Uint8Array): Promise<SortKeyCacheResult<EvalStateResult<State>>> {
+    const snapshot = await this.verify<State>(archive);
+    const { manifest, state, kv } = snapshot;
+    const { stateEvaluator } = this.warp;
+
+    await this.verifyDefinition(snapshot);
+
+    if (kv.length) {
+      const storage = this.warp.kvStorageFactory(manifest.contractTxId);
+      try {
+        await storage.open();
+        for (const [key, value] of kv) {
+          await storage.put(new CacheKey(key, manifest.sortKey), value);
+        }
+      } finally {
+        await storage.close();
+      }
+    }
+
+    const stateToCache = new EvalStateResult<State>(state.state, state.validity || {}, state.errorMessages || {});
+    await stateEvaluator.getCache().put(new CacheKey(manifest.contractTxId, manifest.sortKey), stateToCache);
+    this.logger.info('Imported snapshot', manifest);
+
+    return new SortKeyCacheResult(manifest.sortKey, stateToCache);
+  }
+
+  /**
+   * Parses the snapshot archive and verifies its integrity - throws if the archive is not valid.
+   */
+  async verify<State = unknown>(archive: Buffer | Uint8Array): Promise<StateSnapshot<State>> {
+    let snapshot: StateSnapshot<State>;
+    try {
+      snapshot = JSON.parse(Buffer.from(archive).toString('utf-8'));
+    } catch (e) {
+      throw new Error(`Snapshot archive is not valid: ${e.message}`);
+    }
+
+    const { manifest } = snapshot;
+    if (!manifest || manifest.version !== SNAPSHOT_VERSION) {
+      throw new Error(`Unsupported snapshot version: ${manifest?.version}`);
+    }
+    if (!snapshot.state || !snapshot.contract || snapshot.contract.txId !== manifest.contractTxId) {
+      throw new Error(`Snapshot archive for ${manifest.contractTxId} is not complete`);
+    }
+    for (const srcTxId of manifest.srcTxIds) {
+      if (!snapshot.sources?.[srcTxId]) {
+        throw new Error(`Snapshot archive for ${manifest.contractTxId} does not contain source ${srcTxId}`);
+      }
+    }
+
+    const stateHash = await stableHash(snapshot.state);
+    if (stateHash !== manifest.stateHash) {
+      throw new Error(`State hash mismatch - expected ${manifest.stateHash}, got ${stateHash}`);
+    }
+    const kvHash = await stableHash(snapshot.kv);
+    if (kvHash !== manifest.kvHash) {
+      throw new Error(`KV storage hash mismatch - expected ${manifest.kvHash}, got ${kvHash}`);
+    }
+    const contractHash = await stableHash(snapshot.contract);
+    if (contractHash !== manifest.contractHash) {
+      throw new Error(`Contract definition hash mismatch - expected ${manifest.contractHash}, got ${contractHash}`);
+    }
+    const sourceHashes = await hashSources(snapshot.sources);
+    for (const srcTxId of Object.keys(sourceHashes)) {
+      if (sourceHashes[srcTxId] !== manifest.sourceHashes?.[srcTxId]) {
+        throw new Error(
+          `Contract source ${srcTxId} hash mismatch - expected ${manifest.sourceHashes?.[srcTxId]}, got ${sourceHashes[srcTxId]}`
+        );
+      }
+    }
+
+    return snapshot;
+  }
+
+  // the archived definition and sources have to match the ones loaded by the definition loader
+  // - which also caches them, if they were not cached yet
+  private async verifyDefinition(snapshot: StateSnapshot<unknown>): Promise<void> {
+    const { manifest, contract, sources } = snapshot;
+    for (const srcTxId of manifest.srcTxIds) {
+      const definition = await this.warp.definitionLoader.load(
+        manifest.contractTxId,
+        srcTxId == contract.srcTxId ? undefined : srcTxId
+      );
+      // the definition loaded with the evolved source has the srcTxId of that source
+      const expected = { ...contract, srcTxId };
+      if ((await stableHash(definitionIdentity(definition))) !== (await stableHash(definitionIdentity(expected)))) {
+        throw new Error(`Contract definition of ${manifest.contractTxId} does not match the loaded one`);
+      }
+      if ((await stableHash(sourceIdentity(definition))) !== (await stableHash(sourceIdentity(sources[srcTxId])))) {
+        throw new Error(`Contract source ${srcTxId} does not match the loaded one`);
+      }
+    }
+  }
+
+  private async exportKv(contractTxId: string, sortKey: string): Promise<[string, unknown][]> {
+    const storage = this.warp.kvStorageFactory(contractTxId);
+    try {
+      await storage.open();
+      return Array.from((await storage.kvMap(sortKey)).entries());
+    } finally {
+      await storage.close();
+    }
+  }
+}
+
+async function hashSources(sources: Record<string, SrcCache>): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  for (const [srcTxId, src] of Object.entries(sources)) {
+    hashes[srcTxId] = await stableHash(sourceIdentity(src));
+  }
+  return hashes;
+}
+
+function definitionIdentity(contract: ContractCache<unknown>) {
+  const { txId, srcTxId, owner, contractType, initState, manifest } = contract;
+  return { txId, srcTxId, owner, contractType, initState, manifest };
+}
+
+// the binary sources are stored either as a Buffer or - after the json serialization - as { type, data }
+function sourceIdentity(src: SrcCache) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const binary = src.srcBinary as any;
+  return {
+    src: src.src || null,
+    srcBinary: binary ? Buffer.from(binary.data || binary).toString('base64') : null,
+    srcWasmLang: src.srcWasmLang || null
+  };
+}
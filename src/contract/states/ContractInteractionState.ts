@@ -1,15 +1,22 @@
-import { InteractionState } from './InteractionState';
+import { InteractionState, InteractionStateSavepoint } from './InteractionState';
 import { CacheKey, SortKeyCache, SortKeyCacheResult } from '../../cache/SortKeyCache';
 import { EvalStateResult } from '../../core/modules/StateEvaluator';
 import { GQLNodeInterface } from '../../legacy/gqlResult';
 import { Warp } from '../../core/Warp';
 import { SortKeyCacheRangeOptions } from '../../cache/SortKeyCacheRangeOptions';
 import { SimpleLRUCache } from '../../common/SimpleLRUCache';
+import { deepCopy } from '../../utils/utils';
+import { InteractionDiff } from '../../core/InteractionDiff';
+import { Savepoint } from '../../cache/BasicSortKeyCache';
 
 export class ContractInteractionState implements InteractionState {
   private readonly _json = new Map<string, SimpleLRUCache<string, EvalStateResult<unknown>>>();
   private readonly _initialJson = new Map<string, EvalStateResult<unknown>>();
   private readonly _kv = new Map<string, SortKeyCache<unknown>>();
+  // the kv storage transactions begun while a savepoint was active - see trackKV
+  private readonly _trackedKv = new Map<string, { storage: SortKeyCache<unknown>; transaction: Savepoint }>();
+  private _activeSavepoints = 0;
+  private _diffs: InteractionDiff[] = [];
 
   constructor(private readonly _warp: Warp) {}
 
@@ -67,6 +74,7 @@ export class ContractInteractionState implements InteractionState {
   async commit(interaction: GQLNodeInterface, forceStore = false): Promise<void> {
     if (interaction.dry) {
       await this.rollbackKVs();
+      await this.rollbackTrackedKVs();
       return this.reset();
     }
     try {
@@ -78,7 +86,9 @@ export class ContractInteractionState implements InteractionState {
         }
       });
       await this.doStoreJson(latestState, interaction, forceStore);
+      await this.doStoreDiffs(this._diffs);
       await this.commitKVs();
+      await this.commitTrackedKVs();
     } finally {
       this.reset();
     }
@@ -92,12 +102,80 @@ export class ContractInteractionState implements InteractionState {
   async rollback(interaction: GQLNodeInterface, forceStateStoreToCache: boolean): Promise<void> {
     try {
       await this.doStoreJson(this._initialJson, interaction, forceStateStoreToCache);
+      // the changes recorded by the valid interactions have been just reverted
+      await this.doStoreDiffs(this._diffs.filter((diff) => !diff.valid));
       await this.rollbackKVs();
+      await this.rollbackTrackedKVs();
     } finally {
       this.reset();
     }
   }
 
+  async trackKV(contractTxId: string, storage: SortKeyCache<unknown>): Promise<void> {
+    if (this._activeSavepoints == 0 || this._trackedKv.has(contractTxId) || !storage.rollbackTo || !storage.release) {
+      return;
+    }
+    const transaction = (await storage.begin()) as Savepoint;
+    if (transaction.depth > 0) {
+      // the storage is already in a transaction of an enclosing call (e.g. a write-back) - reverted by that call
+      await storage.release(transaction);
+      return;
+    }
+    this._trackedKv.set(contractTxId, { storage, transaction });
+  }
+
+  async savepoint(): Promise<InteractionStateSavepoint> {
+    const json = new Map<string, [string, EvalStateResult<unknown>][]>();
+    this._json.forEach((states, contractTxId) => {
+      // copied - the states might be modified in place by the subsequent calls
+      json.set(
+        contractTxId,
+        states.keys().map((sortKey) => [sortKey, deepCopy(states.get(sortKey))])
+      );
+    });
+    const kv = new Map<string, Savepoint>();
+    for (const [contractTxId, { storage }] of this._trackedKv) {
+      kv.set(contractTxId, (await storage.begin()) as Savepoint);
+    }
+    this._activeSavepoints++;
+    return { json, kv };
+  }
+
+  async rollbackTo(savepoint: InteractionStateSavepoint): Promise<void> {
+    this._json.clear();
+    savepoint.json.forEach((entries, contractTxId) => {
+      for (const [sortKey, state] of entries) {
+        this.update(contractTxId, deepCopy(state), sortKey);
+      }
+    });
+    for (const [contractTxId, { storage, transaction }] of this._trackedKv) {
+      if (savepoint.kv.has(contractTxId)) {
+        await storage.rollbackTo(savepoint.kv.get(contractTxId));
+      } else {
+        // the storage has been first used after the savepoint - all its changes are reverted
+        try {
+          await storage.rollbackTo(transaction);
+        } finally {
+          this._trackedKv.delete(contractTxId);
+          await storage.close();
+        }
+      }
+    }
+    this._activeSavepoints--;
+  }
+
+  async release(savepoint: InteractionStateSavepoint): Promise<void> {
+    // the json-states are not copied back - the changes made since the savepoint are simply kept
+    for (const [contractTxId, kvSavepoint] of savepoint.kv) {
+      await this._trackedKv.get(contractTxId).storage.release(kvSavepoint);
+    }
+    this._activeSavepoints--;
+  }
+
+  addDiff(diff: InteractionDiff): void {
+    this._diffs.push(diff);
+  }
+
   setInitial(contractTxId: string, state: EvalStateResult<unknown>, sortKey: string): void {
     // think twice here.
     this._initialJson.set(contractTxId, state);
@@ -130,6 +208,9 @@ export class ContractInteractionState implements InteractionState {
     this._json.clear();
     this._initialJson.clear();
     this._kv.clear();
+    this._trackedKv.clear();
+    this._activeSavepoints = 0;
+    this._diffs = [];
   }
 
   private async doStoreJson(
@@ -144,6 +225,12 @@ export class ContractInteractionState implements InteractionState {
     }
   }
 
+  private async doStoreDiffs(diffs: InteractionDiff[]) {
+    for (const diff of diffs) {
+      await this._warp.diffCache.put(new CacheKey(diff.contractTxId, diff.sortKey), diff);
+    }
+  }
+
   private async rollbackKVs(): Promise<void> {
     for (const storage of this._kv.values()) {
       try {
@@ -154,6 +241,16 @@ export class ContractInteractionState implements InteractionState {
     }
   }
 
+  private async rollbackTrackedKVs(): Promise<void> {
+    for (const { storage, transaction } of this._trackedKv.values()) {
+      try {
+        await storage.rollbackTo(transaction);
+      } finally {
+        await storage.close();
+      }
+    }
+  }
+
   private async commitKVs(): Promise<void> {
     for (const storage of this._kv.values()) {
       try {
@@ -163,4 +260,14 @@ export class ContractInteractionState implements InteractionState {
       }
     }
   }
+
+  private async commitTrackedKVs(): Promise<void> {
+    for (const { storage, transaction } of this._trackedKv.values()) {
+      try {
+        await storage.release(transaction);
+      } finally {
+        await storage.close();
+      }
+    }
+  }
 }
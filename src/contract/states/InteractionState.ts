@@ -1,7 +1,19 @@
-import { CacheKey, SortKeyCacheResult } from '../../cache/SortKeyCache';
+import { CacheKey, SortKeyCache, SortKeyCacheResult } from '../../cache/SortKeyCache';
+import { Savepoint } from '../../cache/BasicSortKeyCache';
 import { EvalStateResult } from '../../core/modules/StateEvaluator';
 import { GQLNodeInterface } from '../../legacy/gqlResult';
 import { SortKeyCacheRangeOptions } from '../../cache/SortKeyCacheRangeOptions';
+import { InteractionDiff } from '../../core/InteractionDiff';
+
+/**
+ * A savepoint of the interaction state - returned by the {@link InteractionState.savepoint}.
+ * Stores the copies of the json-states (per contract and sortKey) and the savepoints of the kv storages
+ * tracked by the interaction state at the moment of its creation (see {@link InteractionState.trackKV}).
+ */
+export interface InteractionStateSavepoint {
+  json: Map<string, [string, EvalStateResult<unknown>][]>;
+  kv: Map<string, Savepoint>;
+}
 
 // Handles contracts state (both the json-based and kv-based) during interaction evaluation
 export interface InteractionState {
@@ -23,6 +35,13 @@ export interface InteractionState {
    */
   updateKV(contractTxId: string, key: CacheKey, value: unknown): Promise<void>;
 
+  /**
+   * Adds the diff recorded during interaction evaluation - see {@link EvaluationOptions.recordDiffs}.
+   * The diffs are stored in the {@link Warp.diffCache} together with the states - by the {@link commit}.
+   * The {@link rollback} stores only the diffs of the failed interactions (i.e. without any changes).
+   */
+  addDiff(diff: InteractionDiff): void;
+
   /**
    * commits all the state changes made for all contracts within given interaction evaluation.
    * Called by the {@link DefaultStateEvaluator} at the end every root's contract interaction evaluation
@@ -40,6 +59,34 @@ export interface InteractionState {
    */
   rollback(interaction: GQLNodeInterface, forceStateStoreToCache: boolean): Promise<void>;
 
+  /**
+   * Called by the {@link KV} before it begins its outermost transaction. While any savepoint is active,
+   * the kv storage transaction is begun by the interaction state (the kv changes of each call are then
+   * made in the nested savepoints) - and committed or reverted together with the json-states, i.e.
+   * by the {@link rollbackTo} of the enclosing savepoint, {@link commit} or {@link rollback}.
+   * The storages that do not support the savepoints or are already in a transaction are not tracked.
+   */
+  trackKV(contractTxId: string, storage: SortKeyCache<unknown>): Promise<void>;
+
+  /**
+   * Creates a savepoint of the json-states and the tracked kv storages of all contracts.
+   * Called before each internal write, if the {@link EvaluationOptions.rollbackFailedInternalWrites} is set
+   * - so that the changes made by a failed internal write (and by all the calls nested in it)
+   * can be reverted without reverting the changes made earlier by the caller.
+   */
+  savepoint(): Promise<InteractionStateSavepoint>;
+
+  /**
+   * Reverts all the json-state and the tracked kv storages changes made since the savepoint has been created.
+   */
+  rollbackTo(savepoint: InteractionStateSavepoint): Promise<void>;
+
+  /**
+   * Releases the savepoint - the state changes made since it has been created are kept
+   * (and will be committed or rollbacked together with the whole interaction).
+   */
+  release(savepoint: InteractionStateSavepoint): Promise<void>;
+
   has(contractTxId: string, sortKey: string): boolean;
 
   get(contractTxId: string, sortKey: string): EvalStateResult<unknown> | null;
@@ -1,6 +1,7 @@
 import { InteractionData } from './modules/impl/HandlerExecutorFactory';
 import { InnerCallType } from '../contract/Contract';
 import { Crypto } from 'warp-isomorphic';
+import { InteractionDiff } from './InteractionDiff';
 
 export class ContractCallRecord {
   readonly interactions: { [key: string]: InteractionCall } = {};
@@ -78,6 +79,8 @@ export class InteractionOutput {
     public readonly executionTime: number,
     public readonly valid: boolean,
     public readonly errorMessage: string = '',
-    public readonly gasUsed: number
+    public readonly gasUsed: number,
+    // recorded instead of the full outputState if the EvaluationOptions.recordDiffs is set
+    public readonly diff?: InteractionDiff
   ) {}
 }
@@ -0,0 +1,95 @@
+import Arweave from 'arweave';
+import { SortKeyCacheResult } from '../cache/SortKeyCache';
+import { EvalStateResult } from './modules/StateEvaluator';
+
+/**
+ * Limits the evaluation of the contract's interactions in a single {@link Contract.readStateWithBudget} call.
+ * The evaluation stops before the next interaction, once any of the limits is reached
+ * - at least one interaction is always evaluated.
+ *
+ * @param maxInteractions - max. number of the evaluated interactions
+ * @param maxTimeMs - max. wall time of the evaluation (including the interactions loading)
+ * @param maxGas - max. gas used by the evaluated interactions - see {@link EvaluationOptions.gasMetering}
+ */
+export interface EvaluationBudget {
+  maxInteractions?: number;
+  maxTimeMs?: number;
+  maxGas?: number;
+}
+
+export interface BudgetedReadStateOptions {
+  // ignored, if the continuationToken is set - the evaluation is resumed up to the originally requested sortKey
+  sortKeyOrBlockHeight?: string | number;
+  // returned by the previous call - resumes the evaluation from the last cached sortKey
+  continuationToken?: string;
+  signal?: AbortSignal;
+}
+
+export interface BudgetedReadStateResult<State> {
+  result: SortKeyCacheResult<EvalStateResult<State>>;
+  // set, if the evaluation has been stopped by the budget - i.e. the result is partial
+  continuationToken: string | null;
+}
+
+export interface ContinuationToken {
+  contractTxId: string;
+  // the sortKey of the last evaluated interaction
+  sortKey: string;
+  // the sortKey requested in the first call - or null, if the state was read up to the latest interaction
+  toSortKey: string | null;
+}
+
+/**
+ * Tracks the usage of the {@link EvaluationBudget} during a single evaluation of the root contract.
+ */
+export class EvaluationBudgetTracker {
+  private readonly startTime = Date.now();
+  private interactions = 0;
+  private gasUsed = 0;
+  private _exhausted = false;
+
+  constructor(private readonly budget: EvaluationBudget) {}
+
+  /**
+   * @return true, if the evaluation should stop before the next interaction
+   */
+  shouldStop(): boolean {
+    if (this.interactions == 0) {
+      return false;
+    }
+    const { maxInteractions, maxTimeMs, maxGas } = this.budget;
+    this._exhausted =
+      (maxInteractions != null && this.interactions >= maxInteractions) ||
+      (maxTimeMs != null && Date.now() - this.startTime >= maxTimeMs) ||
+      (maxGas != null && this.gasUsed >= maxGas);
+    return this._exhausted;
+  }
+
+  interactionStarted() {
+    this.interactions++;
+  }
+
+  useGas(gasUsed = 0) {
+    this.gasUsed += gasUsed;
+  }
+
+  get exhausted(): boolean {
+    return this._exhausted;
+  }
+}
+
+export function encodeContinuationToken(token: ContinuationToken): string {
+  return Arweave.utils.stringToB64Url(JSON.stringify(token));
+}
+
+export function decodeContinuationToken(token: string): ContinuationToken {
+  try {
+    const decoded = JSON.parse(Arweave.utils.b64UrlToString(token));
+    if (typeof decoded.contractTxId == 'string' && typeof decoded.sortKey == 'string') {
+      return decoded;
+    }
+  } catch (e) {
+    // handled below
+  }
+  throw new Error(`Invalid continuation token: ${token}`);
+}
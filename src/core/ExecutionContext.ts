@@ -4,6 +4,7 @@ import { GQLNodeInterface } from '../legacy/gqlResult';
 import { ContractDefinition } from './ContractDefinition';
 import { EvaluationOptions, EvalStateResult } from './modules/StateEvaluator';
 import { Warp } from './Warp';
+import { EvaluationBudgetTracker } from './EvaluationBudget';
 
 /**
  * current execution context of the contract - contains all elements
@@ -44,4 +45,8 @@ export type ExecutionContext<State, Api = unknown> = {
   cachedState?: SortKeyCacheResult<EvalStateResult<State>>;
   requestedSortKey?: string;
   signal?: AbortSignal;
+  /**
+   * set only for the root contract evaluated with the {@link Contract.readStateWithBudget}
+   */
+  budget?: EvaluationBudgetTracker;
 };
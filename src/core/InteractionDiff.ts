@@ -0,0 +1,26 @@
+import { Operation } from 'fast-json-patch';
+
+/**
+ * The changes made by a single interaction - recorded during the evaluation
+ * if the {@link EvaluationOptions.recordDiffs} is set.
+ *
+ * @param state - the JSON-patch from the contract state before the interaction to the state after it
+ * @param kv - the changes of the contract's KV storage - as a JSON-patch of an object with the KV keys as properties
+ * (i.e. 'add' for each put and 'remove' for each del, in the order of the calls).
+ * Not recorded for the interactions evaluated as internal writes (i.e. when a contract is written by another contract).
+ */
+export interface InteractionDiff {
+  contractTxId: string;
+  txId: string;
+  sortKey: string;
+  valid: boolean;
+  state: Operation[];
+  kv: Operation[];
+}
+
+/**
+ * Returns the JSON pointer of the KV key in the {@link InteractionDiff.kv} patch.
+ */
+export function kvDiffPath(key: string): string {
+  return `/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`;
+}
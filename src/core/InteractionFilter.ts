@@ -0,0 +1,36 @@
+import { GQLNodeInterface } from '../legacy/gqlResult';
+
+/**
+ * The declaration of the filter of the contract's interactions - see {@link EvaluationOptions.interactionFilters}.
+ * Should be declared in the contract's manifest (see {@link EvaluationManifest}) - so that all the nodes
+ * evaluate the contract with the same filters.
+ *
+ * The built-in filters:
+ * 1. { type: 'callers', exclude: string[] } - filters out the interactions of the given callers
+ * 2. { type: 'bundlers', exclude: string[] } - filters out the interactions bundled by the given bundlers
+ * (i.e. with the given 'Sequencer-Owner' tag)
+ * 3. { type: 'minFee', winston: string } - filters out the interactions with the fee lower than the given one
+ *
+ * Any other type requires the 'interaction-filter-<type>' plugin - i.e. a {@link WarpPlugin}
+ * of the {@link InteractionFilterInput} that returns the reason of filtering out the interaction (or null).
+ */
+export interface InteractionFilterDeclaration {
+  type: string;
+  [param: string]: unknown;
+}
+
+export interface InteractionFilterInput {
+  contractTxId: string;
+  interaction: GQLNodeInterface;
+  declaration: InteractionFilterDeclaration;
+}
+
+/**
+ * Decides - deterministically, based on the interaction only - whether the interaction should be evaluated.
+ */
+export interface InteractionFilter {
+  /**
+   * @return the reason of filtering out the interaction - or null, if it should be evaluated
+   */
+  filter(input: InteractionFilterInput): string | null;
+}
@@ -12,6 +12,10 @@ import { HandlerBasedContract } from '../contract/HandlerBasedContract';
 import { PstContract } from '../contract/PstContract';
 import { PstContractImpl } from '../contract/PstContractImpl';
 import { Testing, Wallet } from '../contract/testing/Testing';
+import { Snapshots } from '../contract/snapshots/Snapshots';
+import { DebugSession, DebugSessionOptions } from '../contract/debug/DebugSession';
+import { BatchReadStateOptions, BatchStateReader } from '../contract/batch/BatchStateReader';
+import { ReorgDetectionOptions, ReorgDetector } from '../contract/reorg/ReorgDetector';
 import { CacheableDefinitionLoader } from './modules/DefinitionLoader';
 import { ExecutorFactory } from './modules/ExecutorFactory';
 import { HandlerApi } from './modules/impl/HandlerExecutorFactory';
@@ -25,18 +29,23 @@ import {
   knownWarpPluginsPartial,
   WarpKnownPluginType
 } from './WarpPlugin';
-import { SortKeyCache } from '../cache/SortKeyCache';
+import { SortKeyCache, SortKeyCacheResult } from '../cache/SortKeyCache';
 import { ContractDefinition, SrcCache } from './ContractDefinition';
 import { CustomSignature } from '../contract/Signature';
 import { Transaction } from '../utils/types/arweave-types';
-import { DEFAULT_LEVEL_DB_LOCATION, WARP_GW_URL } from './WarpFactory';
+import { CacheOptions, DEFAULT_LEVEL_DB_LOCATION, WARP_GW_URL } from './WarpFactory';
 import { LevelDbCache } from '../cache/impl/LevelDbCache';
+import { createSortKeyCache } from '../cache/SortKeyCacheFactory';
 import { SourceData } from '../contract/deploy/Source';
 import { Signer, DataItem } from 'warp-arbundles';
 import { BasicSortKeyCache } from '../cache/BasicSortKeyCache';
+import { InteractionDiff } from './InteractionDiff';
 
 export type WarpEnvironment = 'local' | 'testnet' | 'mainnet' | 'custom';
-export type KVStorageFactory = (contractTxId: string) => SortKeyCache<unknown>;
+/**
+ * close - (optional) releases the resources held by the factory (e.g. the pooled storages), called by the {@link Warp.close}
+ */
+export type KVStorageFactory = ((contractTxId: string) => SortKeyCache<unknown>) & { close?: () => Promise<void> };
 
 /**
  * The Warp "motherboard" ;-).
@@ -64,7 +73,15 @@ export class Warp {
   }
 
   readonly testing: Testing;
+  readonly snapshots: Snapshots;
   kvStorageFactory: KVStorageFactory;
+  // the per-interaction diffs recorded if the EvaluationOptions.recordDiffs is set - keyed by the contract tx id
+  // (in-memory, unless the Warp has been created with the cacheOptions)
+  diffCache: SortKeyCache<InteractionDiff>;
+  // the options of the caches created by the WarpFactory - null for the instances built without them
+  cacheOptions: CacheOptions = null;
+  // null if the reorg detection is not enabled - see useReorgDetection
+  reorgDetector: ReorgDetector = null;
   whoAmI: string;
   eventTarget: EventTarget;
 
@@ -79,12 +96,17 @@ export class Warp {
     readonly environment: WarpEnvironment = 'custom'
   ) {
     this.testing = new Testing(arweave);
+    this.snapshots = new Snapshots(this);
     this.kvStorageFactory = (contractTxId: string) => {
-      return new LevelDbCache({
+      return createSortKeyCache({
         inMemory: false,
         dbLocation: `${DEFAULT_LEVEL_DB_LOCATION}/kv/ldb/${contractTxId}`
       });
     };
+    this.diffCache = new LevelDbCache({
+      inMemory: true,
+      dbLocation: `${DEFAULT_LEVEL_DB_LOCATION}/diffs`
+    });
     this.eventTarget = new EventTarget();
   }
 
@@ -133,6 +155,26 @@ export class Warp {
     return await this.createContract.saveSource(src, disableBundling);
   }
 
+  /**
+   * Reads the states of multiple contracts - with the interactions of all of them loaded in as few requests
+   * to the gateway as possible - see {@link BatchStateReader}.
+   *
+   * @return the results keyed by the contract tx id
+   */
+  async batchReadState(
+    contractTxIds: string[],
+    options?: BatchReadStateOptions
+  ): Promise<Map<string, SortKeyCacheResult<EvalStateResult<unknown>>>> {
+    return await new BatchStateReader(this).readState(contractTxIds, options);
+  }
+
+  /**
+   * Starts a step-through debugging session of the contract's evaluation - see {@link DebugSession}.
+   */
+  debug<State = unknown>(contractTxId: string, options?: DebugSessionOptions): DebugSession<State> {
+    return new DebugSession<State>(this, contractTxId, options);
+  }
+
   /**
    * Allows to connect to a contract that conforms to the Profit Sharing Token standard
    * @param contractTxId
@@ -191,7 +233,10 @@ export class Warp {
     return Promise.all([
       this.definitionLoader.getSrcCache().close(),
       this.definitionLoader.getCache().close(),
-      this.stateEvaluator.getCache().close()
+      this.stateEvaluator.getCache().close(),
+      this.kvStorageFactory.close?.(),
+      this.diffCache.close(),
+      this.reorgDetector?.close()
     ]).then();
   }
 
@@ -219,6 +264,26 @@ export class Warp {
     return this;
   }
 
+  useDiffCache(diffCache: SortKeyCache<InteractionDiff>): Warp {
+    this.diffCache = diffCache;
+    return this;
+  }
+
+  useCacheOptions(cacheOptions: CacheOptions): Warp {
+    this.cacheOptions = cacheOptions;
+    return this;
+  }
+
+  /**
+   * Enables the detection of the chain reorganisations - the caches of the contracts affected by a reorg
+   * are rolled back before their evaluation, and the 'reorgDetected' event is dispatched on the {@link eventTarget}.
+   * See {@link ReorgDetector}.
+   */
+  useReorgDetection(options?: ReorgDetectionOptions): Warp {
+    this.reorgDetector = new ReorgDetector(this, options);
+    return this;
+  }
+
   useGwUrl(url: string): Warp {
     this._gwUrl = url;
     return this;
@@ -10,16 +10,22 @@ import { WarpGatewayContractDefinitionLoader } from './modules/impl/WarpGatewayC
 import { WarpGatewayInteractionsLoader } from './modules/impl/WarpGatewayInteractionsLoader';
 import { InteractionsLoader } from './modules/InteractionsLoader';
 import { StateEvaluator, EvalStateResult } from './modules/StateEvaluator';
-import { WarpEnvironment, Warp } from './Warp';
+import { WarpEnvironment, Warp, KVStorageFactory } from './Warp';
 import { CacheOptions, GatewayOptions } from './WarpFactory';
 import { BasicSortKeyCache } from '../cache/BasicSortKeyCache';
 import { CacheableContractDefinitionLoader } from './modules/impl/CacheableContractDefinitionLoader';
+import { SortKeyCache } from '../cache/SortKeyCache';
+import { InteractionDiff } from './InteractionDiff';
+import { createSortKeyCache } from '../cache/SortKeyCacheFactory';
 
 export class WarpBuilder {
   private _definitionLoader?: CacheableDefinitionLoader;
   private _interactionsLoader?: InteractionsLoader;
   private _executorFactory?: ExecutorFactory<HandlerApi<unknown>>;
   private _stateEvaluator?: StateEvaluator;
+  private _kvStorageFactory?: KVStorageFactory;
+  private _diffCache?: SortKeyCache<InteractionDiff>;
+  private _cacheOptions?: CacheOptions;
 
   constructor(
     private readonly _arweave: Arweave,
@@ -47,6 +53,25 @@ export class WarpBuilder {
     return this;
   }
 
+  public setKVStorageFactory(value: KVStorageFactory): WarpBuilder {
+    this._kvStorageFactory = value;
+    return this;
+  }
+
+  public setDiffCache(value: SortKeyCache<InteractionDiff>): WarpBuilder {
+    this._diffCache = value;
+    return this;
+  }
+
+  /**
+   * the options of the caches not set explicitly - e.g. the {@link Warp.diffCache} is created
+   * in the 'diffs' subdirectory of the {@link CacheOptions.dbLocation}
+   */
+  public setCacheOptions(value: CacheOptions): WarpBuilder {
+    this._cacheOptions = value;
+    return this;
+  }
+
   public overwriteSource(sourceCode: { [key: string]: string }): Warp {
     if (this._executorFactory == null) {
       throw new Error('Set base ExecutorFactory first');
@@ -65,6 +90,7 @@ export class WarpBuilder {
       this._environment,
       cacheOptions
     );
+    this._cacheOptions = this._cacheOptions || cacheOptions;
     return this;
   }
 
@@ -78,6 +104,7 @@ export class WarpBuilder {
       this._environment,
       cacheOptions
     );
+    this._cacheOptions = this._cacheOptions || cacheOptions;
     return this;
   }
 
@@ -93,6 +120,22 @@ export class WarpBuilder {
 
     this._definitionLoader.warp = warp;
     this._interactionsLoader.warp = warp;
+    if (this._kvStorageFactory) {
+      warp.useKVStorageFactory(this._kvStorageFactory);
+    }
+    if (this._cacheOptions) {
+      warp.useCacheOptions(this._cacheOptions);
+    }
+    if (this._diffCache) {
+      warp.useDiffCache(this._diffCache);
+    } else if (this._cacheOptions) {
+      warp.useDiffCache(
+        createSortKeyCache<InteractionDiff>({
+          ...this._cacheOptions,
+          dbLocation: `${this._cacheOptions.dbLocation}/diffs`
+        })
+      );
+    }
 
     return warp;
   }
@@ -1,11 +1,17 @@
 import Arweave from 'arweave';
-import { LevelDbCache } from '../cache/impl/LevelDbCache';
+import { createSortKeyCache } from '../cache/SortKeyCacheFactory';
+import { BasicSortKeyCache } from '../cache/BasicSortKeyCache';
+import { DeltaCacheEntry, DeltaSortKeyCache } from '../cache/impl/DeltaSortKeyCache';
+import { SharedLevelDbKVStorage } from '../cache/impl/SharedLevelDbKVStorage';
+import { CacheEncryptionOptions, EncryptedSortKeyCache } from '../cache/impl/EncryptedSortKeyCache';
+import { SortKeyCache } from '../cache/SortKeyCache';
+import { CompressionType, ValueCodecName } from '../cache/ValueCodec';
 import { Evolve } from '../plugins/Evolve';
-import { CacheableStateEvaluator } from './modules/impl/CacheableStateEvaluator';
+import { AutoPruneOptions, CacheableStateEvaluator } from './modules/impl/CacheableStateEvaluator';
 import { HandlerExecutorFactory } from './modules/impl/HandlerExecutorFactory';
 import { ConfirmationStatus, SourceType } from './modules/impl/WarpGatewayInteractionsLoader';
 import { EvalStateResult } from './modules/StateEvaluator';
-import { WarpEnvironment, Warp } from './Warp';
+import { KVStorageFactory, WarpEnvironment, Warp } from './Warp';
 import { WarpBuilder } from './WarpBuilder';
 
 export type GatewayOptions = {
@@ -17,6 +23,29 @@ export type CacheOptions = {
   inMemory: boolean;
   dbLocation: string;
   subLevelSeparator?: string | undefined;
+  // whether the IndexedDbCache should be used instead of the LevelDbCache when running in a browser
+  // - true by default
+  useIndexedDbInBrowser?: boolean;
+  // (state cache only) automatic pruning of the state cache after the evaluation
+  autoPrune?: AutoPruneOptions;
+  // (state cache only) if set, full states are stored only every n-th entry of a contract
+  // and JSON-patch deltas in between - see DeltaSortKeyCache
+  deltaCheckpointInterval?: number;
+  // (LevelDbCache only) the codec used for serializing the values - 'json' by default
+  valueCodec?: ValueCodecName;
+  // (LevelDbCache only) compression of the serialized values - 'none' by default
+  compression?: CompressionType;
+  // (LevelDbCache only) compression overrides for the specific sub-levels (i.e. cache keys, e.g. contract tx ids)
+  subLevelCompression?: Record<string, CompressionType>;
+  // whether the caches created with an older schema version should be migrated automatically when opened
+  // - true by default; if false, such caches refuse to open (see CacheMigrationRunner)
+  autoMigrate?: boolean;
+  // whether the KV storages of all contracts should be stored in a single LevelDB (under the '<dbLocation>/kv/shared')
+  // - instead of a separate LevelDB per contract, see SharedLevelDbKVStorage
+  sharedKVStorage?: boolean;
+  // if set, the values (and optionally the keys) of the state, contract definitions and KV caches are stored
+  // encrypted with AES-GCM - see EncryptedSortKeyCache
+  encryption?: CacheEncryptionOptions;
 };
 
 export const defaultWarpGwOptions: GatewayOptions = {
@@ -113,20 +142,71 @@ export class WarpFactory {
   /**
    * returns an instance of {@link WarpBuilder} that allows to fully customize the Warp instance.
    * @param arweave
-   * @param cacheOptions
+   * @param cacheOptions - unless {@link CacheOptions.useIndexedDbInBrowser} is set to false, the {@link IndexedDbCache}
+   * is used for all the caches (including the KV storages) when running in a browser;
+   * if {@link CacheOptions.deltaCheckpointInterval} is set, the state cache is wrapped with the {@link DeltaSortKeyCache};
+   * if {@link CacheOptions.encryption} is set, all the caches (including the KV storages) are wrapped with
+   * the {@link EncryptedSortKeyCache}
    */
   static custom(arweave: Arweave, cacheOptions: CacheOptions, environment: WarpEnvironment): WarpBuilder {
-    const stateCache = new LevelDbCache<EvalStateResult<unknown>>({
+    const stateCacheOptions = {
       ...cacheOptions,
       dbLocation: `${cacheOptions.dbLocation}/state`
-    });
+    };
+    const stateCache: BasicSortKeyCache<EvalStateResult<unknown>> =
+      cacheOptions.deltaCheckpointInterval > 0
+        ? new DeltaSortKeyCache(
+            createSortKeyCache<DeltaCacheEntry<EvalStateResult<unknown>>>(stateCacheOptions),
+            cacheOptions.deltaCheckpointInterval
+          )
+        : createSortKeyCache<EvalStateResult<unknown>>(stateCacheOptions);
 
     const executorFactory = new HandlerExecutorFactory(arweave);
     const stateEvaluator = new CacheableStateEvaluator(arweave, stateCache, [new Evolve()]);
+    if (cacheOptions.autoPrune) {
+      stateEvaluator.setAutoPrune(cacheOptions.autoPrune);
+    }
 
-    return Warp.builder(arweave, stateCache, environment)
+    const builder = Warp.builder(arweave, stateCache, environment)
       .setExecutorFactory(executorFactory)
-      .setStateEvaluator(stateEvaluator);
+      .setStateEvaluator(stateEvaluator)
+      .setCacheOptions(cacheOptions);
+    let kvStorageFactory: KVStorageFactory;
+    if (cacheOptions.sharedKVStorage) {
+      kvStorageFactory = new SharedLevelDbKVStorage({
+        ...cacheOptions,
+        dbLocation: `${cacheOptions.dbLocation}/kv/shared`
+      }).factory;
+    }
+    if (cacheOptions.encryption) {
+      kvStorageFactory = this.encryptedKVStorageFactory(cacheOptions, kvStorageFactory);
+    }
+    if (kvStorageFactory) {
+      builder.setKVStorageFactory(kvStorageFactory);
+    }
+    return builder;
+  }
+
+  /**
+   * wraps the KV storages created by the given factory - or, if not set, the per-contract LevelDB storages
+   * (just as the default {@link Warp.kvStorageFactory}, but under the {@link CacheOptions.dbLocation})
+   */
+  private static encryptedKVStorageFactory(
+    cacheOptions: CacheOptions,
+    factory: KVStorageFactory | undefined
+  ): KVStorageFactory {
+    const storage = (contractTxId: string): SortKeyCache<string> =>
+      factory
+        ? (factory(contractTxId) as SortKeyCache<string>)
+        : createSortKeyCache<string>({
+            ...cacheOptions,
+            encryption: undefined,
+            dbLocation: `${cacheOptions.dbLocation}/kv/ldb/${contractTxId}`
+          });
+    return Object.assign(
+      (contractTxId: string) => new EncryptedSortKeyCache<unknown>(storage(contractTxId), cacheOptions.encryption),
+      { close: factory?.close }
+    );
   }
 
   private static customArweaveGw(
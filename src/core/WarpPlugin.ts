@@ -1,6 +1,6 @@
 import { VrfData } from '../legacy/gqlResult';
 
-export const knownWarpPluginsPartial = [`^smartweave-extension-`] as const;
+export const knownWarpPluginsPartial = [`^smartweave-extension-`, `^interaction-filter-`] as const;
 export const knownWarpPlugins = [
   'evm-signature-verification',
   'subscription',
@@ -13,7 +13,7 @@ export const knownWarpPlugins = [
   'vrf',
   'quickjs'
 ] as const;
-type WarpPluginPartialType = `smartweave-extension-${string}`;
+type WarpPluginPartialType = `smartweave-extension-${string}` | `interaction-filter-${string}`;
 export type WarpKnownPluginType = (typeof knownWarpPlugins)[number];
 export type WarpPluginType = WarpKnownPluginType | WarpPluginPartialType;
 
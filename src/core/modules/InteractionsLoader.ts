@@ -4,6 +4,16 @@ import { WarpAware } from '../Warp';
 
 export type GW_TYPE = 'arweave' | 'warp';
 
+/**
+ * A single contract's part of the {@link InteractionsLoader.loadMany} - with the same semantics
+ * of the sortKeys as in the {@link InteractionsLoader.load}
+ */
+export interface InteractionsLoadRequest {
+  contractTxId: string;
+  fromSortKey?: string;
+  toSortKey?: string;
+}
+
 export interface GwTypeAware {
   type(): GW_TYPE;
 }
@@ -31,5 +41,35 @@ export interface InteractionsLoader extends GwTypeAware, WarpAware {
     signal?: AbortSignal
   ): Promise<GQLNodeInterface[]>;
 
+  /**
+   * Loads the interactions of multiple contracts - in as few requests to the gateway as possible.
+   * Optional - the loaders that cannot batch the requests may skip it.
+   *
+   * @return the interactions of each requested contract - keyed by the contract tx id
+   */
+  loadMany?(
+    requests: InteractionsLoadRequest[],
+    evaluationOptions?: EvaluationOptions,
+    signal?: AbortSignal
+  ): Promise<Map<string, GQLNodeInterface[]>>;
+
   clearCache(): void;
+
+  /**
+   * removes the cached interactions of the contract with the sortKey higher or equal to the given one.
+   * Optional - see {@link clearInteractionsCacheFrom} for the fallback.
+   */
+  clearCacheFrom?(contractTxId: string, sortKey: string): void;
+}
+
+/**
+ * Calls the {@link InteractionsLoader.clearCacheFrom} - or, if the loader does not implement it,
+ * clears its whole cache.
+ */
+export function clearInteractionsCacheFrom(loader: InteractionsLoader, contractTxId: string, sortKey: string): void {
+  if (loader.clearCacheFrom) {
+    loader.clearCacheFrom(contractTxId, sortKey);
+  } else {
+    loader.clearCache();
+  }
 }
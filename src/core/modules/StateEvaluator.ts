@@ -3,6 +3,8 @@ import { ExecutionContext } from '../ExecutionContext';
 import { GQLNodeInterface } from '../../legacy/gqlResult';
 import { SourceType } from './impl/WarpGatewayInteractionsLoader';
 import { BasicSortKeyCache } from '../../cache/BasicSortKeyCache';
+import { InteractionFilterDeclaration } from '../InteractionFilter';
+import { defaultGasSchedule, GasSchedule } from './impl/instrument-source';
 
 /**
  * Implementors of this class are responsible for evaluating contract's state
@@ -141,6 +143,8 @@ export class DefaultEvaluationOptions implements EvaluationOptions {
 
   throwOnInternalWriteError = true;
 
+  rollbackFailedInternalWrites = false;
+
   cacheEveryNInteractions = -1;
 
   useKVStorage = false;
@@ -158,6 +162,18 @@ export class DefaultEvaluationOptions implements EvaluationOptions {
   strictSortKey = false;
 
   strictEvolve = true;
+
+  recordDiffs = false;
+
+  interactionFilters = [];
+
+  stateValidation: 'off' | 'interaction' | 'cache' = 'off';
+
+  stateValidationFailure: 'invalidate' | 'warn' = 'invalidate';
+
+  gasMetering = false;
+
+  gasSchedule: GasSchedule = defaultGasSchedule;
 }
 
 // an interface for the contract EvaluationOptions - can be used to change the behaviour of some features.
@@ -230,6 +246,13 @@ export interface EvaluationOptions {
   // set to 'true' be default, can be set to false for backwards compatibility
   throwOnInternalWriteError: boolean;
 
+  // whether the state changes made by the failed internal write (i.e. with the result type != 'ok' - that was not
+  // auto thrown, see throwOnInternalWriteError) - including the changes made by the successful calls nested in it -
+  // should be reverted, without reverting the earlier changes of the caller. Both the json-states and the kv storages
+  // changes are reverted - see InteractionState.trackKV.
+  // Can be set in the root contract's manifest.
+  rollbackFailedInternalWrites: boolean;
+
   // force SDK to cache the state after evaluating each N interactions
   // defaults to -1, which effectively turns off this feature
   cacheEveryNInteractions: number;
@@ -260,6 +283,32 @@ export interface EvaluationOptions {
 
   // whether NetworkCommunicationErrors during loading evolved sources are stopping contract evaluation
   strictEvolve: boolean;
+
+  // whether a JSON-patch diff of the state (and of the KV storage) should be recorded for each evaluated interaction
+  // - a lightweight alternative to the stackTrace.saveState, see Contract.getInteractionDiff
+  recordDiffs: boolean;
+
+  // the filters of the interactions - applied before the evaluation of each interaction, see InteractionFilterDeclaration
+  // - the filtered out interactions are marked as invalid, with the reason in the errorMessages
+  interactionFilters: InteractionFilterDeclaration[];
+
+  // whether the state should be validated against the JSON Schema from the contract's manifest (EvaluationManifest.stateSchema)
+  // - 'interaction' - after each interaction (and each internal write)
+  // - 'cache' - only after the interactions, whose states are stored in the cache - the violations are only logged,
+  // as these interactions depend on the cache settings and on where the evaluation stopped
+  stateValidation: 'off' | 'interaction' | 'cache';
+
+  // what happens when the state violates the schema (with the 'interaction' stateValidation):
+  // - 'invalidate' - the interaction is invalid (with the violations in the errorMessages) and its changes are reverted
+  // - 'warn' - the violations are only logged
+  stateValidationFailure: 'invalidate' | 'warn';
+
+  // whether the sources of the JS contracts should be instrumented to charge the gas (up to the gasLimit)
+  // for each loop iteration and function call - and whether the KV operations should be charged
+  gasMetering: boolean;
+
+  // the gas charged for each operation, if the gasMetering is set
+  gasSchedule: GasSchedule;
 }
 
 // https://github.com/nodejs/node/issues/40678 duh...
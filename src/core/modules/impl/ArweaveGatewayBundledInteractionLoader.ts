@@ -300,6 +300,10 @@ export class ArweaveGatewayBundledInteractionLoader implements InteractionsLoade
     // noop
   }
 
+  clearCacheFrom(): void {
+    // noop
+  }
+
   set warp(warp: Warp) {
     this.arweaveWrapper = new ArweaveWrapper(warp);
     this.arweaveFetcher = new ArweaveGQLTxsFetcher(warp);
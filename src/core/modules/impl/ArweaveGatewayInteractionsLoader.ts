@@ -3,7 +3,7 @@ import { SMART_WEAVE_TAGS, WARP_TAGS } from '../../KnownTags';
 import { GQLEdgeInterface, GQLNodeInterface } from '../../../legacy/gqlResult';
 import { Benchmark } from '../../../logging/Benchmark';
 import { LoggerFactory } from '../../../logging/LoggerFactory';
-import { GW_TYPE, InteractionsLoader } from '../InteractionsLoader';
+import { GW_TYPE, InteractionsLoader, InteractionsLoadRequest } from '../InteractionsLoader';
 import { InteractionsSorter } from '../InteractionsSorter';
 import { EvaluationOptions } from '../StateEvaluator';
 import { LexicographicalInteractionsSorter } from './LexicographicalInteractionsSorter';
@@ -26,7 +26,14 @@ export class ArweaveGatewayInteractionsLoader implements InteractionsLoader {
   private _warp: Warp;
   private readonly tagsParser = new TagsParser();
 
-  constructor(protected readonly arweave: Arweave, private readonly environment: WarpEnvironment) {
+  /**
+   * @param txsFetcher - the GQL transactions fetcher - created for the Warp instance, if not set
+   */
+  constructor(
+    protected readonly arweave: Arweave,
+    private readonly environment: WarpEnvironment,
+    private readonly txsFetcher?: ArweaveGQLTxsFetcher
+  ) {
     this.sorter = new LexicographicalInteractionsSorter(arweave);
   }
 
@@ -107,6 +114,98 @@ export class ArweaveGatewayInteractionsLoader implements InteractionsLoader {
       interactions = interactions.concat(innerWritesInteractions);
     }
 
+    return await this.process(interactions, fromSortKey, toSortKey, loadingBenchmark);
+  }
+
+  /**
+   * Loads the interactions of all the requested contracts with a single query (paginated)
+   * - and a single query for the internal writes, if enabled.
+   * The block heights range of the queries covers the ranges of all the requests,
+   * the interactions are then filtered per contract.
+   *
+   * Note: the {@link EvaluationOptions.transactionsPagesPerBatch} is not supported.
+   */
+  async loadMany(
+    requests: InteractionsLoadRequest[],
+    evaluationOptions?: EvaluationOptions,
+    signal?: AbortSignal
+  ): Promise<Map<string, GQLNodeInterface[]>> {
+    const result: Map<string, GQLNodeInterface[]> = new Map();
+    if (requests.length == 0) {
+      return result;
+    }
+    const contractIds = requests.map((r) => r.contractTxId);
+    this.logger.debug('Loading interactions for', contractIds);
+
+    const fromBlockHeights = requests.map((r) => this.sorter.extractBlockHeight(r.fromSortKey));
+    const toBlockHeights = requests.map((r) => this.sorter.extractBlockHeight(r.toSortKey));
+    const blockFilter = {
+      min: fromBlockHeights.includes(null) ? null : Math.min(...fromBlockHeights),
+      max: toBlockHeights.includes(null) ? null : Math.max(...toBlockHeights)
+    };
+
+    const loadingBenchmark = Benchmark.measure();
+    let interactions = (
+      await this.arweaveTransactionQuery.transactions(
+        {
+          tags: [
+            {
+              name: SMART_WEAVE_TAGS.APP_NAME,
+              values: ['SmartWeaveAction']
+            },
+            {
+              name: SMART_WEAVE_TAGS.CONTRACT_TX_ID,
+              values: contractIds
+            }
+          ],
+          blockFilter,
+          first: MAX_REQUEST
+        },
+        Number.MAX_SAFE_INTEGER,
+        signal
+      )
+    ).filter(bundledTxsFilter);
+
+    if (evaluationOptions?.internalWrites) {
+      const innerWritesInteractions = (
+        await this.arweaveTransactionQuery.transactions(
+          {
+            tags: [
+              {
+                name: WARP_TAGS.INTERACT_WRITE,
+                values: contractIds
+              }
+            ],
+            blockFilter,
+            first: MAX_REQUEST
+          },
+          Number.MAX_SAFE_INTEGER,
+          signal
+        )
+      ).filter(bundledTxsFilter);
+      this.logger.debug('Inner writes interactions length:', innerWritesInteractions.length);
+      interactions = interactions.concat(innerWritesInteractions);
+    }
+    loadingBenchmark.stop();
+
+    for (const { contractTxId, fromSortKey, toSortKey } of requests) {
+      const contractInteractions = interactions.filter(
+        (i) =>
+          this.tagsParser.getContractsWithInputs(i.node).has(contractTxId) ||
+          (evaluationOptions?.internalWrites && this.tagsParser.isInteractWrite(i.node, contractTxId))
+      );
+      result.set(contractTxId, await this.process(contractInteractions, fromSortKey, toSortKey, loadingBenchmark));
+    }
+
+    return result;
+  }
+
+  private async process(
+    interactions: GQLEdgeInterface[],
+    fromSortKey: string | undefined,
+    toSortKey: string | undefined,
+    loadingBenchmark: Benchmark
+  ): Promise<GQLNodeInterface[]> {
     /**
      * Because the behaviour of the Arweave gateway in case of passing null to min/max block height
      * in the gql query params is unknown (https://discord.com/channels/908759493943394334/908766823342801007/983643012947144725)
@@ -173,8 +272,12 @@ export class ArweaveGatewayInteractionsLoader implements InteractionsLoader {
     // noop
   }
 
+  clearCacheFrom(): void {
+    // noop
+  }
+
   set warp(warp: Warp) {
-    this.arweaveTransactionQuery = new ArweaveGQLTxsFetcher(warp);
+    this.arweaveTransactionQuery = this.txsFetcher || new ArweaveGQLTxsFetcher(warp);
     this._warp = warp;
   }
 }
@@ -7,7 +7,7 @@ import { CacheableDefinitionLoader, DefinitionLoader } from '../DefinitionLoader
 import { Warp, WarpEnvironment } from '../../Warp';
 import { CacheKey, SortKeyCacheResult } from '../../../cache/SortKeyCache';
 import { BasicSortKeyCache } from '../../../cache/BasicSortKeyCache';
-import { LevelDbCache } from '../../../cache/impl/LevelDbCache';
+import { createSortKeyCache } from '../../../cache/SortKeyCacheFactory';
 import { CacheOptions } from '../../WarpFactory';
 
 /**
@@ -23,13 +23,13 @@ export class CacheableContractDefinitionLoader implements CacheableDefinitionLoa
     private readonly env: WarpEnvironment,
     cacheOptions: CacheOptions
   ) {
-    this.definitionCache = new LevelDbCache<ContractCache<unknown>>({
+    this.definitionCache = createSortKeyCache<ContractCache<unknown>>({
       ...cacheOptions,
       dbLocation: `${cacheOptions.dbLocation}/contracts`
     });
 
     // Separate cache for sources to minimize duplicates
-    this.srcCache = new LevelDbCache<SrcCache>({
+    this.srcCache = createSortKeyCache<SrcCache>({
       ...cacheOptions,
       dbLocation: `${cacheOptions.dbLocation}/source`
     });
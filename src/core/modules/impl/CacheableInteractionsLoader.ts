@@ -1,12 +1,23 @@
 import { GQLNodeInterface } from '../../../legacy/gqlResult';
 import { LoggerFactory } from '../../../logging/LoggerFactory';
-import { InteractionsLoader, GW_TYPE } from '../InteractionsLoader';
+import { InteractionsLoader, GW_TYPE, InteractionsLoadRequest } from '../InteractionsLoader';
 import { EvaluationOptions } from '../StateEvaluator';
 import { Warp } from '../../Warp';
 
+// the interactions loaded after the fromSortKey (null - from the first one) up to the toSortKey (inclusive)
+// - null toSortKey if they were loaded up to the latest one (which might be outdated by the next call,
+// so the loadMany results are served only to the first following load call - see prefetched)
+interface LoadedRange {
+  fromSortKey: string | null;
+  toSortKey: string | null;
+  prefetched: boolean;
+}
+
 export class CacheableInteractionsLoader implements InteractionsLoader {
   private readonly logger = LoggerFactory.INST.create('CacheableInteractionsLoader');
   private readonly interactionsCache: Map<string, GQLNodeInterface[]> = new Map();
+  // the sortKey ranges of the cached interactions (also the empty ones)
+  private readonly loadedRanges: Map<string, LoadedRange> = new Map();
 
   constructor(private readonly delegate: InteractionsLoader) {}
 
@@ -22,11 +33,19 @@ export class CacheableInteractionsLoader implements InteractionsLoader {
       toSortKey
     });
 
-    if (!this.interactionsCache.has(contractTxId)) {
+    if (this.isLoaded(contractTxId, fromSortKey, toSortKey)) {
+      this.loadedRanges.get(contractTxId).prefetched = false;
+      return (this.interactionsCache.get(contractTxId) || []).filter(
+        (i) =>
+          (fromSortKey == null || i.sortKey.localeCompare(fromSortKey) > 0) &&
+          (toSortKey == null || i.sortKey.localeCompare(toSortKey) <= 0)
+      );
+    }
+
+    const range = this.loadedRanges.get(contractTxId);
+    if (!this.interactionsCache.has(contractTxId) || !range || !startsWithin(range, fromSortKey)) {
       const interactions = await this.delegate.load(contractTxId, fromSortKey, toSortKey, evaluationOptions);
-      if (interactions.length) {
-        this.interactionsCache.set(contractTxId, interactions);
-      }
+      this.cache(contractTxId, interactions, fromSortKey, toSortKey);
       return interactions;
     } else {
       const cachedInteractions = this.interactionsCache.get(contractTxId);
@@ -41,6 +60,11 @@ export class CacheableInteractionsLoader implements InteractionsLoader {
           );
           const allInteractions = cachedInteractions.concat(missingInteractions);
           this.interactionsCache.set(contractTxId, allInteractions);
+          this.loadedRanges.set(contractTxId, {
+            fromSortKey: range.fromSortKey,
+            toSortKey: toSortKey ?? null,
+            prefetched: false
+          });
           return allInteractions;
         }
       }
@@ -49,15 +73,114 @@ export class CacheableInteractionsLoader implements InteractionsLoader {
     }
   }
 
+  /**
+   * Loads the interactions of the not yet cached contracts with the {@link InteractionsLoader.loadMany} of the delegate
+   * (or concurrently with its {@link InteractionsLoader.load}, if it cannot batch the requests) - and caches them,
+   * so that the following {@link load} calls for these contracts are served from the cache.
+   */
+  async loadMany(
+    requests: InteractionsLoadRequest[],
+    evaluationOptions?: EvaluationOptions,
+    signal?: AbortSignal
+  ): Promise<Map<string, GQLNodeInterface[]>> {
+    const result: Map<string, GQLNodeInterface[]> = new Map();
+    const missing = requests.filter(
+      (r) => !this.interactionsCache.has(r.contractTxId) && !this.isLoaded(r.contractTxId, r.fromSortKey, r.toSortKey)
+    );
+    this.logger.debug(`Loading interactions of ${missing.length} contracts`, {
+      cached: requests.length - missing.length
+    });
+
+    if (missing.length) {
+      const loaded = this.delegate.loadMany
+        ? await this.delegate.loadMany(missing, evaluationOptions, signal)
+        : new Map(
+            await Promise.all(
+              missing.map(
+                async (r): Promise<[string, GQLNodeInterface[]]> => [
+                  r.contractTxId,
+                  await this.delegate.load(r.contractTxId, r.fromSortKey, r.toSortKey, evaluationOptions, signal)
+                ]
+              )
+            )
+          );
+      for (const { contractTxId, fromSortKey, toSortKey } of missing) {
+        const interactions = loaded.get(contractTxId) || [];
+        this.cache(contractTxId, interactions, fromSortKey, toSortKey, true);
+        result.set(contractTxId, interactions);
+      }
+    }
+
+    for (const { contractTxId, fromSortKey, toSortKey } of requests) {
+      if (!result.has(contractTxId)) {
+        result.set(contractTxId, await this.load(contractTxId, fromSortKey, toSortKey, evaluationOptions));
+      }
+    }
+    return result;
+  }
+
   type(): GW_TYPE {
     return this.delegate.type();
   }
 
   clearCache(): void {
     this.interactionsCache.clear();
+    this.loadedRanges.clear();
+  }
+
+  clearCacheFrom(contractTxId: string, sortKey: string): void {
+    const range = this.loadedRanges.get(contractTxId);
+    const cachedInteractions = this.interactionsCache.get(contractTxId);
+    const retained = (cachedInteractions || []).filter((i) => i.sortKey.localeCompare(sortKey) < 0);
+    if (range && retained.length) {
+      // the retained interactions are loaded up to the last of them - the following ones are loaded again
+      this.interactionsCache.set(contractTxId, retained);
+      this.loadedRanges.set(contractTxId, {
+        fromSortKey: range.fromSortKey,
+        toSortKey: retained[retained.length - 1].sortKey,
+        prefetched: false
+      });
+    } else {
+      this.interactionsCache.delete(contractTxId);
+      this.loadedRanges.delete(contractTxId);
+    }
+  }
+
+  private cache(
+    contractTxId: string,
+    interactions: GQLNodeInterface[],
+    fromSortKey?: string,
+    toSortKey?: string,
+    prefetched = false
+  ) {
+    if (interactions.length) {
+      this.interactionsCache.set(contractTxId, interactions);
+    } else {
+      this.interactionsCache.delete(contractTxId);
+    }
+    this.loadedRanges.set(contractTxId, {
+      fromSortKey: fromSortKey ?? null,
+      toSortKey: toSortKey ?? null,
+      prefetched
+    });
+  }
+
+  private isLoaded(contractTxId: string, fromSortKey?: string, toSortKey?: string): boolean {
+    const range = this.loadedRanges.get(contractTxId);
+    if (range == null || !startsWithin(range, fromSortKey)) {
+      return false;
+    }
+    if (range.toSortKey == null) {
+      return toSortKey == null && range.prefetched;
+    }
+    return toSortKey != null && toSortKey.localeCompare(range.toSortKey) <= 0;
   }
 
   set warp(warp: Warp) {
     this.delegate.warp = warp;
   }
 }
+
+function startsWithin(range: LoadedRange, fromSortKey?: string): boolean {
+  return range.fromSortKey == null || (fromSortKey != null && fromSortKey.localeCompare(range.fromSortKey) >= 0);
+}
@@ -10,6 +10,14 @@ import { DefaultStateEvaluator } from './DefaultStateEvaluator';
 import { HandlerApi } from './HandlerExecutorFactory';
 import { genesisSortKey } from './LexicographicalInteractionsSorter';
 import { BasicSortKeyCache } from '../../../cache/BasicSortKeyCache';
+import { RetentionPolicy } from '../../../cache/RetentionPolicy';
+
+export type AutoPruneOptions = {
+  // the retention policy (or number of latest entries per contract) used for pruning the state cache
+  retention: number | RetentionPolicy;
+  // number of the root contract evaluations between subsequent prunes
+  interval: number;
+};
 
 /**
  * An implementation of DefaultStateEvaluator that adds caching capabilities.
@@ -22,6 +30,9 @@ import { BasicSortKeyCache } from '../../../cache/BasicSortKeyCache';
 export class CacheableStateEvaluator extends DefaultStateEvaluator {
   private readonly cLogger = LoggerFactory.INST.create('CacheableStateEvaluator');
 
+  private autoPruneOptions: AutoPruneOptions = null;
+  private evaluationsSincePrune = 0;
+
   constructor(
     arweave: Arweave,
     private cache: BasicSortKeyCache<EvalStateResult<unknown>>,
@@ -30,6 +41,20 @@ export class CacheableStateEvaluator extends DefaultStateEvaluator {
     super(arweave, executionContextModifiers);
   }
 
+  /**
+   * Schedules pruning of the state cache - performed after every 'interval' evaluations of the root contracts
+   * (i.e. never in the middle of the evaluation of the nested contracts).
+   * Passing null disables the automatic pruning.
+   */
+  setAutoPrune(options: AutoPruneOptions | null): CacheableStateEvaluator {
+    if (options && (!options.interval || options.interval <= 0)) {
+      throw new Error(`Auto prune interval must be a positive number, got ${options.interval}`);
+    }
+    this.autoPruneOptions = options;
+    this.evaluationsSincePrune = 0;
+    return this;
+  }
+
   async eval<State>(
     executionContext: ExecutionContext<State, HandlerApi<State>>
   ): Promise<SortKeyCacheResult<EvalStateResult<State>>> {
@@ -79,11 +104,29 @@ export class CacheableStateEvaluator extends DefaultStateEvaluator {
       }
     }
     // eval state for the missing transactions - starting from the latest value from cache.
-    return await this.doReadState(
+    const result = await this.doReadState(
       missingInteractions,
       new EvalStateResult(baseState, baseValidity, baseErrorMessages),
       executionContext
     );
+    if (contract.isRoot()) {
+      await this.maybePrune();
+    }
+    return result;
+  }
+
+  private async maybePrune(): Promise<void> {
+    if (!this.autoPruneOptions || ++this.evaluationsSincePrune < this.autoPruneOptions.interval) {
+      return;
+    }
+    this.evaluationsSincePrune = 0;
+    try {
+      const stats = await this.cache.prune(this.autoPruneOptions.retention);
+      this.cLogger.debug('State cache pruned', stats);
+    } catch (e) {
+      // pruning failure should not affect the evaluated state
+      this.cLogger.warn('Error while pruning the state cache', e);
+    }
   }
 
   async onStateEvaluated<State>(
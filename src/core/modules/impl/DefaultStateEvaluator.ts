@@ -1,5 +1,6 @@
 import Arweave from 'arweave';
 
+import { compare } from 'fast-json-patch';
 import { SortKeyCacheResult } from '../../../cache/SortKeyCache';
 import { InteractionCall } from '../../ContractCallRecord';
 import { ExecutionContext } from '../../../core/ExecutionContext';
@@ -11,9 +12,12 @@ import { indent } from '../../../utils/utils';
 import { EvalStateResult, StateEvaluator, CustomEvent } from '../StateEvaluator';
 import { AbortError, ContractInteraction, HandlerApi, InteractionResult } from './HandlerExecutorFactory';
 import { TagsParser } from './TagsParser';
+import { InteractionFilters } from './InteractionFilters';
 import { VrfPluginFunctions } from '../../WarpPlugin';
 import { BasicSortKeyCache } from '../../../cache/BasicSortKeyCache';
 import { KnownErrors } from './handler/JsHandlerApi';
+import { InteractionDiff } from '../../InteractionDiff';
+import { Contract } from '../../../contract/Contract';
 
 type EvaluationProgressInput = {
   contractTxId: string;
@@ -54,8 +58,8 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
     baseState: EvalStateResult<State>,
     executionContext: ExecutionContext<State, HandlerApi<State>>
   ): Promise<SortKeyCacheResult<EvalStateResult<State>>> {
-    const { ignoreExceptions, stackTrace, internalWrites } = executionContext.evaluationOptions;
-    const { contract, contractDefinition, sortedInteractions, warp, signal } = executionContext;
+    const { ignoreExceptions, stackTrace, internalWrites, recordDiffs } = executionContext.evaluationOptions;
+    const { contract, contractDefinition, sortedInteractions, warp, signal, budget } = executionContext;
 
     let currentState = baseState.state;
     let currentSortKey = null;
@@ -82,6 +86,7 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
     );
     const progressPlugin = warp.maybeLoadPlugin<EvaluationProgressInput, void>('evaluation-progress');
     const vrfPlugin = warp.maybeLoadPlugin<void, VrfPluginFunctions>('vrf');
+    const interactionFilters = new InteractionFilters(warp, executionContext.evaluationOptions.interactionFilters);
 
     let shouldBreakAfterEvolve = false;
 
@@ -92,6 +97,11 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
       if (signal?.aborted) {
         throw new AbortError(`Abort signal in ${DefaultStateEvaluator.name}`);
       }
+      if (budget?.shouldStop()) {
+        this.logger.info(`Evaluation budget exhausted after ${i} of ${missingInteractionsLength} interactions`);
+        break;
+      }
+      budget?.interactionStarted();
 
       const missingInteraction = missingInteractions[i];
       currentSortKey = missingInteraction.sortKey;
@@ -122,6 +132,14 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
         }
       }
 
+      const filteredOutMessage = interactionFilters.apply(contractDefinition.txId, missingInteraction);
+      if (filteredOutMessage != null) {
+        this.logger.debug(`${indent(depth)}${filteredOutMessage}`, missingInteraction.id);
+        validity[missingInteraction.id] = false;
+        errorMessages[missingInteraction.id] = filteredOutMessage;
+        continue;
+      }
+
       this.logger.debug(
         `${indent(depth)}[${contractDefinition.txId}][${missingInteraction.id}][${missingInteraction.block.height}]: ${
           missingInteractions.indexOf(missingInteraction) + 1
@@ -151,6 +169,7 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
          This in turn will cause the state of THIS contract to be
          updated in 'interaction state'
          */
+        const previousState = currentState;
         let newState: EvalStateResult<unknown> = null;
         let writingContractState: SortKeyCacheResult<EvalStateResult<unknown>> = null;
         try {
@@ -208,14 +227,31 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
           validity[missingInteraction.id] = false;
         }
 
+        // the KV changes are made by the handler of the writing contract - so only the state diff is recorded
+        const diff =
+          recordDiffs && canBeCached(missingInteraction)
+            ? this.interactionDiff(
+                contractDefinition.txId,
+                missingInteraction,
+                validity[missingInteraction.id],
+                previousState,
+                currentState,
+                []
+              )
+            : undefined;
         interactionCall.update({
           cacheHit: false,
           outputState: stackTrace.saveState ? currentState : undefined,
           executionTime: singleInteractionBenchmark.elapsed(true) as number,
           valid: validity[missingInteraction.id],
           errorMessage: errorMessage,
-          gasUsed: 0 // TODO...
+          gasUsed: this.internalWriteGasUsed(writingContract, contract.txId(), missingInteraction),
+          diff
         });
+        budget?.useGas(interactionCall.interactionOutput.gasUsed);
+        if (diff) {
+          contract.interactionState().addDiff(diff);
+        }
       } else {
         // "direct" interaction with this contract - "standard" processing
         const inputTag = this.tagsParser.getInputTag(missingInteraction, executionContext.contractDefinition.txId);
@@ -235,9 +271,17 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
           interactionType: 'write'
         };
 
+        const { stateValidation, cacheEveryNInteractions, updateCacheForEachInteraction } =
+          executionContext.evaluationOptions;
         const interactionData = {
           interaction,
-          interactionTx: missingInteraction
+          interactionTx: missingInteraction,
+          validateState:
+            stateValidation == 'interaction' ||
+            (stateValidation == 'cache' &&
+              (i == missingInteractionsLength - 1 ||
+                updateCacheForEachInteraction ||
+                (cacheEveryNInteractions > 0 && i % cacheEveryNInteractions === 0)))
         };
 
         const interactionCall: InteractionCall = contract.getCallStack().addInteractionData(interactionData);
@@ -259,14 +303,30 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
 
         this.logger.debug(`${indent(depth)}Interaction evaluation`, singleInteractionBenchmark.elapsed());
 
+        const diff =
+          recordDiffs && canBeCached(missingInteraction)
+            ? this.interactionDiff(
+                contractDefinition.txId,
+                missingInteraction,
+                isValidInteraction,
+                currentState,
+                result.state,
+                result.kvDiff || []
+              )
+            : undefined;
         interactionCall.update({
           cacheHit: false,
           outputState: stackTrace.saveState ? currentState : undefined,
           executionTime: singleInteractionBenchmark.elapsed(true) as number,
           valid: validity[missingInteraction.id],
           errorMessage: errorMessage,
-          gasUsed: result.gasUsed
+          gasUsed: result.gasUsed,
+          diff
         });
+        budget?.useGas(result.gasUsed);
+        if (diff) {
+          contract.interactionState().addDiff(diff);
+        }
 
         if (result.type === 'exception' && ignoreExceptions !== true) {
           throw new Error(`Exception while processing ${JSON.stringify(interaction)}:\n${result.errorMessage}`);
@@ -351,6 +411,37 @@ export abstract class DefaultStateEvaluator implements StateEvaluator {
     return new SortKeyCacheResult(currentSortKey, evalStateResult);
   }
 
+  private interactionDiff<State>(
+    contractTxId: string,
+    interactionTx: GQLNodeInterface,
+    valid: boolean,
+    previousState: State,
+    state: State,
+    kvDiff: InteractionDiff['kv']
+  ): InteractionDiff {
+    return {
+      contractTxId,
+      txId: interactionTx.id,
+      sortKey: interactionTx.sortKey,
+      valid,
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      state: compare(previousState as any, state as any),
+      kv: kvDiff
+    };
+  }
+
+  // the gas is used by the handler of THIS contract, called by the writing contract -
+  // so it is recorded in the writing contract's call stack
+  private internalWriteGasUsed(
+    writingContract: Contract,
+    contractTxId: string,
+    interactionTx: GQLNodeInterface
+  ): number {
+    const writingInteraction = writingContract.getCallStack().getInteraction(interactionTx.id);
+    const writeCall = writingInteraction?.interactionInput.foreignContractCalls[contractTxId];
+    return writeCall?.getInteraction(interactionTx.id)?.interactionOutput?.gasUsed || 0;
+  }
+
   private logResult<State>(
     result: InteractionResult<State, unknown>,
     currentTx: GQLNodeInterface,
@@ -11,12 +11,14 @@ import { EvalStateResult, EvaluationOptions, InteractionCompleteEvent } from '..
 import { JsHandlerApi, KnownErrors } from './handler/JsHandlerApi';
 import { WasmHandlerApi } from './handler/WasmHandlerApi';
 import { normalizeContractSource } from './normalize-source';
+import { instrumentContractSource } from './instrument-source';
 import { Warp } from '../../Warp';
 import { isBrowser } from '../../../utils/utils';
 import { Buffer } from 'warp-isomorphic';
 import { InteractionState } from '../../../contract/states/InteractionState';
 import { WarpLogger } from '../../../logging/WarpLogger';
 import { XOR } from '../../../utils/types/mutually-exclusive';
+import { Operation } from 'fast-json-patch';
 
 // 'require' to fix esbuild adding same lib in both cjs and esm format
 // https://github.com/evanw/esbuild/issues/1950
@@ -171,7 +173,10 @@ export class HandlerExecutorFactory implements ExecutorFactory<HandlerApi<unknow
       this.logger.info(`WASM ${contractDefinition.srcWasmLang} handler created in ${benchmark.elapsed()}`);
       return new WasmHandlerApi(swGlobal, contractDefinition, jsExports || wasmInstance.exports);
     } else {
-      const normalizedSource = normalizeContractSource(contractDefinition.src, warp.hasPlugin('vm2'));
+      const normalizedSource = normalizeContractSource(
+        evaluationOptions.gasMetering ? instrumentContractSource(contractDefinition.src) : contractDefinition.src,
+        warp.hasPlugin('vm2')
+      );
       if (normalizedSource.includes('unsafeClient')) {
         switch (evaluationOptions.unsafeClient) {
           case 'allow': {
@@ -276,6 +281,9 @@ async function getWasmModule(wasmResponse: Response, binary: Buffer): Promise<We
 export interface InteractionData<Input> {
   interaction: ContractInteraction<Input>;
   interactionTx: GQLNodeInterface;
+  // whether the resulting state should be validated against the contract's state schema
+  // - see EvaluationOptions.stateValidation
+  validateState?: boolean;
 }
 
 /**
@@ -298,6 +306,8 @@ export type HandlerResult<State, Result> = {
   state: State;
   event?: InteractionCompleteEvent;
   gasUsed?: number;
+  // the changes of the KV storage - if the EvaluationOptions.recordDiffs is set
+  kvDiff?: Operation[];
 };
 
 type WarpInteractionResult<State, Result> = HandlerResult<State, Result> & {
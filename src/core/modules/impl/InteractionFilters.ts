@@ -0,0 +1,75 @@
+import { InteractionFilter, InteractionFilterDeclaration, InteractionFilterInput } from '../../InteractionFilter';
+import { WARP_TAGS } from '../../KnownTags';
+import { Warp } from '../../Warp';
+import { GQLNodeInterface } from '../../../legacy/gqlResult';
+
+export class CallersFilter implements InteractionFilter {
+  filter({ interaction, declaration }: InteractionFilterInput): string | null {
+    const caller = interaction.owner.address;
+    return stringArray(declaration, 'exclude').includes(caller) ? `Caller ${caller} is excluded` : null;
+  }
+}
+
+export class BundlersFilter implements InteractionFilter {
+  filter({ interaction, declaration }: InteractionFilterInput): string | null {
+    const bundler = interaction.tags.find((tag) => tag.name == WARP_TAGS.SEQUENCER_OWNER)?.value;
+    return bundler && stringArray(declaration, 'exclude').includes(bundler) ? `Bundler ${bundler} is excluded` : null;
+  }
+}
+
+export class MinFeeFilter implements InteractionFilter {
+  filter({ interaction, declaration }: InteractionFilterInput): string | null {
+    if (typeof declaration.winston != 'string') {
+      throw new Error(`Interaction filter 'minFee' requires the 'winston' string param`);
+    }
+    const fee = interaction.fee?.winston || '0';
+    return BigInt(fee) < BigInt(declaration.winston) ? `Fee ${fee} is lower than ${declaration.winston}` : null;
+  }
+}
+
+const builtInFilters: { [type: string]: InteractionFilter } = {
+  callers: new CallersFilter(),
+  bundlers: new BundlersFilter(),
+  minFee: new MinFeeFilter()
+};
+
+/**
+ * Applies the declared interaction filters - the built-in ones and the ones registered as
+ * the 'interaction-filter-<type>' plugins - see {@link InteractionFilterDeclaration}.
+ */
+export class InteractionFilters {
+  constructor(private readonly warp: Warp, private readonly declarations: InteractionFilterDeclaration[] = []) {
+    for (const { type } of declarations) {
+      if (!builtInFilters[type] && !warp.hasPlugin(`interaction-filter-${type}`)) {
+        throw new Error(`Unknown interaction filter '${type}' - register the 'interaction-filter-${type}' plugin`);
+      }
+    }
+  }
+
+  /**
+   * @return the error message with the reason of filtering out the interaction (by the first matching filter)
+   * - or null, if the interaction should be evaluated
+   */
+  apply(contractTxId: string, interaction: GQLNodeInterface): string | null {
+    for (const declaration of this.declarations) {
+      const input: InteractionFilterInput = { contractTxId, interaction, declaration };
+      const reason = builtInFilters[declaration.type]
+        ? builtInFilters[declaration.type].filter(input)
+        : this.warp
+            .loadPlugin<InteractionFilterInput, string | null>(`interaction-filter-${declaration.type}`)
+            .process(input);
+      if (reason != null) {
+        return `Interaction filtered out by the '${declaration.type}' filter: ${reason}`;
+      }
+    }
+    return null;
+  }
+}
+
+function stringArray(declaration: InteractionFilterDeclaration, param: string): string[] {
+  const value = declaration[param];
+  if (!Array.isArray(value)) {
+    throw new Error(`Interaction filter '${declaration.type}' requires the '${param}' array param`);
+  }
+  return value;
+}
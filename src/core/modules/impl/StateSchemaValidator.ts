@@ -0,0 +1,21 @@
+import Ajv, { ValidateFunction } from 'ajv';
+
+const ajv = new Ajv({ allErrors: true });
+
+// compiled once per schema object (i.e. per contract's manifest)
+const validators = new WeakMap<object, ValidateFunction>();
+
+/**
+ * Validates the state against the JSON Schema (draft-07) - see {@link EvaluationManifest.stateSchema}.
+ * @return the description of the violations - or null, if the state is valid
+ */
+export function validateStateSchema(schema: object, state: unknown): string | null {
+  if (!validators.has(schema)) {
+    validators.set(schema, ajv.compile(schema));
+  }
+  const validate = validators.get(schema);
+  if (validate(state)) {
+    return null;
+  }
+  return ajv.errorsText(validate.errors, { dataVar: 'state' });
+}
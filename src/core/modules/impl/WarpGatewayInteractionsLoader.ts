@@ -49,6 +49,9 @@ type InteractionsResult = {
  * Passing no flag is the "backwards compatible" mode (ie. it will behave like the original Arweave GQL gateway endpoint).
  * Note that this may result in returning corrupted and/or forked interactions
  * - read more {@link https://github.com/warp-contracts/redstone-sw-gateway#corrupted-transactions}.
+ *
+ * Note: the endpoint accepts a single contract only - so the {@link InteractionsLoader.loadMany} is not implemented
+ * (the {@link CacheableInteractionsLoader} loads the interactions of multiple contracts concurrently instead).
  */
 export class WarpGatewayInteractionsLoader implements InteractionsLoader {
   private _warp: Warp;
@@ -140,6 +143,10 @@ export class WarpGatewayInteractionsLoader implements InteractionsLoader {
     // noop
   }
 
+  clearCacheFrom(): void {
+    // noop
+  }
+
   set warp(warp: Warp) {
     this._warp = warp;
     this._warpFetchWrapper = new WarpFetchWrapper(warp);
@@ -7,6 +7,7 @@ import { LoggerFactory } from '../../../../logging/LoggerFactory';
 import { deepCopy } from '../../../../utils/utils';
 import { ContractError, HandlerApi, InteractionData, InteractionResult } from '../HandlerExecutorFactory';
 import { TagsParser } from '../TagsParser';
+import { validateStateSchema } from '../StateSchemaValidator';
 import { Contract } from '../../../../contract/Contract';
 
 export abstract class AbstractContractHandler<State> implements HandlerApi<State> {
@@ -40,6 +41,29 @@ export abstract class AbstractContractHandler<State> implements HandlerApi<State
     // noop by default;
   }
 
+  /**
+   * Validates the state against the contract's state schema (see {@link EvaluationManifest.stateSchema}).
+   * Throws the {@link ContractError} on violation - or only logs it (see {@link EvaluationOptions.stateValidationFailure}).
+   * The violations found by the 'cache' validation are always only logged - so that they do not change the result.
+   */
+  protected assertStateSchema(executionContext: ExecutionContext<State>, state: State): void {
+    const schema = this.contractDefinition.manifest?.stateSchema;
+    if (!schema) {
+      return;
+    }
+    const violation = validateStateSchema(schema, state);
+    if (violation == null) {
+      return;
+    }
+    const message = `State schema violation: ${violation}`;
+    const { stateValidation, stateValidationFailure } = executionContext.evaluationOptions;
+    if (stateValidation == 'cache' || stateValidationFailure == 'warn') {
+      this.logger.warn(`${message} [${this.contractDefinition.txId}]`, this.swGlobal._activeTx?.id);
+    } else {
+      throw new ContractError(message, 'stateSchema');
+    }
+  }
+
   protected assignWrite(executionContext: ExecutionContext<State>) {
     this.swGlobal.contracts.write = async <Input = unknown>(
       contractTxId: string,
@@ -77,7 +101,27 @@ export abstract class AbstractContractHandler<State> implements HandlerApi<State
         callingInteraction: activeTx,
         callType: 'write'
       });
-      const result = await calleeContract.applyInput<Input>(input, activeTx, executionContext.signal);
+      // allows to revert the changes made by the failed call - without reverting the earlier changes of the caller
+      const interactionState = calleeContract.interactionState();
+      const savepoint = executionContext.evaluationOptions.rollbackFailedInternalWrites
+        ? await interactionState.savepoint()
+        : null;
+      let result: InteractionResult<unknown, unknown>;
+      try {
+        result = await calleeContract.applyInput<Input>(input, activeTx, executionContext.signal);
+      } catch (e) {
+        if (savepoint) {
+          await interactionState.rollbackTo(savepoint);
+        }
+        throw e;
+      }
+      if (savepoint) {
+        if (result.type == 'ok') {
+          await interactionState.release(savepoint);
+        } else {
+          await interactionState.rollbackTo(savepoint);
+        }
+      }
 
       this.logger.debug('Cache result?:', !activeTx.dry);
       const shouldAutoThrow =
@@ -40,11 +40,18 @@ export class JsHandlerApi<State> extends AbstractContractHandler<State> {
     const { interaction, interactionTx } = interactionData;
 
     this.setupSwGlobal(interactionData);
+    this.swGlobal.gasLimit = executionContext.evaluationOptions.gasLimit;
+    this.swGlobal.gasUsed = 0;
     this.enableInternalWrites(executionContext, interactionTx);
 
     this.assertNotConstructorCall<Input>(interaction);
 
-    return await this.runContractFunction(executionContext, interaction, currentResult.state);
+    return await this.runContractFunction(
+      executionContext,
+      interaction,
+      currentResult.state,
+      interactionData.validateState
+    );
   }
 
   // eslint-disable-next-line
@@ -136,7 +143,8 @@ export class JsHandlerApi<State> extends AbstractContractHandler<State> {
   private async runContractFunction<Input, Result>(
     executionContext: ExecutionContext<State>,
     interaction: InteractionData<Input>['interaction'],
-    state: State
+    state: State,
+    validateState = false
   ): Promise<InteractionResult<State, Result>> {
     const stateClone = deepCopy(state);
     const { timeoutId, timeoutPromise } = timeout(
@@ -150,6 +158,9 @@ export class JsHandlerApi<State> extends AbstractContractHandler<State> {
       const handlerResult = await Promise.race([timeoutPromise, this.contractFunction(stateClone, interaction)]);
 
       if (handlerResult && (handlerResult.state !== undefined || handlerResult.result !== undefined)) {
+        if (validateState) {
+          this.assertStateSchema(executionContext, handlerResult.state || stateClone);
+        }
         await this.swGlobal.kv.commit();
 
         let interactionEvent: InteractionCompleteEvent = null;
@@ -171,7 +182,9 @@ export class JsHandlerApi<State> extends AbstractContractHandler<State> {
           type: 'ok' as const,
           result: handlerResult.result,
           state: handlerResult.state || stateClone,
-          event: interactionEvent
+          event: interactionEvent,
+          kvDiff: this.swGlobal.kv.diff(),
+          gasUsed: this.swGlobal.gasUsed
         };
       }
 
@@ -186,7 +199,8 @@ export class JsHandlerApi<State> extends AbstractContractHandler<State> {
             errorMessage: err.message,
             state: state,
             result: null,
-            event: null
+            event: null,
+            gasUsed: this.swGlobal.gasUsed
           };
         case KnownErrors.ConstructorError:
           // if that's the contract that we want to evaluate 'directly' - we need to stop evaluation immediately,
@@ -212,7 +226,8 @@ export class JsHandlerApi<State> extends AbstractContractHandler<State> {
             errorMessage: err.message,
             state: state,
             result: null,
-            event: null
+            event: null,
+            gasUsed: this.swGlobal.gasUsed
           };
         default:
           return {
@@ -220,7 +235,8 @@ export class JsHandlerApi<State> extends AbstractContractHandler<State> {
             errorMessage: `${(err && err.stack) || (err && err.message) || err}`,
             state: state,
             result: null,
-            event: null
+            event: null,
+            gasUsed: this.swGlobal.gasUsed
           };
       }
     } finally {
@@ -43,20 +43,31 @@ export class WasmHandlerApi<State> extends AbstractContractHandler<State> {
       await this.swGlobal.kv.open();
       await this.swGlobal.kv.begin();
       const handlerResult = await this.doHandle(interaction);
+      const state = this.doGetCurrentState(); // TODO: return only at the end of evaluation and when caching is required
 
       if (interactionData.interaction.interactionType === 'view') {
         // view calls are not allowed to perform any KV modifications
         await this.swGlobal.kv.rollback();
       } else {
+        if (interactionData.validateState) {
+          try {
+            this.assertStateSchema(executionContext, state);
+          } catch (e) {
+            // reverts the state kept by the wasm module
+            this.initState(currentResult.state);
+            throw e;
+          }
+        }
         await this.swGlobal.kv.commit();
       }
 
       return {
         type: 'ok',
         result: handlerResult,
-        state: this.doGetCurrentState(), // TODO: return only at the end of evaluation and when caching is required
+        state,
         gasUsed: this.swGlobal.gasUsed,
-        event: null
+        event: null,
+        kvDiff: this.swGlobal.kv.diff()
       };
     } catch (e) {
       await this.swGlobal.kv.rollback();
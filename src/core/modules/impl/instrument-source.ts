@@ -0,0 +1,121 @@
+import { parse, Node } from 'acorn';
+
+/**
+ * The gas charged for the operations of the instrumented JS contracts - see {@link EvaluationOptions.gasMetering}.
+ *
+ * @param loop - each iteration of a loop
+ * @param call - each call of a function defined in the contract's source
+ * @param kvRead - each read from the KV storage (get, keys, kvMap)
+ * @param kvWrite - each write to the KV storage (put, del)
+ */
+export interface GasSchedule {
+  loop: number;
+  call: number;
+  kvRead: number;
+  kvWrite: number;
+}
+
+export type GasOperation = keyof GasSchedule;
+
+export const defaultGasSchedule: GasSchedule = Object.freeze({
+  loop: 1,
+  call: 1,
+  kvRead: 10,
+  kvWrite: 50
+});
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type AstNode = Node & { [key: string]: any };
+
+type Insertion = {
+  pos: number;
+  text: string;
+  closing: boolean;
+  // the insertions at the same position are ordered by the bounds of their nodes - so that the nested nodes stay nested
+  node: AstNode;
+};
+
+const LOOPS = ['ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoWhileStatement'];
+const FUNCTIONS = ['FunctionDeclaration', 'FunctionExpression', 'ArrowFunctionExpression'];
+
+/**
+ * Instruments the source of the JS contract - so that it charges the gas (with the {@link SmartWeaveGlobal.useGasFor})
+ * at the beginning of each loop iteration and each function call.
+ * The KV operations are charged by the {@link KV} itself.
+ *
+ * Note: the calls of the built-in functions (e.g. JSON.parse) are not charged - but the callbacks passed to them are.
+ */
+export function instrumentContractSource(contractSrc: string): string {
+  let ast: AstNode;
+  try {
+    ast = parse(contractSrc, { ecmaVersion: 'latest', sourceType: 'module' }) as AstNode;
+  } catch (e) {
+    throw new Error(`Cannot instrument the contract source: ${e.message}`);
+  }
+
+  const insertions: Insertion[] = [];
+  const charge = (operation: GasOperation) => `SmartWeave.useGasFor('${operation}')`;
+
+  visit(ast, (node) => {
+    if (LOOPS.includes(node.type)) {
+      const body: AstNode = node.body;
+      if (body.type == 'BlockStatement') {
+        insertions.push({ pos: body.start + 1, text: `${charge('loop')};`, closing: false, node });
+      } else {
+        insertions.push({ pos: body.start, text: `{${charge('loop')};`, closing: false, node });
+        insertions.push({ pos: body.end, text: '}', closing: true, node });
+      }
+    } else if (FUNCTIONS.includes(node.type)) {
+      const body: AstNode = node.body;
+      if (body.type == 'BlockStatement') {
+        // the directives (e.g. 'use strict') must stay at the beginning of the function body
+        let pos = body.start + 1;
+        for (const statement of body.body) {
+          if (statement.directive === undefined) {
+            break;
+          }
+          pos = statement.end;
+        }
+        insertions.push({ pos, text: `${charge('call')};`, closing: false, node });
+      } else {
+        insertions.push({ pos: body.start, text: `(${charge('call')}, `, closing: false, node });
+        insertions.push({ pos: body.end, text: ')', closing: true, node });
+      }
+    }
+  });
+
+  insertions.sort((a, b) => {
+    if (a.pos != b.pos) {
+      return a.pos - b.pos;
+    }
+    if (a.closing != b.closing) {
+      return a.closing ? -1 : 1;
+    }
+    // the inner node is closed before the outer one - and opened after it
+    return a.closing ? b.node.start - a.node.start : b.node.end - a.node.end;
+  });
+  const chunks: string[] = [];
+  let last = 0;
+  for (const { pos, text } of insertions) {
+    chunks.push(contractSrc.slice(last, pos), text);
+    last = pos;
+  }
+  chunks.push(contractSrc.slice(last));
+  return chunks.join('');
+}
+
+function visit(node: AstNode, callback: (node: AstNode) => void) {
+  callback(node);
+  for (const key of Object.keys(node)) {
+    const value = node[key];
+    if (Array.isArray(value)) {
+      value.filter(isNode).forEach((child) => visit(child, callback));
+    } else if (isNode(value)) {
+      visit(value, callback);
+    }
+  }
+}
+
+function isNode(value: unknown): value is AstNode {
+  return value != null && typeof value == 'object' && typeof (value as AstNode).type == 'string';
+}
@@ -7,9 +7,23 @@ export * from './logging/Benchmark';
 
 export * from './cache/BasicSortKeyCache';
 export * from './cache/SortKeyCache';
+export * from './cache/SortKeyCacheIterator';
+export * from './cache/RetentionPolicy';
+export * from './cache/ValueCodec';
+export * from './cache/migration/CacheMigration';
+export * from './cache/migration/CacheMigrationRunner';
+export * from './cache/verification/VerifiableCache';
+export * from './cache/verification/CacheVerifier';
 export * from './cache/WarpCache';
 export * from './cache/impl/LevelDbCache';
+export * from './cache/impl/SharedLevelDbKVStorage';
 export * from './cache/impl/MemCache';
+export * from './cache/impl/IndexedDbCache';
+export * from './cache/impl/TieredSortKeyCache';
+export * from './cache/impl/DeltaSortKeyCache';
+export * from './cache/impl/EncryptedSortKeyCache';
+export * from './cache/SortKeyCacheFactory';
+export * from './cache/remote/RemoteSortKeyCache';
 
 export * from './core/modules/DefinitionLoader';
 export * from './core/modules/ExecutorFactory';
@@ -27,7 +41,9 @@ export * from './core/modules/impl/CacheableStateEvaluator';
 export * from './core/modules/impl/HandlerExecutorFactory';
 export * from './core/modules/impl/LexicographicalInteractionsSorter';
 export * from './core/modules/impl/TagsParser';
+export * from './core/modules/impl/InteractionFilters';
 export * from './core/modules/impl/normalize-source';
+export * from './core/modules/impl/instrument-source';
 export * from './core/modules/impl/handler/AbstractContractHandler';
 export * from './core/modules/impl/handler/JsHandlerApi';
 export * from './core/modules/impl/handler/WasmHandlerApi';
@@ -37,6 +53,9 @@ export * from './core/KnownTags';
 export * from './core/ExecutionContext';
 export * from './core/ContractDefinition';
 export * from './core/ContractCallRecord';
+export * from './core/InteractionDiff';
+export * from './core/InteractionFilter';
+export * from './core/EvaluationBudget';
 
 export * from './core/WarpFactory';
 export * from './core/Warp';
@@ -55,6 +74,10 @@ export * from './contract/deploy/Source';
 export * from './contract/deploy/CreateContract';
 export * from './contract/states/ContractInteractionState';
 export * from './contract/states/InteractionState';
+export * from './contract/snapshots/Snapshots';
+export * from './contract/debug/DebugSession';
+export * from './contract/batch/BatchStateReader';
+export * from './contract/reorg/ReorgDetector';
 
 export * from './legacy/gqlResult';
 export * from './legacy/smartweave-global';
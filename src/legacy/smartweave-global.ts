@@ -4,8 +4,18 @@ import { EvaluationOptions } from '../core/modules/StateEvaluator';
 import { GQLNodeInterface, GQLTagInterface, VrfData } from './gqlResult';
 import { CacheKey, SortKeyCache } from '../cache/SortKeyCache';
 import { SortKeyCacheRangeOptions } from '../cache/SortKeyCacheRangeOptions';
+import { Savepoint } from '../cache/BasicSortKeyCache';
+import {
+  entriesIterator,
+  keysIterator,
+  SortKeyCacheIterator,
+  SortKeyCacheIteratorOptions
+} from '../cache/SortKeyCacheIterator';
 import { InteractionState } from '../contract/states/InteractionState';
-import { safeGet } from '../utils/utils';
+import { deepCopy, safeGet } from '../utils/utils';
+import { Operation } from 'fast-json-patch';
+import { kvDiffPath } from '../core/InteractionDiff';
+import { GasOperation } from '../core/modules/impl/instrument-source';
 
 /**
  *
@@ -112,11 +122,19 @@ export class SmartWeaveGlobal {
     this.vrf = new SWVrf(this);
 
     this.useGas = this.useGas.bind(this);
+    this.useGasFor = this.useGasFor.bind(this);
     this.getBalance = this.getBalance.bind(this);
 
     this.extensions = {};
 
-    this.kv = new KV(storage, interactionState, this.transaction, this.contract.id);
+    this.kv = new KV(
+      storage,
+      interactionState,
+      this.transaction,
+      this.contract.id,
+      evaluationOptions.recordDiffs,
+      this.useGasFor
+    );
   }
 
   useGas(gas: number) {
@@ -129,6 +147,16 @@ export class SmartWeaveGlobal {
     }
   }
 
+  /**
+   * Charges the gas for the operation - according to the EvaluationOptions.gasSchedule.
+   * Called by the instrumented contract sources and by the KV storage, if the EvaluationOptions.gasMetering is set.
+   */
+  useGasFor(operation: GasOperation) {
+    if (this.evaluationOptions.gasMetering) {
+      this.useGas(this.evaluationOptions.gasSchedule[operation]);
+    }
+  }
+
   async getBalance(address: string, height?: number): Promise<string> {
     if (!this._activeTx) {
       throw new Error('Cannot read balance - active tx is not set.');
@@ -274,20 +302,32 @@ export class SWVrf {
 }
 
 export class KV {
+  // handles of the savepoints created by the (possibly nested) calls to begin
+  private readonly _savepoints: (Savepoint | void)[] = [];
+  // the changes made since the outermost begin - recorded only if the EvaluationOptions.recordDiffs is set
+  private _changes: Operation[] = [];
+  // the number of the recorded changes at each savepoint
+  private readonly _changesMarks: number[] = [];
+
   constructor(
     private readonly _storage: SortKeyCache<any> | null,
     private readonly _interactionState: InteractionState,
     private readonly _transaction: SWTransaction,
-    private readonly _contractTxId: string
+    private readonly _contractTxId: string,
+    private readonly _recordChanges = false,
+    private readonly _useGas: (operation: GasOperation) => void = () => {}
   ) {}
 
   async put(key: string, value: any): Promise<void> {
     this.checkStorageAvailable();
+    this._useGas('kvWrite');
     await this._storage.put(new CacheKey(key, this._transaction.sortKey), value);
+    this.recordChange({ op: 'add', path: kvDiffPath(key), value: deepCopy(value) });
   }
 
   async get(key: string): Promise<unknown | null> {
     this.checkStorageAvailable();
+    this._useGas('kvRead');
     const sortKey = this._transaction.sortKey;
 
     // then we're checking if the values exists in the interactionState
@@ -305,7 +345,9 @@ export class KV {
 
   async del(key: string): Promise<void> {
     this.checkStorageAvailable();
+    this._useGas('kvWrite');
     const sortKey = this._transaction.sortKey;
+    this.recordChange({ op: 'remove', path: kvDiffPath(key) });
 
     // then we're checking if the values exists in the interactionState
     const interactionStateValue = await this._interactionState.delKV(
@@ -320,37 +362,83 @@ export class KV {
   }
 
   async keys(options?: SortKeyCacheRangeOptions): Promise<string[]> {
+    this._useGas('kvRead');
     const sortKey = this._transaction.sortKey;
     return await this._storage.keys(sortKey, options);
   }
 
   async kvMap<V>(options?: SortKeyCacheRangeOptions): Promise<Map<string, V>> {
+    this._useGas('kvRead');
     const sortKey = this._transaction.sortKey;
     return this._storage.kvMap(sortKey, options);
   }
 
+  /**
+   * Streams the keys - e.g.
+   * for await (const key of SmartWeave.kv.keysIterator({ prefix: 'balances.', limit: 100 })) { ... }
+   */
+  keysIterator(options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<string> {
+    this.checkStorageAvailable();
+    this._useGas('kvRead');
+    const sortKey = this._transaction.sortKey;
+    return keysIterator(this._storage, sortKey, options);
+  }
+
+  entriesIterator<V>(options?: SortKeyCacheIteratorOptions): SortKeyCacheIterator<[string, V]> {
+    this.checkStorageAvailable();
+    this._useGas('kvRead');
+    const sortKey = this._transaction.sortKey;
+    return entriesIterator(this._storage, sortKey, options);
+  }
+
   async begin() {
     if (this._storage) {
-      return this._storage.begin();
+      if (this._savepoints.length == 0) {
+        this._changes = [];
+        // within a savepoint of the failed internal writes rollback - the transaction is begun by the interaction state
+        await this._interactionState.trackKV(this._contractTxId, this._storage);
+      }
+      this._changesMarks.push(this._changes.length);
+      this._savepoints.push(await this._storage.begin());
     }
   }
 
   async commit(): Promise<void> {
     if (this._storage) {
       if (this._transaction.dryRun) {
-        await this._storage.rollback();
+        await this.rollback();
       } else {
-        await this._storage.commit();
+        const savepoint = this._savepoints.pop();
+        this._changesMarks.pop();
+        if (savepoint && this._storage.release) {
+          await this._storage.release(savepoint);
+        } else {
+          await this._storage.commit();
+        }
       }
     }
   }
 
   async rollback(): Promise<void> {
     if (this._storage) {
-      await this._storage.rollback();
+      const savepoint = this._savepoints.pop();
+      if (savepoint && this._storage.rollbackTo) {
+        await this._storage.rollbackTo(savepoint);
+      } else {
+        await this._storage.rollback();
+      }
+      this._changes.length = this._changesMarks.pop() ?? 0;
     }
   }
 
+  /**
+   * Returns the changes committed by the last (outermost) transaction - as a JSON-patch,
+   * see {@link InteractionDiff.kv}. Undefined if the changes are not recorded.
+   */
+  diff(): Operation[] | undefined {
+    return this._recordChanges ? [...this._changes] : undefined;
+  }
+
   open(): Promise<void> {
     if (this._storage) {
       return this._storage.open();
@@ -363,6 +451,12 @@ export class KV {
     }
   }
 
+  private recordChange(change: Operation) {
+    if (this._recordChanges) {
+      this._changes.push(change);
+    }
+  }
+
   private checkStorageAvailable() {
     if (!this._storage) {
       throw new Error('KV Storage not available');
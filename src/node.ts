@@ -0,0 +1,7 @@
+/**
+ * The Node.js-only part of the SDK - the modules that depend on the native modules or the Node.js built-ins.
+ * Not included in the web bundle - import them from 'warp-contracts/node'.
+ */
+export * from './cache/impl/SqliteCache';
+export * from './cache/remote/RemoteSortKeyCacheServer';
+export * from './contract/parallel/ParallelStateReader';
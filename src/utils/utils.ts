@@ -1,6 +1,7 @@
 /* eslint-disable */
 import copy from 'fast-copy';
-import { Buffer } from 'warp-isomorphic';
+import stringify from 'safe-stable-stringify';
+import { Buffer, Crypto } from 'warp-isomorphic';
 import { KnownErrors } from '../core/modules/impl/handler/JsHandlerApi';
 
 export const sleep = (ms: number): Promise<void> => {
@@ -120,6 +121,17 @@ export async function safeGet<T>(input: RequestInfo | URL, init?: RequestInit):
   return getJsonResponse(fetch(input, init));
 }
 
+/**
+ * calculates SHA-256 hash (hex) of the value serialized with the stable stringify
+ */
+export async function stableHash(value: unknown): Promise<string> {
+  const json = stringify(value);
+
+  const hash = await Crypto.subtle.digest('SHA-256', Buffer.from(json, 'utf-8'));
+
+  return Buffer.from(hash).toString('hex');
+}
+
 export function isTxIdValid(txId: string): boolean {
   const validTxIdRegex = /[a-z0-9_-]{43}/i;
   return validTxIdRegex.test(txId);
@@ -1,46 +1,63 @@
 /* eslint-disable */
-import Arweave from 'arweave';
 import { LoggerFactory } from '../src';
-import { TsLogFactory } from '../src/logging/node/TsLogFactory';
-import { MemBlockHeightWarpCache } from '../src/cache/impl/MemBlockHeightCache';
+import { LevelDbCache } from '../src/cache/impl/LevelDbCache';
+import { DeltaSortKeyCache } from '../src/cache/impl/DeltaSortKeyCache';
+import { BasicSortKeyCache } from '../src/cache/BasicSortKeyCache';
+import { CacheKey } from '../src/cache/SortKeyCache';
+import { defaultCacheOptions } from '../src/core/WarpFactory';
 
-type Cache = {
+/**
+ * Compares the full-state storage with the delta-encoded storage ({@link DeltaSortKeyCache})
+ * for a PST-like contract, where each interaction changes only a few balances.
+ */
+type PstState = {
   ticker: string;
-  totalSupply: number;
+  balances: Record<string, number>;
 };
 
-async function main() {
-  LoggerFactory.use(new TsLogFactory());
-
-  LoggerFactory.INST.logLevel('debug');
-
-  const objectCache = new MemBlockHeightWarpCache<Cache>();
-  const arrayCache = new MemBlockHeightWarpCache<Array<Cache>>();
-
-  console.time('benchmark_object');
-  for (let i = 0; i < 10_000_000; i++) {
-    await objectCache.put(
-      { cacheKey: '' + i, blockHeight: i },
-      {
-        ticker: 'RDST',
-        totalSupply: i
-      }
-    );
+const CONTRACT = 'KTzTXT_ANmF84fWEKHzWURD1LWd9QaFR9yfYUwH2Lxw';
+const HOLDERS = 10_000;
+const INTERACTIONS = 500;
+const CHECKPOINT_INTERVALS = [10, 50, 100];
+
+function sortKey(i: number) {
+  return `${i}`.padStart(12, '0');
+}
+
+async function benchmark(name: string, cache: BasicSortKeyCache<PstState>, storage: LevelDbCache<unknown>) {
+  const state: PstState = { ticker: 'BENCH', balances: {} };
+  for (let i = 0; i < HOLDERS; i++) {
+    state.balances[`holder${i}`] = 1000;
+  }
+
+  console.time(`${name} put`);
+  for (let i = 0; i < INTERACTIONS; i++) {
+    state.balances[`holder${i % HOLDERS}`] -= 10;
+    state.balances[`holder${(i * 7) % HOLDERS}`] += 10;
+    await cache.put(new CacheKey(CONTRACT, sortKey(i)), state);
+  }
+  console.timeEnd(`${name} put`);
+
+  console.time(`${name} getLessOrEqual`);
+  for (let i = 0; i < INTERACTIONS; i += 7) {
+    await cache.getLessOrEqual(CONTRACT, sortKey(i));
   }
-  console.timeEnd('benchmark_object');
-
-  console.time('benchmark_array');
-  const o = {};
-  for (let i = 0; i < 10_000_000; i++) {
-    await arrayCache.put({ cacheKey: '' + i, blockHeight: i }, [
-      {
-        ticker: 'RDST',
-        totalSupply: i
-      }
-    ]);
+  console.timeEnd(`${name} getLessOrEqual`);
+
+  const size = JSON.stringify(await storage.dump()).length;
+  console.log(`${name} size: ${(size / 1024 / 1024).toFixed(2)} MB, entries: ${await storage.getNumEntries()}`);
+}
+
+async function main() {
+  LoggerFactory.INST.logLevel('error');
+
+  const fullStorage = new LevelDbCache<PstState>({ ...defaultCacheOptions, inMemory: true });
+  await benchmark('full', fullStorage, fullStorage);
+
+  for (const interval of CHECKPOINT_INTERVALS) {
+    const deltaStorage = new LevelDbCache<any>({ ...defaultCacheOptions, inMemory: true });
+    await benchmark(`delta(${interval})`, new DeltaSortKeyCache<PstState>(deltaStorage, interval), deltaStorage);
   }
-  console.timeEnd('benchmark_array');
-  console.log(Object.keys(o).length);
 }
 
 main().catch((e) => console.error(e));
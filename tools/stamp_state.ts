@@ -1,5 +1,6 @@
 /* eslint-disable */
 import Arweave from 'arweave';
+import fs from 'fs';
 import {
   ArweaveGatewayBundledContractDefinitionLoader,
   ArweaveGatewayBundledInteractionLoader,
@@ -7,6 +8,8 @@ import {
   WarpFactory
 } from '../src';
 
+// evaluates the STAMP contract and exports its state as a snapshot archive - that can be loaded
+// on other nodes with 'tools/sync-state.ts'
 const arweave = Arweave.init({
   host: 'arweave.net',
   port: 443,
@@ -35,13 +38,17 @@ const c = warp.contract(contractId).setEvaluationOptions({
   unsafeClient: 'skip'
 });
 
-async function getState() {
+async function exportState() {
   try {
     const { sortKey, cachedValue } = await c.readState();
     console.log(sortKey, cachedValue.errorMessages, cachedValue.state, cachedValue.validity);
+
+    const archive = await warp.snapshots.export(contractId, sortKey);
+    fs.writeFileSync(`${contractId}.snapshot.json`, archive);
+    console.log(`Snapshot exported to ${contractId}.snapshot.json`);
   } catch (error) {
-    console.log('readState error:', error, 'contractId:', contractId);
+    console.log('export error:', error, 'contractId:', contractId);
   }
 }
 
-getState();
+exportState();
@@ -1,43 +1,31 @@
 /* eslint-disable */
-import Arweave from 'arweave';
-import { LoggerFactory, WarpNodeFactory } from '../src';
 import fs from 'fs';
-import { JWKInterface } from 'arweave/node/lib/wallet';
-import { TsLogFactory } from '../src/logging/node/TsLogFactory';
+import { LoggerFactory, WarpFactory } from '../src';
 
+// loads the snapshot archive exported with 'tools/stamp_state.ts' - instead of re-evaluating the state from genesis
+// usage: ts-node tools/sync-state.ts <snapshot archive path>
 async function main() {
-  LoggerFactory.use(new TsLogFactory());
   LoggerFactory.INST.logLevel('info');
-  const logger = LoggerFactory.INST.create('den');
+  const logger = LoggerFactory.INST.create('sync-state');
 
-  const arweave = Arweave.init({
-    host: 'arweave.net',
-    port: 443,
-    protocol: 'https'
-  });
+  const archivePath = process.argv[2];
+  if (!archivePath) {
+    throw new Error('Usage: ts-node tools/sync-state.ts <snapshot archive path>');
+  }
 
+  const warp = WarpFactory.forMainnet();
   try {
-    const contract = await WarpNodeFactory.memCached(arweave)
-      .contract('KT45jaf8n9UwgkEareWxPgLJk4oMWpI5NODgYVIF1fY')
-      .syncState('https://d2rkt3biev1br2.cloudfront.net/state', { validity: true, safeHeight: true });
-
-    const call = await contract.viewState({
-      function: 'balance',
-      target: 'ZTUZKdajVSLxqoGZVrK923Miuds-iIFGf28pzPHcwMY'
-    });
+    const archive = fs.readFileSync(archivePath);
+    const { manifest } = await warp.snapshots.verify(archive);
+    const { sortKey } = await warp.snapshots.import(archive);
+    logger.info(`Snapshot of ${manifest.contractTxId} imported at ${sortKey}`);
 
-    logger.info(call.result);
+    const { cachedValue } = await warp.contract(manifest.contractTxId).readState();
+    logger.info('State', cachedValue.state);
   } catch (e) {
     logger.error(e);
-  }
-}
-
-export function readJSON(path: string): JWKInterface {
-  const content = fs.readFileSync(path, 'utf-8');
-  try {
-    return JSON.parse(content);
-  } catch (e) {
-    throw new Error(`File "${path}" does not contain a valid JSON`);
+  } finally {
+    await warp.close();
   }
 }
 
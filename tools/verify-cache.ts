@@ -0,0 +1,81 @@
+/* eslint-disable */
+import fs from 'fs';
+import { defaultCacheOptions, LoggerFactory, WarpFactory } from '../src';
+import { CacheVerifier } from '../src/cache/verification/CacheVerifier';
+
+/**
+ * Verifies the integrity of the local state cache and kv storages (see {@link CacheVerifier}).
+ *
+ * Usage:
+ * yarn ts-node tools/verify-cache.ts [--db ./cache/warp] [--contract <contractTxId>]... [--sample <n>]
+ *   [--kv] [--repair] [--out report.json]
+ *
+ * The report is printed to the stdout (or saved to the --out file), the process exits with code 1
+ * if any issues have been found.
+ */
+function parseArgs(argv: string[]) {
+  const args = {
+    db: defaultCacheOptions.dbLocation,
+    contracts: [],
+    sample: undefined,
+    kv: false,
+    repair: false,
+    out: null
+  };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--db':
+        args.db = argv[++i];
+        break;
+      case '--contract':
+        args.contracts.push(argv[++i]);
+        break;
+      case '--sample':
+        args.sample = parseInt(argv[++i]);
+        break;
+      case '--kv':
+        args.kv = true;
+        break;
+      case '--repair':
+        args.repair = true;
+        break;
+      case '--out':
+        args.out = argv[++i];
+        break;
+      default:
+        throw new Error(`Unknown argument ${argv[i]}`);
+    }
+  }
+  return args;
+}
+
+async function main() {
+  LoggerFactory.INST.logLevel('error');
+  LoggerFactory.INST.logLevel('info', 'CacheVerifier');
+  const args = parseArgs(process.argv.slice(2));
+
+  const warp = WarpFactory.forMainnet({ ...defaultCacheOptions, dbLocation: args.db });
+  try {
+    const report = await new CacheVerifier(warp).verify({
+      contractTxIds: args.contracts.length ? args.contracts : undefined,
+      sampleSize: args.sample,
+      repair: args.repair,
+      evaluationOptions: { useKVStorage: args.kv }
+    });
+
+    const json = JSON.stringify(report, null, 2);
+    if (args.out) {
+      fs.writeFileSync(args.out, json);
+    } else {
+      console.log(json);
+    }
+    process.exitCode = report.valid ? 0 : 1;
+  } finally {
+    await warp.close();
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(2);
+});